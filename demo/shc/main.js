@@ -1,6 +1,6 @@
 // Import the SMART Health Cards library
 // In a real application, you would import from 'kill-the-clipboard'
-import { SHCIssuer, SHCReader } from "kill-the-clipboard";
+import { HealthCardRenderer, SHCIssuer, SHCReader } from "kill-the-clipboard";
 // Import QR code decoding library
 import decodeQR from "qr/decode.js";
 // Import JOSE for key handling
@@ -230,6 +230,7 @@ let videoStream = null;
 let scanningActive = false;
 let availableCameras = [];
 let currentNumericData = null; // Store the current QR numeric data
+let currentHealthCard = null; // Store the current health card for printing
 
 // Initialize the application
 async function init() {
@@ -277,6 +278,9 @@ function setupEventListeners() {
   document
     .getElementById("copyNumericBtn")
     .addEventListener("click", copyNumericData);
+  document
+    .getElementById("printCardBtn")
+    .addEventListener("click", printHealthCard);
 
   // QR Scanning
   document.getElementById("scanBtn").addEventListener("click", startCameraScan);
@@ -330,6 +334,7 @@ async function generateQRCode() {
     // Generate numeric data for copying
     const qrNumericStrings = healthCard.asQRNumeric();
     currentNumericData = qrNumericStrings[0];
+    currentHealthCard = healthCard;
 
     // Display the QR code
     displayQRCode(qrCodes[0]);
@@ -380,6 +385,26 @@ function clearGeneration() {
   status.style.display = "none";
   copyButtonContainer.style.display = "none";
   currentNumericData = null;
+  currentHealthCard = null;
+}
+
+// Open the printable health card document in a new window and print it
+async function printHealthCard() {
+  if (!currentHealthCard) {
+    showGenerationStatus("error", "No health card available to print");
+    return;
+  }
+
+  try {
+    const html = await new HealthCardRenderer().renderHTML(currentHealthCard);
+    const printWindow = window.open("", "_blank");
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.print();
+  } catch (error) {
+    console.error("❌ Failed to render the health card:", error);
+    showGenerationStatus("error", `Failed to render the health card: ${error.message}`);
+  }
 }
 
 // Copy numeric data to clipboard
@@ -0,0 +1,26 @@
+// Shared Clock Utilities
+// Used by both SHC and SHL implementations
+
+/**
+ * Source of the current time, in milliseconds since the Unix epoch (like `Date.now`).
+ * Inject a custom clock to issue or verify against a trusted time source, or to pin time in tests.
+ *
+ * @group Utils
+ */
+export type Clock = () => number
+
+/**
+ * Clock reading the system time.
+ *
+ * @group Utils
+ */
+export const systemClock: Clock = () => Date.now()
+
+/**
+ * Returns the current time of a clock as a Unix timestamp in seconds, as used by JWT and SHL claims.
+ *
+ * @group Utils
+ */
+export function nowInSeconds(clock: Clock = systemClock): number {
+  return Math.floor(clock() / 1000)
+}
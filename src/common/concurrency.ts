@@ -0,0 +1,29 @@
+// Shared Concurrency Utilities
+
+/**
+ * Returns a function running tasks with at most `concurrency` of them in progress at once
+ *
+ * @internal
+ */
+export function createLimiter(concurrency: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0
+  const queue: Array<() => void> = []
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      // A finishing task hands its slot over, so `active` already counts this one
+      await new Promise<void>(resolve => queue.push(resolve))
+    } else {
+      active++
+    }
+    try {
+      return await task()
+    } finally {
+      const next = queue.shift()
+      if (next) {
+        next()
+      } else {
+        active--
+      }
+    }
+  }
+}
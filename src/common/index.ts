@@ -1,2 +1,3 @@
 // Common utilities barrel export
+export { type Clock, systemClock } from './clock.js'
 export { compressDeflateRaw, decompressDeflateRaw } from './compression.js'
@@ -0,0 +1,69 @@
+// LRUCacheStore class
+
+import { type Clock, systemClock } from '../common/clock.js'
+import type { CacheEntry, CacheStore } from './types.js'
+
+/**
+ * In-memory least-recently-used {@link CacheStore}.
+ *
+ * Used by default by {@link SHCReader} to cache issuer JWKS and VCI directory snapshots.
+ * Expired entries are dropped on access, and the least recently used entry is evicted
+ * once `maxEntries` is reached. Share a cache only between readers using the same `clock`.
+ *
+ * @example
+ * ```typescript
+ * // Share one cache across readers
+ * const cache = new LRUCacheStore({ maxEntries: 500 });
+ * const reader = new SHCReader({ useVciDirectory: true, cache });
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class LRUCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>()
+  private readonly maxEntries: number
+  private readonly clock: Clock
+
+  /**
+   * Creates a new LRUCacheStore instance.
+   *
+   * @param params.maxEntries - Maximum number of cached entries (default: 100)
+   * @param params.clock - Source of the current time, used to check entry expiry (default: the system clock)
+   */
+  constructor(params: { maxEntries?: number; clock?: Clock } = {}) {
+    this.maxEntries = Math.max(1, params.maxEntries ?? 100)
+    this.clock = params.clock ?? systemClock
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    this.entries.delete(key)
+    if (entry.expiresAt <= this.clock()) {
+      return null
+    }
+    // Re-insert to mark the entry as most recently used
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  /** Number of entries currently held, including entries that expired but were not accessed yet. */
+  get size(): number {
+    return this.entries.size
+  }
+}
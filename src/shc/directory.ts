@@ -1,5 +1,15 @@
+import { createLimiter } from '../common/concurrency.js'
+import { SHCReaderConfigError } from './errors.js'
+import { fetchJSON, type HTTPValidators } from './http.js'
 import type {
+  CacheOptions,
+  DirectoryFetchOptions,
+  DirectoryFetchOutcome,
+  DirectoryIssuerReport,
   DirectoryJSON,
+  DirectoryLoadResult,
+  DirectoryRefreshResult,
+  FetchOptions,
   Issuer,
   IssuerCrl,
   IssuerCrlJSON,
@@ -25,6 +35,9 @@ export class Directory {
    */
   constructor(private issuers: Map<string, Issuer>) {}
 
+  /** HTTP validators of the JWKS and CRL responses fetched for this directory, by URL */
+  private readonly validators = new Map<string, HTTPValidators>()
+
   /**
    * Return the internal issuers array.
    *
@@ -41,6 +54,186 @@ export class Directory {
     return this.issuers.get(iss)
   }
 
+  /**
+   * Get the issuer whose trust record and display metadata apply to cards with the given `iss`.
+   *
+   * When the issuer listed for `iss` is an alias (it has a `canonical_iss`) and the canonical
+   * issuer is listed too, the canonical issuer is returned. Otherwise this is the same as
+   * {@link getIssuerByIss}.
+   *
+   * @param iss - The `iss` claim of a health card
+   * @returns The canonical issuer, or `undefined` when `iss` is not listed
+   * @example
+   * const issuer = directory.resolveIssuer(report.iss)
+   * console.log(`Issued by: ${issuer?.name ?? report.iss}`)
+   */
+  resolveIssuer(iss: string): Issuer | undefined {
+    const issuer = this.issuers.get(iss)
+    const canonical = issuer?.canonical_iss ? this.issuers.get(issuer.canonical_iss) : undefined
+    return canonical ?? issuer
+  }
+
+  /**
+   * Serialize the directory to the published directory JSON schema, e.g. to persist it
+   * or bundle it with an offline verifier. `Directory.fromJSON(directory.toJSON())` yields
+   * an equivalent directory, and `JSON.stringify(directory)` uses this method.
+   *
+   * @returns A {@link DirectoryJSON} object holding every issuer, key and CRL
+   * @example
+   * await writeFile('directory.json', JSON.stringify(directory))
+   * const restored = Directory.fromJSON(JSON.parse(await readFile('directory.json', 'utf8')))
+   */
+  toJSON(): DirectoryJSON {
+    return {
+      issuerInfo: Array.from(this.issuers.values()).map(({ keys, crls, ...issuer }) => ({
+        issuer,
+        keys: Array.from(keys.values()),
+        crls: Array.from(crls.values()).map(({ rids, ridsTimestamps, ...crl }) => ({
+          ...crl,
+          // Restore the "[rid].[revocation_timestamp]" format of published CRLs
+          rids: Array.from(rids).map(rid => {
+            const timestamp = ridsTimestamps.get(rid)
+            return timestamp ? `${rid}.${timestamp}` : rid
+          }),
+        })),
+      })),
+    }
+  }
+
+  /**
+   * Combine this directory with another one into a new Directory.
+   *
+   * Issuers present in both directories get the union of their keys and CRLs. When both hold
+   * the same key or the same key's CRL, the one with the highest `crlVersion` or `ctr` is kept,
+   * preferring `other` on ties. Neither directory is modified.
+   *
+   * @param other - Directory to merge into this one, usually the more recent
+   * @returns A new {@link Directory} with the issuers of both directories
+   * @example
+   * const directory = Directory.fromJSON(bundledDirectoryJson).merge(await Directory.fromVCI())
+   */
+  merge(other: Directory): Directory {
+    const merged = Directory.fromJSON({
+      issuerInfo: [...other.toJSON().issuerInfo, ...this.toJSON().issuerInfo],
+    })
+    for (const [url, validators] of [...this.validators, ...other.validators]) {
+      merged.validators.set(url, validators)
+    }
+    return merged
+  }
+
+  /**
+   * Update the directory in place from the issuers' published metadata, downloading
+   * only what changed.
+   *
+   * For each issuer, the JWKS at `/.well-known/jwks.json` is requested conditionally
+   * (`If-None-Match` / `If-Modified-Since`, with the validators of the previous download by this
+   * directory, if any). A key's CRL at `/.well-known/crl/{kid}.json` is only fetched when the key
+   * advertises a `crlVersion` greater than the `ctr` of the CRL held, and a fetched CRL only
+   * replaces the one held when its `ctr` is greater. CRLs of keys that are no longer in the
+   * downloaded JWKS are dropped.
+   *
+   * Readers configured with this directory see the refreshed metadata right away.
+   *
+   * @param options - Optional network options (see {@link FetchOptions})
+   * @returns Which issuers were updated, unchanged, or could not be refreshed
+   * @throws {@link SHCReaderConfigError} When no fetch implementation is available
+   * @throws The abort reason when `options.signal` is aborted
+   * @example
+   * // Ship a bundled directory, and update it when the device is online
+   * const directory = Directory.fromJSON(bundledDirectoryJson)
+   * const { updated, failed } = await directory.refresh({ fetchTimeout: 5000 })
+   * await saveDirectory(JSON.stringify(directory))
+   */
+  async refresh(options: FetchOptions = {}): Promise<DirectoryRefreshResult> {
+    const result: DirectoryRefreshResult = { updated: [], unchanged: [], failed: [] }
+    for (const issuer of this.issuers.values()) {
+      try {
+        if (await this.refreshIssuer(issuer, options)) {
+          result.updated.push(issuer.iss)
+        } else {
+          result.unchanged.push(issuer.iss)
+        }
+      } catch (error) {
+        if (options.signal?.aborted || error instanceof SHCReaderConfigError) {
+          throw error
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        result.failed.push({ iss: issuer.iss, error: errorMessage })
+      }
+    }
+    return result
+  }
+
+  /**
+   * Refresh the keys and CRLs of one issuer, returning whether anything changed
+   */
+  private async refreshIssuer(issuer: Issuer, options: FetchOptions): Promise<boolean> {
+    let changed = false
+
+    const jwksUrl = `${issuer.iss}/.well-known/jwks.json`
+    const jwks = (await this.fetchIfChanged(jwksUrl, options)) as { keys?: IssuerKey[] } | null
+    if (jwks) {
+      if (!Array.isArray(jwks.keys)) {
+        throw new Error(`Invalid JWKS at ${jwksUrl}: missing keys array`)
+      }
+      const keys = Directory.buildIssuerKeys(jwks.keys)
+      if (!Directory.sameKeys(issuer.keys, keys)) {
+        issuer.keys = keys
+        changed = true
+      }
+      // A CRL only applies to cards signed with its key, which the issuer no longer publishes
+      for (const kid of issuer.crls.keys()) {
+        if (!keys.has(kid)) {
+          issuer.crls.delete(kid)
+          this.validators.delete(`${issuer.iss}/.well-known/crl/${kid}.json`)
+          changed = true
+        }
+      }
+    }
+
+    for (const key of issuer.keys.values()) {
+      const current = issuer.crls.get(key.kid)
+      if (!key.crlVersion || (current && current.ctr >= key.crlVersion)) {
+        continue
+      }
+      const crlUrl = `${issuer.iss}/.well-known/crl/${key.kid}.json`
+      const crl = (await this.fetchIfChanged(crlUrl, options)) as IssuerCrlJSON | null
+      const issuerCrl = crl && Directory.buildIssuerCrls([crl]).get(key.kid)
+      if (issuerCrl && (!current || issuerCrl.ctr > current.ctr)) {
+        issuer.crls.set(key.kid, issuerCrl)
+        changed = true
+      }
+    }
+
+    return changed
+  }
+
+  /**
+   * Conditionally fetch a JSON document, returning `null` when it did not change since
+   * the last download by this directory
+   */
+  private async fetchIfChanged(url: string, options: FetchOptions): Promise<unknown> {
+    const response = await fetchJSON(url, {
+      ...options,
+      validators: this.validators.get(url) ?? {},
+    })
+    if (!response.ok) {
+      if (response.status === 304) return null
+      throw new Error(`Failed to fetch ${url} with status ${response.status}`)
+    }
+    if (response.validators.etag || response.validators.lastModified) {
+      this.validators.set(url, response.validators)
+    }
+    return response.body
+  }
+
+  private static sameKeys(a: Map<string, IssuerKey>, b: Map<string, IssuerKey>): boolean {
+    const serialize = (keys: Map<string, IssuerKey>) =>
+      JSON.stringify(Array.from(keys.entries()).sort(([kidA], [kidB]) => kidA.localeCompare(kidB)))
+    return serialize(a) === serialize(b)
+  }
+
   /**
    * Fetch a snapshot of the VCI Directory published by The Commons Project
    * and build a {@link Directory} from it.
@@ -49,22 +242,45 @@ export class Directory {
    * `Directory.fromJSON` to produce a `Directory` instance. If the snapshot
    * cannot be retrieved (non-2xx response) the function throws an Error.
    *
+   * @param options - Optional caching options (see {@link CacheOptions}) and network options
+   *  (see {@link FetchOptions}). When a cache is given, the snapshot is only downloaded again
+   *  once the cached copy expires.
    * @returns A {@link Directory} populated from the VCI snapshot
-   * @throws Error when the VCI snapshot HTTP fetch returns a non-OK status
+   * @throws Error when the VCI snapshot HTTP fetch returns a non-OK status, times out or is aborted
+   * @throws {@link SHCReaderConfigError} When no fetch implementation is available
    * @example
    * const directory = await Directory.fromVCI()
+   *
+   * // Reuse the snapshot across calls for up to an hour
+   * const cache = new LRUCacheStore()
+   * const cachedDirectory = await Directory.fromVCI({ cache, cacheTtl: 3600 })
+   *
+   * // Give up after 5 seconds, using a custom fetch implementation
+   * const proxiedDirectory = await Directory.fromVCI({ fetch: proxiedFetch, fetchTimeout: 5000 })
    */
-  static async fromVCI(): Promise<Directory> {
-    const vciSnapshotResponse = await fetch(
-      'https://raw.githubusercontent.com/the-commons-project/vci-directory/main/logs/vci_snapshot.json'
+  static async fromVCI(options: CacheOptions & FetchOptions = {}): Promise<Directory> {
+    const vciSnapshot = await fetchJSON(
+      'https://raw.githubusercontent.com/the-commons-project/vci-directory/main/logs/vci_snapshot.json',
+      options
     )
-    if (!vciSnapshotResponse.ok) {
-      throw new Error(
-        `Failed to fetch VCI Directory snapshot with status ${vciSnapshotResponse.status}`
-      )
+    if (!vciSnapshot.ok) {
+      throw new Error(`Failed to fetch VCI Directory snapshot with status ${vciSnapshot.status}`)
+    }
+    return Directory.fromJSON(vciSnapshot.body as DirectoryJSON)
+  }
+
+  private static buildIssuerMetadata(
+    issuer: IssuerJSON['issuer']
+  ): Omit<IssuerJSON['issuer'], 'iss'> {
+    // Only keep the display metadata fields holding non-empty strings
+    const metadata: Omit<IssuerJSON['issuer'], 'iss'> = {}
+    for (const field of ['name', 'website', 'canonical_iss'] as const) {
+      const value = issuer[field]
+      if (typeof value === 'string' && value) {
+        metadata[field] = value
+      }
     }
-    const vciDirectoryJson = await vciSnapshotResponse.json()
-    return Directory.fromJSON(vciDirectoryJson)
+    return metadata
   }
 
   private static buildIssuerKeys(keys: IssuerKey[]): Map<string, IssuerKey> {
@@ -130,19 +346,23 @@ export class Directory {
   static fromJSON(directoryJson: DirectoryJSON): Directory {
     // Pre-process the directory in order to look for duplicate issuers
     // and combine their keys and crls
-    const mergedDirectory = new Map<string, IssuerJSON>()
+    const mergedDirectory = new Map<string, Required<IssuerJSON>>()
     directoryJson.issuerInfo.forEach(({ issuer, keys, crls }) => {
       const iss = typeof issuer?.iss === 'string' ? issuer.iss : undefined
       if (!iss) {
         console.warn('Skipping issuer with missing "iss" field')
         return
       }
-      if (mergedDirectory.has(iss)) {
-        mergedDirectory.get(iss)!.keys.push(...(keys || []))
-        mergedDirectory.get(iss)!.crls!.push(...(crls || []))
+      const metadata = Directory.buildIssuerMetadata(issuer)
+      const existing = mergedDirectory.get(iss)
+      if (existing) {
+        // Keep the display metadata of the first entry, completing it with later ones
+        existing.issuer = { ...metadata, ...existing.issuer }
+        existing.keys.push(...(keys || []))
+        existing.crls.push(...(crls || []))
       } else {
         mergedDirectory.set(iss, {
-          issuer: { iss },
+          issuer: { ...metadata, iss },
           keys: keys || [],
           crls: crls || [],
         })
@@ -150,11 +370,12 @@ export class Directory {
     })
 
     const issuersMap = new Map<string, Issuer>()
-    Array.from(mergedDirectory.entries()).forEach(([iss, { keys, crls }]) => {
+    Array.from(mergedDirectory.entries()).forEach(([iss, { issuer, keys, crls }]) => {
       issuersMap.set(iss, {
+        ...issuer,
         iss,
         keys: Directory.buildIssuerKeys(keys),
-        crls: Directory.buildIssuerCrls(crls!),
+        crls: Directory.buildIssuerCrls(crls),
       })
     })
     return new Directory(issuersMap)
@@ -164,64 +385,155 @@ export class Directory {
    * Create a Directory by fetching issuer metadata (JWKS) and CRLs from the
    * provided issuer base URLs.
    *
-   * For each issuer URL the method attempts to fetch `/.well-known/jwks.json`
-   * and will then attempt to fetch CRLs for each key at
-   * `/.well-known/crl/{kid}.json`. Failures to fetch a JWKS will skip that
-   * issuer; failures to fetch a CRL for an individual key will skip that key's
-   * CRL but keep the key. Errors are logged via `console.debug` and
-   * unexpected exceptions are caught and logged with `console.error`.
+   * Equivalent to {@link fromURLsWithReport}, logging failures instead of reporting them:
+   * HTTP errors are logged via `console.debug` and unexpected exceptions (including timeouts)
+   * via `console.error`.
    *
    * @param issUrls - Array of issuer base URLs to fetch (e.g. `https://example.com/issuer`)
+   * @param options - Optional caching options for the JWKS and CRL responses (see {@link CacheOptions}),
+   *  network options (see {@link FetchOptions}) and the maximum number of concurrent requests
    * @returns A {@link Directory} containing any successfully fetched issuer info
+   * @throws {@link SHCReaderConfigError} When `options.concurrency` is not a positive integer, or no
+   *  fetch implementation is available
+   * @throws The abort reason when `options.signal` is aborted
    * @example
    * const directory = await Directory.fromURLs(['https://example.com/issuer'])
    */
-  static async fromURLs(issUrls: string[]): Promise<Directory> {
-    const directoryJson: DirectoryJSON = {
-      issuerInfo: [],
-    }
-
-    // Ensure we only ignore duplicate issuer URLs
-    const uniqueIssUrls = new Set(issUrls)
-
-    try {
-      for (const issUrl of uniqueIssUrls) {
-        const issuerInfo: IssuerJSON = {
-          issuer: {
-            iss: issUrl,
-          },
-          keys: [] as IssuerKey[],
-          crls: [] as IssuerCrlJSON[],
+  static async fromURLs(
+    issUrls: string[],
+    options: DirectoryFetchOptions = {}
+  ): Promise<Directory> {
+    const { directory, report } = await Directory.fromURLsWithReport(issUrls, options)
+    for (const { jwks, crls } of report) {
+      const outcomes = [
+        { outcome: jwks, skipped: 'issuer' },
+        ...crls.map(outcome => ({ outcome, skipped: 'key' })),
+      ]
+      for (const { outcome, skipped } of outcomes) {
+        if (outcome.ok) continue
+        if (outcome.httpStatus !== undefined) {
+          console.debug(`${outcome.error}, skipping ${skipped}.`)
+        } else {
+          console.error('Error creating Directory:', outcome.error)
         }
+      }
+    }
+    return directory
+  }
 
-        const jwksUrl = `${issUrl}/.well-known/jwks.json`
-        const jwksResponse = await fetch(jwksUrl)
-        if (!jwksResponse.ok) {
-          const errorMessage = `Failed to fetch jwks at ${jwksUrl} with status ${jwksResponse.status}, skipping issuer.`
-          console.debug(errorMessage)
-          continue
-        }
+  /**
+   * Create a Directory by fetching issuer metadata (JWKS) and CRLs from the
+   * provided issuer base URLs, reporting what was loaded and what failed.
+   *
+   * For each issuer URL the method fetches `/.well-known/jwks.json`, then the CRL
+   * of each key at `/.well-known/crl/{kid}.json`. Issuers and CRLs are fetched
+   * concurrently, with at most `options.concurrency` requests in flight. Failures are
+   * isolated: an issuer whose JWKS cannot be fetched is left out of the directory, and a key
+   * whose CRL cannot be fetched is kept without a CRL. Issuers without revocation support
+   * usually answer 404 for CRLs.
+   *
+   * @param issUrls - Array of issuer base URLs to fetch (e.g. `https://example.com/issuer`)
+   * @param options - Optional caching options for the JWKS and CRL responses (see {@link CacheOptions}),
+   *  network options (see {@link FetchOptions}, e.g. `fetchTimeout` for per-request timeouts) and
+   *  the maximum number of concurrent requests
+   * @returns The {@link Directory} and a report per issuer, in the order of `issUrls`
+   * @throws {@link SHCReaderConfigError} When `options.concurrency` is not a positive integer, or no
+   *  fetch implementation is available
+   * @throws The abort reason when `options.signal` is aborted
+   * @example
+   * const { directory, report } = await Directory.fromURLsWithReport(partnerIssuerUrls, {
+   *   concurrency: 16,
+   *   fetchTimeout: 5000,
+   * })
+   * for (const { iss, jwks } of report) {
+   *   if (!jwks.ok) console.warn(`${iss} is missing: ${jwks.error}`)
+   * }
+   */
+  static async fromURLsWithReport(
+    issUrls: string[],
+    options: DirectoryFetchOptions = {}
+  ): Promise<DirectoryLoadResult> {
+    const concurrency = options.concurrency ?? DEFAULT_DIRECTORY_CONCURRENCY
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new SHCReaderConfigError(
+        'Directory configuration error: concurrency must be a positive integer'
+      )
+    }
+    const limit = createLimiter(concurrency)
+    const validators = new Map<string, HTTPValidators>()
 
-        const { keys: issKeys } = await jwksResponse.json()
-        for (const key of issKeys) {
-          issuerInfo.keys.push(key)
-          const crlUrl = `${issUrl}/.well-known/crl/${key.kid}.json`
-          const crlResponse = await fetch(crlUrl)
-          if (!crlResponse.ok) {
-            const errorMessage = `Failed to fetch crl at ${crlUrl} with status ${crlResponse.status}, skipping key.`
-            console.debug(errorMessage)
-            continue
+    const fetchDocument = (url: string, kind: 'jwks' | 'crl') =>
+      limit(async (): Promise<{ outcome: DirectoryFetchOutcome; body?: unknown }> => {
+        try {
+          const response = await fetchJSON(url, options)
+          if (!response.ok) {
+            return {
+              outcome: {
+                url,
+                ok: false,
+                httpStatus: response.status,
+                error: `Failed to fetch ${kind} at ${url} with status ${response.status}`,
+              },
+            }
+          }
+          validators.set(url, response.validators)
+          return { outcome: { url, ok: true }, body: response.body }
+        } catch (error) {
+          if (options.signal?.aborted || error instanceof SHCReaderConfigError) {
+            throw error
           }
-          const crl = await crlResponse.json()
-          if (crl) issuerInfo.crls!.push(crl)
+          const errorMessage = error instanceof Error ? error.message : String(error)
+          return { outcome: { url, ok: false, error: errorMessage } }
         }
+      })
+
+    const loadIssuer = async (
+      iss: string
+    ): Promise<{ report: DirectoryIssuerReport; issuerInfo: IssuerJSON | null }> => {
+      const jwksUrl = `${iss}/.well-known/jwks.json`
+      const jwks = await fetchDocument(jwksUrl, 'jwks')
+      const keys = (jwks.body as { keys?: IssuerKey[] } | undefined)?.keys
+      if (jwks.outcome.ok && !Array.isArray(keys)) {
+        jwks.outcome = { url: jwksUrl, ok: false, error: 'Invalid JWKS: missing keys array' }
+      }
+      if (!jwks.outcome.ok || !Array.isArray(keys)) {
+        return { report: { iss, jwks: jwks.outcome, crls: [] }, issuerInfo: null }
+      }
 
-        directoryJson.issuerInfo.push(issuerInfo)
+      const crls = await Promise.all(
+        keys.map(async key => ({
+          kid: key.kid,
+          ...(await fetchDocument(`${iss}/.well-known/crl/${key.kid}.json`, 'crl')),
+        }))
+      )
+      return {
+        report: {
+          iss,
+          jwks: jwks.outcome,
+          crls: crls.map(({ kid, outcome }) => ({ kid, ...outcome })),
+        },
+        issuerInfo: {
+          issuer: { iss },
+          keys,
+          crls: crls.flatMap(({ body }) => (body ? [body as IssuerCrlJSON] : [])),
+        },
       }
-    } catch (error) {
-      console.error('Error creating Directory:', error)
     }
 
-    return Directory.fromJSON(directoryJson)
+    // Ensure we only ignore duplicate issuer URLs
+    const results = await Promise.all(Array.from(new Set(issUrls)).map(loadIssuer))
+
+    const directory = Directory.fromJSON({
+      issuerInfo: results.flatMap(({ issuerInfo }) => (issuerInfo ? [issuerInfo] : [])),
+    })
+    for (const [url, urlValidators] of validators) {
+      if (urlValidators.etag || urlValidators.lastModified) {
+        directory.validators.set(url, urlValidators)
+      }
+    }
+    return { directory, report: results.map(({ report }) => report) }
   }
 }
+
+/** Default maximum number of concurrent requests of {@link Directory.fromURLsWithReport} */
+const DEFAULT_DIRECTORY_CONCURRENCY = 8
@@ -1,5 +1,7 @@
 // Error Classes for SMART Health Cards
 
+import type { ProfileViolation } from './types.js'
+
 /**
  * Base error class for SMART Health Card operations.
  *
@@ -116,6 +118,21 @@ export class ExpirationError extends SHCError {
   }
 }
 
+/**
+ * Error thrown when a SMART Health Card is not valid yet (its `nbf` is in the future),
+ * when the reader is configured to reject such cards.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class NotYetValidError extends SHCError {
+  constructor(message: string) {
+    super(message, 'NOT_YET_VALID')
+    this.name = 'NotYetValidError'
+  }
+}
+
 /**
  * Error thrown when JWT payload validation fails due to missing or invalid fields.
  *
@@ -144,6 +161,24 @@ export class BundleValidationError extends SHCError {
   }
 }
 
+/**
+ * Error thrown when a FHIR Bundle does not conform to a SMART Health Cards IG profile.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class ProfileValidationError extends SHCError {
+  constructor(
+    message: string,
+    /** Every profile violation found in the bundle. */
+    public readonly violations: ProfileViolation[]
+  ) {
+    super(message, 'PROFILE_VALIDATION_ERROR')
+    this.name = 'ProfileValidationError'
+  }
+}
+
 /**
  * Error thrown when Verifiable Credential validation fails due to missing or invalid fields.
  *
@@ -158,6 +193,54 @@ export class CredentialValidationError extends SHCError {
   }
 }
 
+/**
+ * Error thrown when SHCIssuer configuration is invalid.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class SHCIssuerConfigError extends SHCError {
+  constructor(message: string) {
+    super(message, 'INVALID_CONFIGURATION')
+    this.name = 'SHCIssuerConfigError'
+  }
+}
+
+/**
+ * Error thrown when an issuer keyring operation is invalid.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class IssuerKeyringError extends SHCError {
+  constructor(message: string) {
+    super(message, 'KEYRING_ERROR')
+    this.name = 'IssuerKeyringError'
+  }
+}
+
+/**
+ * Error thrown when a freshly issued SMART Health Card fails the self-verification enabled by
+ * `verifyAfterIssue`: it cannot be read back from its numeric QR form with the issuer's own public
+ * key, or the bundle read back differs from the bundle that was signed.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class SelfVerificationError extends SHCError {
+  constructor(
+    message: string,
+    /** Error raised while reading the card back, when it could not be read. */
+    public readonly readError?: SHCError
+  ) {
+    super(message, 'SELF_VERIFICATION_FAILED')
+    this.name = 'SelfVerificationError'
+  }
+}
+
 /**
  * Error thrown when SHCReader configuration is invalid.
  *
@@ -185,3 +268,31 @@ export class SHCRevokedError extends SHCError {
     this.name = 'SHCRevokedError'
   }
 }
+
+/**
+ * Error thrown when a SMART Health Card was issued by an issuer that the reader's trust policy does not accept.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class UntrustedIssuerError extends SHCError {
+  constructor(message: string) {
+    super(message, 'UNTRUSTED_ISSUER')
+    this.name = 'UntrustedIssuerError'
+  }
+}
+
+/**
+ * Error thrown when a revocation list operation is invalid.
+ *
+ * @public
+ * @group SHC
+ * @category Errors
+ */
+export class RevocationListError extends SHCError {
+  constructor(message: string) {
+    super(message, 'REVOCATION_LIST_ERROR')
+    this.name = 'RevocationListError'
+  }
+}
@@ -1,7 +1,13 @@
 // FHIR Bundle processing for SMART Health Cards
 
 import { BundleValidationError, InvalidBundleReferenceError } from '../errors.js'
-import type { FHIRBundle } from '../types.js'
+import type {
+  FHIRBundle,
+  QRMinificationContext,
+  QRMinificationPreset,
+  QRMinificationRule,
+} from '../types.js'
+import { getQRMinificationRules } from './minification-rules.js'
 
 /**
  * Processes and validates FHIR R4 Bundles according to SMART Health Cards specification.
@@ -42,24 +48,40 @@ export class FHIRBundleProcessor {
    * @param config.strictReferences - When `strictReferences` is true,
    *  missing `Reference.reference` targets throw `InvalidBundleReferenceError`;
    *  when false, original references are preserved when no target resource is found in bundle.
+   * @param config.minification - Preset or list of rules removing unnecessary fields,
+   *  applied in order to every property of the bundle resources (see {@link getQRMinificationRules}).
+   *  Defaults to `'reference-implementation'`.
    * @returns Processed FHIR Bundle optimized for QR codes
    * @throws {@link InvalidBundleReferenceError} When `strictReferences` is true and a reference cannot be resolved
    */
-  processForQR(bundle: FHIRBundle, config: { strictReferences?: boolean } = {}): FHIRBundle {
+  processForQR(
+    bundle: FHIRBundle,
+    config: {
+      strictReferences?: boolean
+      minification?: QRMinificationPreset | QRMinificationRule[]
+    } = {}
+  ): FHIRBundle {
     // Start with standard processing
     const processedBundle = this.process(bundle)
 
     // Apply QR optimizations
-    return this.optimizeForQR(processedBundle, config.strictReferences ?? true)
+    return this.optimizeForQR(
+      processedBundle,
+      config.strictReferences ?? true,
+      getQRMinificationRules(config.minification)
+    )
   }
 
   /**
    * Optimizes a FHIR Bundle for QR code generation
    * - Uses short resource-scheme URIs (resource:0, resource:1, etc.)
-   * - Removes unnecessary .id and .display fields
-   * - Removes empty arrays and null values
+   * - Removes unnecessary fields with the minification rules
    */
-  private optimizeForQR(bundle: FHIRBundle, strict: boolean): FHIRBundle {
+  private optimizeForQR(
+    bundle: FHIRBundle,
+    strict: boolean,
+    rules: QRMinificationRule[]
+  ): FHIRBundle {
     const optimizedBundle: FHIRBundle = JSON.parse(JSON.stringify(bundle))
 
     // Drop Bundle.id
@@ -80,12 +102,14 @@ export class FHIRBundleProcessor {
       // Second pass: optimize resources and update references
       optimizedBundle.entry.forEach(entry => {
         if (entry.resource) {
+          const { resourceType } = entry.resource
           // Recursively optimize the resource
-          entry.resource = this.optimizeResource(
-            entry.resource,
+          entry.resource = this.optimizeResource(entry.resource, resourceType, {
+            resourceType,
             resourceMap,
-            strict
-          ) as typeof entry.resource
+            strict,
+            rules,
+          }) as typeof entry.resource
         }
       })
     }
@@ -98,8 +122,13 @@ export class FHIRBundleProcessor {
    */
   private optimizeResource(
     resource: unknown,
-    resourceMap: Map<string, string>,
-    strict: boolean
+    path: string,
+    options: {
+      resourceType: string
+      resourceMap: Map<string, string>
+      strict: boolean
+      rules: QRMinificationRule[]
+    }
   ): unknown {
     if (!resource || typeof resource !== 'object') {
       return resource
@@ -107,56 +136,42 @@ export class FHIRBundleProcessor {
 
     if (Array.isArray(resource)) {
       return resource
-        .map(item => this.optimizeResource(item, resourceMap, strict))
+        .map(item => this.optimizeResource(item, path, options))
         .filter(item => item !== null && item !== undefined)
     }
 
+    const parent = resource as Record<string, unknown>
     const optimized: Record<string, unknown> = {}
 
-    for (const [key, value] of Object.entries(resource as Record<string, unknown>)) {
-      // Skip null, undefined, and empty arrays
-      if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) {
-        continue
+    for (const [key, originalValue] of Object.entries(parent)) {
+      const context: QRMinificationContext = {
+        key,
+        path: `${path}.${key}`,
+        resourceType: options.resourceType,
+        parent,
       }
 
-      // Remove Resource.id for all resources
-      if (key === 'id') {
-        continue
-      }
-
-      // Handle Resource.meta - only keep meta.security if present
-      if (key === 'meta') {
-        if (typeof value === 'object' && value !== null) {
-          const metaObj = value as Record<string, unknown>
-          if (metaObj.security && Array.isArray(metaObj.security)) {
-            optimized[key] = { security: metaObj.security }
-          }
+      // Run the minification rules, in order, until one drops the property
+      let value: unknown = originalValue
+      for (const rule of options.rules) {
+        value = rule.apply(value, context)
+        if (value === undefined) {
+          break
         }
-        continue
       }
-
-      // Remove text from DomainResource and CodeableConcept
-      if (
-        (key === 'text' && this.isCodeableConcept(resource)) ||
-        (key === 'text' && this.isDomainResource(resource))
-      ) {
-        continue
-      }
-
-      // Remove .display fields from CodeableConcept.coding, but not from other contexts
-      if (key === 'display' && typeof value === 'string' && this.isWithinCoding(resource)) {
+      if (value === undefined) {
         continue
       }
 
       // Update references to use short resource-scheme URIs
       if (key === 'reference' && typeof value === 'string') {
-        const shortRef = resourceMap.get(value)
+        const shortRef = options.resourceMap.get(value)
         if (shortRef) {
           // Found reference in resourceMap
           optimized[key] = shortRef
         } else {
           // Reference not found in resourceMap
-          if (strict) {
+          if (options.strict) {
             // Strict mode: raise exception for missing references
             throw new InvalidBundleReferenceError(
               `Reference "${value}" not found in bundle resources`
@@ -170,54 +185,12 @@ export class FHIRBundleProcessor {
       }
 
       // Recursively process nested objects and arrays
-      optimized[key] = this.optimizeResource(value, resourceMap, strict)
+      optimized[key] = this.optimizeResource(value, context.path, options)
     }
 
     return optimized
   }
 
-  /**
-   * Checks if a resource is a DomainResource
-   */
-  private isDomainResource(resource: unknown): boolean {
-    return (
-      resource != null &&
-      // @ts-expect-error - ignore type error
-      resource.text != null &&
-      // @ts-expect-error - ignore type error
-      typeof resource.text === 'object' &&
-      // @ts-expect-error - ignore type error
-      'div' in resource.text
-    )
-  }
-
-  /**
-   * Checks if a resource is a CodeableConcept
-   */
-  private isCodeableConcept(resource: unknown): boolean {
-    return (
-      resource != null &&
-      typeof resource === 'object' &&
-      'coding' in resource &&
-      Array.isArray((resource as Record<string, unknown>).coding)
-    )
-  }
-
-  /**
-   * Checks if a resource is within a coding array context
-   * Display fields should only be removed from coding arrays, not other contexts
-   */
-  private isWithinCoding(resource: unknown): boolean {
-    return (
-      resource !== null &&
-      typeof resource === 'object' &&
-      'system' in resource &&
-      'code' in resource &&
-      typeof (resource as Record<string, unknown>).system === 'string' &&
-      typeof (resource as Record<string, unknown>).code === 'string'
-    )
-  }
-
   /**
    * Validates a FHIR Bundle for basic compliance.
    *
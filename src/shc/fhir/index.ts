@@ -1,2 +1,5 @@
 // FHIR module barrel export
 export { FHIRBundleProcessor } from './bundle-processor.js'
+export { getQRMinificationRules, qrMinificationRules } from './minification-rules.js'
+export { FHIRProfileValidator } from './profile-validator.js'
+export { FHIRSummaryExtractor } from './summary-extractor.js'
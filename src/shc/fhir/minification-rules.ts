@@ -0,0 +1,175 @@
+// QR minification rules for FHIR Bundles
+
+import { SHCError } from '../errors.js'
+import type { QRMinificationPreset, QRMinificationRule } from '../types.js'
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * Checks if an object is a Coding (has string `system` and `code`)
+ */
+const isCoding = (value: Record<string, unknown>): boolean =>
+  typeof value.system === 'string' && typeof value.code === 'string'
+
+/**
+ * Built-in rules of the QR minification pipeline, as factories returning a {@link QRMinificationRule}.
+ * Each rule is named after its factory.
+ *
+ * @example
+ * ```typescript
+ * // Keep Coding.display, drop extensions other than the allowed ones and Immunization.performer
+ * const rules = [
+ *   ...getQRMinificationRules('reference-implementation').filter(r => r.name !== 'removeCodingDisplay'),
+ *   qrMinificationRules.removeExtensions({ allow: ['https://example.com/allowed-extension'] }),
+ *   qrMinificationRules.removeElements(['Immunization.performer']),
+ * ];
+ * const bundle = new FHIRBundleProcessor().processForQR(fhirBundle, { minification: rules });
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export const qrMinificationRules = {
+  /** Drops `null` values and empty arrays. */
+  removeEmptyValues: (): QRMinificationRule => ({
+    name: 'removeEmptyValues',
+    apply: value =>
+      value === null || (Array.isArray(value) && value.length === 0) ? undefined : value,
+  }),
+
+  /** Drops `id` elements, of resources and of nested elements. */
+  removeIds: (): QRMinificationRule => ({
+    name: 'removeIds',
+    apply: (value, { key }) => (key === 'id' ? undefined : value),
+  }),
+
+  /** Drops `Resource.meta`, keeping only `meta.security` when present. */
+  keepOnlyMetaSecurity: (): QRMinificationRule => ({
+    name: 'keepOnlyMetaSecurity',
+    apply: (value, { key }) => {
+      if (key !== 'meta') {
+        return value
+      }
+      return isRecord(value) && Array.isArray(value.security)
+        ? { security: value.security }
+        : undefined
+    },
+  }),
+
+  /**
+   * Drops the narrative (`DomainResource.text`) of resources.
+   *
+   * @param options.keepFor - Entry resource types whose narratives are kept
+   */
+  removeNarratives: (options: { keepFor?: string[] } = {}): QRMinificationRule => ({
+    name: 'removeNarratives',
+    apply: (value, { key, resourceType }) =>
+      key === 'text' &&
+      isRecord(value) &&
+      'div' in value &&
+      !options.keepFor?.includes(resourceType)
+        ? undefined
+        : value,
+  }),
+
+  /** Drops `CodeableConcept.text`. */
+  removeCodeableConceptText: (): QRMinificationRule => ({
+    name: 'removeCodeableConceptText',
+    apply: (value, { key, parent }) =>
+      key === 'text' && Array.isArray(parent.coding) ? undefined : value,
+  }),
+
+  /** Drops `Coding.display`, leaving `display` of other elements (e.g. `Reference.display`). */
+  removeCodingDisplay: (): QRMinificationRule => ({
+    name: 'removeCodingDisplay',
+    apply: (value, { key, parent }) =>
+      key === 'display' && typeof value === 'string' && isCoding(parent) ? undefined : value,
+  }),
+
+  /** Drops `Coding.version`. */
+  removeCodingVersion: (): QRMinificationRule => ({
+    name: 'removeCodingVersion',
+    apply: (value, { key, parent }) => (key === 'version' && isCoding(parent) ? undefined : value),
+  }),
+
+  /** Drops `Coding.userSelected`. */
+  removeCodingUserSelected: (): QRMinificationRule => ({
+    name: 'removeCodingUserSelected',
+    apply: (value, { key, parent }) =>
+      key === 'userSelected' && isCoding(parent) ? undefined : value,
+  }),
+
+  /**
+   * Drops extensions (`extension` elements) whose URL is not allowed.
+   * Modifier extensions are kept, as dropping them would change the meaning of the data.
+   *
+   * @param options.allow - URLs of the extensions to keep
+   */
+  removeExtensions: (options: { allow?: string[] } = {}): QRMinificationRule => ({
+    name: 'removeExtensions',
+    apply: (value, { key }) => {
+      if (key !== 'extension' || !Array.isArray(value)) {
+        return value
+      }
+      const kept = value.filter(
+        extension => isRecord(extension) && options.allow?.includes(String(extension.url))
+      )
+      return kept.length > 0 ? kept : undefined
+    },
+  }),
+
+  /**
+   * Drops elements by path.
+   *
+   * @param paths - Element paths from the entry resource, without array indices
+   *  (e.g. `Immunization.performer`, see {@link QRMinificationContext.path})
+   */
+  removeElements: (paths: string[]): QRMinificationRule => ({
+    name: 'removeElements',
+    apply: (value, { path }) => (paths.includes(path) ? undefined : value),
+  }),
+}
+
+/**
+ * Returns the rules of a QR minification preset, or a rule list unchanged.
+ *
+ * @param minification - Preset name or rule list
+ * @returns A new list of the rules, in pipeline order
+ * @throws {@link SHCError} With code `INVALID_CONFIGURATION` when the preset is unknown
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export function getQRMinificationRules(
+  minification: QRMinificationPreset | QRMinificationRule[] = 'reference-implementation'
+): QRMinificationRule[] {
+  if (Array.isArray(minification)) {
+    return [...minification]
+  }
+  const rules = qrMinificationRules
+  switch (minification) {
+    case 'spec-minimum':
+      return [rules.removeEmptyValues()]
+    case 'reference-implementation':
+      return [
+        rules.removeEmptyValues(),
+        rules.removeIds(),
+        rules.keepOnlyMetaSecurity(),
+        rules.removeNarratives(),
+        rules.removeCodeableConceptText(),
+        rules.removeCodingDisplay(),
+      ]
+    case 'aggressive':
+      return [
+        ...getQRMinificationRules('reference-implementation'),
+        rules.removeCodingVersion(),
+        rules.removeCodingUserSelected(),
+        rules.removeExtensions(),
+      ]
+    default:
+      throw new SHCError(`Unknown QR minification preset: ${minification}`, 'INVALID_CONFIGURATION')
+  }
+}
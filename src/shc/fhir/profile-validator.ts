@@ -0,0 +1,305 @@
+// SMART Health Cards IG profile validation
+
+import type { Immunization, Observation, Patient, Resource } from '@medplum/fhirtypes'
+import { ProfileValidationError } from '../errors.js'
+import type {
+  FHIRBundle,
+  ProfileViolation,
+  ProfileViolationCode,
+  SHCProfile,
+  SHCProfileSelection,
+} from '../types.js'
+
+const CVX_SYSTEM = 'http://hl7.org/fhir/sid/cvx'
+const SNOMED_SYSTEM = 'http://snomed.info/sct'
+const ICD11_SYSTEM = 'http://id.who.int/icd/release/11/mms'
+const LOINC_SYSTEM = 'http://loinc.org'
+
+/** Code systems allowed for `Immunization.vaccineCode` */
+const VACCINE_CODE_SYSTEMS = [CVX_SYSTEM, SNOMED_SYSTEM, ICD11_SYSTEM]
+
+/** Allowed `Observation.status` values of laboratory results */
+const LAB_RESULT_STATUSES = ['final', 'amended', 'corrected', 'entered-in-error']
+
+/** Resource types allowed in the bundle of each profile, besides the single Patient */
+const PROFILE_RESOURCE_TYPES: Record<SHCProfile, string> = {
+  vaccination: 'Immunization',
+  laboratory: 'Observation',
+}
+
+/** Records a violation at a path */
+type Report = (path: string, code: ProfileViolationCode, message: string) => void
+
+/**
+ * Validates FHIR Bundles against the data minimization ("dm") profiles of the
+ * [SMART Health Cards Vaccination and Testing IG](https://build.fhir.org/ig/HL7/fhir-shc-vaccination-ig/):
+ * the vaccination bundle (Patient and Immunization resources) and the laboratory bundle
+ * (Patient and Observation resources).
+ *
+ * Checks cover allowed resource types, required elements, the CVX/SNOMED/ICD-11 and LOINC/SNOMED
+ * code systems, and that every `Reference.reference` resolves to a `resource:N` entry, as in
+ * bundles optimized with {@link FHIRBundleProcessor.processForQR}.
+ *
+ * @example
+ * ```typescript
+ * const violations = new FHIRProfileValidator().validate(bundle, 'vaccination');
+ * for (const { path, message } of violations) {
+ *   console.warn(`${path}: ${message}`);
+ * }
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class FHIRProfileValidator {
+  /**
+   * Lists the profile violations of a FHIR Bundle.
+   *
+   * @param bundle - FHIR Bundle to validate, usually QR-optimized
+   * @param profile - Profile to validate against. With `'auto'`, bundles holding Observation
+   *  resources and no Immunization are validated as laboratory bundles, others as vaccination bundles.
+   * @returns The violations found, empty when the bundle conforms to the profile
+   */
+  validate(bundle: FHIRBundle, profile: SHCProfileSelection = 'auto'): ProfileViolation[] {
+    const resolvedProfile = profile === 'auto' ? this.detectProfile(bundle) : profile
+    const violations: ProfileViolation[] = []
+    const report: Report = (path, code, message) => {
+      violations.push({ profile: resolvedProfile, path, code, message })
+    }
+
+    if (bundle.type !== 'collection') {
+      report(
+        'Bundle.type',
+        'INVALID_VALUE',
+        `Bundle.type must be "collection", got "${bundle.type}"`
+      )
+    }
+
+    const entries = bundle.entry ?? []
+    const allowedType = PROFILE_RESOURCE_TYPES[resolvedProfile]
+    const patients = entries.filter(entry => entry.resource?.resourceType === 'Patient')
+    if (patients.length !== 1) {
+      report(
+        'Bundle.entry',
+        'INVALID_CARDINALITY',
+        `Bundle must contain exactly one Patient, found ${patients.length}`
+      )
+    }
+    if (!entries.some(entry => entry.resource?.resourceType === allowedType)) {
+      report(
+        'Bundle.entry',
+        'INVALID_CARDINALITY',
+        `Bundle must contain at least one ${allowedType}`
+      )
+    }
+
+    entries.forEach((entry, index) => {
+      const path = `Bundle.entry[${index}]`
+      if (entry.fullUrl !== `resource:${index}`) {
+        report(
+          `${path}.fullUrl`,
+          'INVALID_VALUE',
+          `Entry fullUrl must be "resource:${index}", got "${entry.fullUrl}"`
+        )
+      }
+      const resource = entry.resource
+      if (!resource) {
+        return
+      }
+      this.validateReferences(resource, `${path}.resource`, bundle, report)
+
+      if (resource.resourceType === 'Patient') {
+        this.validatePatient(resource, `${path}.resource`, report)
+      } else if (resource.resourceType !== allowedType) {
+        report(
+          `${path}.resource`,
+          'RESOURCE_TYPE_NOT_ALLOWED',
+          `${resource.resourceType} resources are not allowed in ${resolvedProfile} bundles`
+        )
+      } else if (resource.resourceType === 'Immunization') {
+        this.validateImmunization(resource, `${path}.resource`, bundle, report)
+      } else if (resource.resourceType === 'Observation') {
+        this.validateLabResult(resource, `${path}.resource`, bundle, report)
+      }
+    })
+
+    return violations
+  }
+
+  /**
+   * Validates a FHIR Bundle against a profile, throwing on violations.
+   *
+   * @param bundle - FHIR Bundle to validate
+   * @param profile - Profile to validate against. See {@link validate}.
+   * @throws {@link ProfileValidationError} When the bundle does not conform to the profile
+   */
+  assertValid(bundle: FHIRBundle, profile: SHCProfileSelection = 'auto'): void {
+    const violations = this.validate(bundle, profile)
+    const [first] = violations
+    if (first) {
+      const more = violations.length > 1 ? ` (and ${violations.length - 1} more)` : ''
+      throw new ProfileValidationError(
+        `Bundle does not conform to the SMART Health Cards ${first.profile} profile: ${first.path}: ${first.message}${more}`,
+        violations
+      )
+    }
+  }
+
+  private detectProfile(bundle: FHIRBundle): SHCProfile {
+    const types = new Set(bundle.entry?.map(entry => entry.resource?.resourceType))
+    return types.has('Observation') && !types.has('Immunization') ? 'laboratory' : 'vaccination'
+  }
+
+  private validatePatient(patient: Patient, path: string, report: Report): void {
+    if (!patient.name?.some(name => name.family || name.given?.length || name.text)) {
+      report(`${path}.name`, 'MISSING_ELEMENT', 'Patient.name is required')
+    }
+    if (!patient.birthDate) {
+      report(`${path}.birthDate`, 'MISSING_ELEMENT', 'Patient.birthDate is required')
+    }
+  }
+
+  private validateImmunization(
+    immunization: Immunization,
+    path: string,
+    bundle: FHIRBundle,
+    report: Report
+  ): void {
+    if (!immunization.status) {
+      report(`${path}.status`, 'MISSING_ELEMENT', 'Immunization.status is required')
+    } else if (immunization.status !== 'completed') {
+      report(
+        `${path}.status`,
+        'INVALID_VALUE',
+        `Immunization.status must be "completed", got "${immunization.status}"`
+      )
+    }
+    const codings = immunization.vaccineCode?.coding ?? []
+    if (codings.length === 0) {
+      report(`${path}.vaccineCode`, 'MISSING_ELEMENT', 'Immunization.vaccineCode is required')
+    } else if (!codings.some(coding => VACCINE_CODE_SYSTEMS.includes(coding.system ?? ''))) {
+      report(
+        `${path}.vaccineCode.coding`,
+        'INVALID_CODE_SYSTEM',
+        `Immunization.vaccineCode must have a coding from ${VACCINE_CODE_SYSTEMS.join(', ')}`
+      )
+    }
+    this.validatePatientReference(immunization.patient, `${path}.patient`, bundle, report)
+    if (!immunization.occurrenceDateTime) {
+      report(
+        `${path}.occurrenceDateTime`,
+        'MISSING_ELEMENT',
+        'Immunization.occurrenceDateTime is required'
+      )
+    }
+  }
+
+  private validateLabResult(
+    observation: Observation,
+    path: string,
+    bundle: FHIRBundle,
+    report: Report
+  ): void {
+    if (!observation.status) {
+      report(`${path}.status`, 'MISSING_ELEMENT', 'Observation.status is required')
+    } else if (!LAB_RESULT_STATUSES.includes(observation.status)) {
+      report(
+        `${path}.status`,
+        'INVALID_VALUE',
+        `Observation.status must be one of ${LAB_RESULT_STATUSES.join(', ')}, got "${observation.status}"`
+      )
+    }
+    const codings = observation.code?.coding ?? []
+    if (codings.length === 0) {
+      report(`${path}.code`, 'MISSING_ELEMENT', 'Observation.code is required')
+    } else if (!codings.some(coding => coding.system === LOINC_SYSTEM)) {
+      report(
+        `${path}.code.coding`,
+        'INVALID_CODE_SYSTEM',
+        `Observation.code must have a coding from ${LOINC_SYSTEM}`
+      )
+    }
+    this.validatePatientReference(observation.subject, `${path}.subject`, bundle, report)
+    if (!observation.effectiveDateTime && !observation.effectivePeriod) {
+      report(
+        `${path}.effective[x]`,
+        'MISSING_ELEMENT',
+        'Observation.effectiveDateTime or effectivePeriod is required'
+      )
+    }
+    const { valueCodeableConcept, valueQuantity, valueString } = observation
+    if (valueCodeableConcept) {
+      if (!valueCodeableConcept.coding?.some(coding => coding.system === SNOMED_SYSTEM)) {
+        report(
+          `${path}.valueCodeableConcept.coding`,
+          'INVALID_CODE_SYSTEM',
+          `Observation.valueCodeableConcept must have a coding from ${SNOMED_SYSTEM}`
+        )
+      }
+    } else if (!valueQuantity && valueString === undefined) {
+      report(`${path}.value[x]`, 'MISSING_ELEMENT', 'Observation.value[x] is required')
+    }
+  }
+
+  /**
+   * Checks that a required reference points at the bundle's Patient
+   */
+  private validatePatientReference(
+    reference: { reference?: string } | undefined,
+    path: string,
+    bundle: FHIRBundle,
+    report: Report
+  ): void {
+    if (!reference?.reference) {
+      report(path, 'MISSING_ELEMENT', 'A reference to the Patient is required')
+      return
+    }
+    const target = this.referencedResource(reference.reference, bundle)
+    if (target && target.resourceType !== 'Patient') {
+      report(
+        `${path}.reference`,
+        'INVALID_VALUE',
+        `Reference must point to a Patient, got ${target.resourceType}`
+      )
+    }
+  }
+
+  /**
+   * Checks that every `Reference.reference` in a resource resolves to a `resource:N` entry
+   */
+  private validateReferences(
+    value: unknown,
+    path: string,
+    bundle: FHIRBundle,
+    report: Report
+  ): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        this.validateReferences(item, `${path}[${index}]`, bundle, report)
+      })
+      return
+    }
+    if (!value || typeof value !== 'object') {
+      return
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'reference' && typeof child === 'string') {
+        if (!this.referencedResource(child, bundle)) {
+          report(
+            `${path}.reference`,
+            'UNRESOLVED_REFERENCE',
+            `Reference "${child}" does not resolve to a resource:N entry of the bundle`
+          )
+        }
+      } else {
+        this.validateReferences(child, `${path}.${key}`, bundle, report)
+      }
+    }
+  }
+
+  private referencedResource(reference: string, bundle: FHIRBundle): Resource | undefined {
+    const match = /^resource:(\d+)$/.exec(reference)
+    return match ? bundle.entry?.[Number(match[1])]?.resource : undefined
+  }
+}
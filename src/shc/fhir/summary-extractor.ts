@@ -0,0 +1,175 @@
+// Clinical summary extraction from FHIR Bundles
+
+import type {
+  BundleEntry,
+  CodeableConcept,
+  HumanName,
+  Observation,
+  Patient,
+  Reference,
+  Resource,
+} from '@medplum/fhirtypes'
+import type {
+  FHIRBundle,
+  HealthCardSummary,
+  ImmunizationSummary,
+  LabResultSummary,
+  PatientSummary,
+} from '../types.js'
+
+/**
+ * Extracts a typed clinical summary (patient, immunizations and lab results) from the
+ * FHIR Bundle of a SMART Health Card.
+ *
+ * References are resolved against the bundle entries, whether they use the original
+ * `fullUrl` values or the short `resource:N` URIs of QR-optimized bundles
+ * (see {@link FHIRBundleProcessor.processForQR}).
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class FHIRSummaryExtractor {
+  /**
+   * Extracts the clinical summary of a FHIR Bundle.
+   *
+   * @param bundle - FHIR Bundle to summarize
+   * @returns The patient, immunizations and lab results found in the bundle, in bundle order
+   */
+  extract(bundle: FHIRBundle): HealthCardSummary {
+    const entries = bundle.entry ?? []
+    const resolve = (reference: Reference | undefined) => this.resolve(entries, reference)
+
+    const patient = entries.find(entry => entry.resource?.resourceType === 'Patient')?.resource as
+      | Patient
+      | undefined
+
+    const immunizations: ImmunizationSummary[] = []
+    const labResults: LabResultSummary[] = []
+    for (const { resource } of entries) {
+      if (resource?.resourceType === 'Immunization') {
+        immunizations.push({
+          ...this.codeSummary(resource.vaccineCode),
+          date: resource.occurrenceDateTime ?? resource.occurrenceString ?? null,
+          lotNumber: resource.lotNumber ?? null,
+          performer: this.performerName(
+            resource.performer?.map(performer => performer.actor),
+            resolve
+          ),
+          status: resource.status ?? null,
+          resource,
+        })
+      } else if (resource?.resourceType === 'Observation' && this.isLabResult(resource)) {
+        labResults.push({
+          ...this.codeSummary(resource.code),
+          date:
+            resource.effectiveDateTime ??
+            resource.effectiveInstant ??
+            resource.effectivePeriod?.start ??
+            resource.issued ??
+            null,
+          value: this.observationValue(resource),
+          performer: this.performerName(resource.performer, resolve),
+          status: resource.status ?? null,
+          resource,
+        })
+      }
+    }
+
+    return {
+      patient: patient ? this.patientSummary(patient) : null,
+      immunizations,
+      labResults,
+    }
+  }
+
+  /**
+   * Finds the bundle resource a reference points to
+   */
+  private resolve(entries: BundleEntry[], reference: Reference | undefined): Resource | undefined {
+    const target = reference?.reference
+    if (!target) {
+      return undefined
+    }
+    const byFullUrl = entries.find(
+      entry =>
+        entry.fullUrl === target ||
+        // Relative references ("Patient/123") match the end of absolute fullUrls
+        entry.fullUrl?.split('/').slice(-2).join('/') === target
+    )
+    if (byFullUrl) {
+      return byFullUrl.resource
+    }
+    // Short resource-scheme URIs point at the entry index
+    const match = /^resource:(\d+)$/.exec(target)
+    return match ? entries[Number(match[1])]?.resource : undefined
+  }
+
+  private patientSummary(patient: Patient): PatientSummary {
+    const name = patient.name?.[0]
+    return {
+      name: name ? this.formatName(name) : null,
+      givenNames: name?.given ?? [],
+      familyName: name?.family ?? null,
+      birthDate: patient.birthDate ?? null,
+    }
+  }
+
+  private formatName(name: HumanName): string | null {
+    return name.text ?? ([...(name.given ?? []), name.family].filter(Boolean).join(' ') || null)
+  }
+
+  private codeSummary(concept: CodeableConcept | undefined) {
+    const coding = concept?.coding?.find(coding => coding.code) ?? concept?.coding?.[0]
+    return {
+      system: coding?.system ?? null,
+      code: coding?.code ?? null,
+      // QR-optimized bundles drop Coding.display and CodeableConcept.text
+      display: coding?.display ?? concept?.text ?? null,
+    }
+  }
+
+  /**
+   * Name of the first performer, from its display text or the resource it references
+   */
+  private performerName(
+    actors: Array<Reference | undefined> | undefined,
+    resolve: (reference: Reference | undefined) => Resource | undefined
+  ): string | null {
+    for (const actor of actors ?? []) {
+      if (actor?.display) {
+        return actor.display
+      }
+      const resource = resolve(actor)
+      if (resource?.resourceType === 'Organization' && resource.name) {
+        return resource.name
+      }
+      if (resource?.resourceType === 'Practitioner' && resource.name?.[0]) {
+        const name = this.formatName(resource.name[0])
+        if (name) return name
+      }
+    }
+    return null
+  }
+
+  /**
+   * Observations are lab results unless they are categorized otherwise
+   */
+  private isLabResult(observation: Observation): boolean {
+    const categories = observation.category?.flatMap(category => category.coding ?? []) ?? []
+    return categories.length === 0 || categories.some(coding => coding.code === 'laboratory')
+  }
+
+  private observationValue(observation: Observation): string | null {
+    const { valueCodeableConcept, valueQuantity, valueString } = observation
+    if (valueCodeableConcept) {
+      const { code, display } = this.codeSummary(valueCodeableConcept)
+      return display ?? code
+    }
+    if (valueQuantity?.value !== undefined) {
+      const unit = valueQuantity.unit ?? valueQuantity.code
+      return unit ? `${valueQuantity.value} ${unit}` : String(valueQuantity.value)
+    }
+    return valueString ?? null
+  }
+}
@@ -0,0 +1,192 @@
+// Internal HTTP helpers for fetching issuer metadata
+
+import { systemClock } from '../common/clock.js'
+import { SHCReaderConfigError } from './errors.js'
+import type { CacheOptions, FetchOptions } from './types.js'
+
+/** Default lifetime in seconds of cached responses without HTTP caching headers */
+export const DEFAULT_CACHE_TTL = 300
+
+/**
+ * Result of {@link fetchJSON}: the parsed body on success, or the HTTP status on failure
+ */
+export type FetchJSONResult =
+  | { ok: true; body: unknown; fromCache: boolean; validators: HTTPValidators }
+  | { ok: false; status: number; statusText: string }
+
+/**
+ * HTTP validators of a response, sent back in conditional requests
+ * (`If-None-Match` and `If-Modified-Since`) to only download changed documents
+ */
+export interface HTTPValidators {
+  etag?: string
+  lastModified?: string
+}
+
+/**
+ * Fetches a JSON document, serving it from the cache when a fresh entry exists.
+ * Only successful responses are cached.
+ *
+ * When `validators` are given, the request is conditional: an unchanged document
+ * results in `{ ok: false, status: 304 }`.
+ *
+ * @param url - URL to fetch
+ * @param options - Cache and network options, plus `forceRefresh` to bypass (and then update) the cache
+ *  and `validators` of a previous response
+ * @throws {@link SHCReaderConfigError} When no fetch implementation is available
+ */
+export async function fetchJSON(
+  url: string,
+  options: CacheOptions &
+    FetchOptions & { forceRefresh?: boolean; validators?: HTTPValidators } = {}
+): Promise<FetchJSONResult> {
+  const cache = options.cache ?? null
+  const clock = options.clock ?? systemClock
+  if (cache && !options.forceRefresh) {
+    const cached = await cache.get(url)
+    if (cached && cached.expiresAt > clock()) {
+      return { ok: true, body: cached.value, fromCache: true, validators: {} }
+    }
+  }
+
+  const headers: Record<string, string> = {}
+  if (options.validators?.etag) headers['If-None-Match'] = options.validators.etag
+  if (options.validators?.lastModified) {
+    headers['If-Modified-Since'] = options.validators.lastModified
+  }
+
+  const result = await timedFetch(url, headers, options, async response => {
+    if (!response.ok) {
+      return { ok: false as const, response }
+    }
+    return { ok: true as const, response, body: (await response.json()) as unknown }
+  })
+  const { response } = result
+  if (!result.ok) {
+    return { ok: false, status: response.status, statusText: response.statusText }
+  }
+  const { body } = result
+
+  if (cache) {
+    const now = clock()
+    const ttlSeconds = cacheLifetime(response, options.cacheTtl ?? DEFAULT_CACHE_TTL, now)
+    if (ttlSeconds > 0) {
+      await cache.set(url, { value: body, expiresAt: now + ttlSeconds * 1000 })
+    } else {
+      await cache.delete(url)
+    }
+  }
+  const etag = responseHeader(response, 'etag')
+  const lastModified = responseHeader(response, 'last-modified')
+  return {
+    ok: true,
+    body,
+    fromCache: false,
+    validators: { ...(etag && { etag }), ...(lastModified && { lastModified }) },
+  }
+}
+
+/**
+ * Performs a request and reads its response, enforcing `fetchTimeout` and `signal` on both.
+ * The timeout also applies to fetch implementations that ignore the abort signal.
+ */
+async function timedFetch<T>(
+  url: string,
+  headers: Record<string, string>,
+  options: FetchOptions,
+  read: (response: Response) => Promise<T>
+): Promise<T> {
+  const fetchImpl = resolveFetch(options.fetch)
+  const { fetchTimeout, signal } = options
+  const hasHeaders = Object.keys(headers).length > 0
+  if (!fetchTimeout && !signal) {
+    return await read(await (hasHeaders ? fetchImpl(url, { headers }) : fetchImpl(url)))
+  }
+
+  signal?.throwIfAborted()
+  const controller = new AbortController()
+  let cleanup: () => void = () => undefined
+  const interrupted = new Promise<never>((_, reject) => {
+    const onAbort = () => {
+      controller.abort(signal?.reason)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const timer = fetchTimeout
+      ? setTimeout(() => {
+          const error = new Error(`Request to ${url} timed out after ${fetchTimeout} ms`)
+          controller.abort(error)
+          reject(error)
+        }, fetchTimeout)
+      : undefined
+    cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+  })
+
+  try {
+    return await Promise.race([
+      (async () =>
+        await read(
+          await fetchImpl(url, { ...(hasHeaders && { headers }), signal: controller.signal })
+        ))(),
+      interrupted,
+    ])
+  } finally {
+    cleanup()
+  }
+}
+
+/**
+ * Returns the given fetch implementation, or the global fetch bound to the global object
+ * (resolved at call time, so that replacing the global fetch takes effect)
+ * @throws {@link SHCReaderConfigError} When no fetch implementation is given nor available globally
+ */
+function resolveFetch(
+  fetchImpl: FetchOptions['fetch']
+): (url: string, options?: RequestInit) => Promise<Response> {
+  if (fetchImpl) return fetchImpl
+  const globalFetch = (globalThis as unknown as { fetch?: typeof fetch }).fetch
+  if (typeof globalFetch !== 'function') {
+    throw new SHCReaderConfigError(
+      'SHCReader configuration error: fetch is not available in this environment; provide a fetch implementation'
+    )
+  }
+  // Bind fetch to the global object to avoid "Illegal invocation" when called as a bare function
+  return globalFetch.bind(globalThis)
+}
+
+/**
+ * Computes how long a response may be cached, in seconds, from its
+ * `Cache-Control`, `Age` and `Expires` headers, falling back to `defaultTtl`.
+ * `now` is the current time in milliseconds, which `Expires` is compared with.
+ */
+function cacheLifetime(response: Response, defaultTtl: number, now: number): number {
+  const header = (name: string) => responseHeader(response, name)
+
+  const cacheControl = header('cache-control')?.toLowerCase()
+  if (cacheControl) {
+    if (/(^|,)\s*(no-store|no-cache)\b/.test(cacheControl)) {
+      return 0
+    }
+    const maxAge = /(^|,)\s*max-age\s*=\s*"?(\d+)"?/.exec(cacheControl)
+    if (maxAge) {
+      const age = Number(header('age') ?? 0) || 0
+      return Math.max(0, Number(maxAge[2]) - age)
+    }
+  }
+
+  const expires = header('expires')
+  if (expires) {
+    const expiresAt = Date.parse(expires)
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, Math.floor((expiresAt - now) / 1000))
+  }
+
+  return defaultTtl
+}
+
+function responseHeader(response: Response, name: string): string | null {
+  // Test doubles and minimal fetch implementations may not provide headers
+  return response.headers?.get?.(name) ?? null
+}
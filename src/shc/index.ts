@@ -1,12 +1,17 @@
 // SMART Health Cards barrel export
 
+export * from './cache.js'
 export * from './directory.js'
 export * from './errors.js'
 export * from './fhir/index.js'
 export * from './issuer.js'
 export * from './jws/index.js'
+export * from './keyring.js'
 export * from './qr/index.js'
 export * from './reader.js'
+export * from './render/index.js'
+export * from './revocation.js'
+export * from './rid.js'
 export * from './shc.js'
 export * from './types.js'
 export * from './vc.js'
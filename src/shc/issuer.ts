@@ -1,13 +1,35 @@
 // SHCIssuer class
 
+import type { BundleEntry } from '@medplum/fhirtypes'
+import { nowInSeconds, systemClock } from '../common/clock.js'
+import { compressDeflateRaw } from '../common/compression.js'
+import { createLimiter } from '../common/concurrency.js'
+import {
+  CredentialValidationError,
+  JWSError,
+  QRCodeError,
+  SelfVerificationError,
+  SHCError,
+  SHCIssuerConfigError,
+} from './errors.js'
 import { FHIRBundleProcessor } from './fhir/bundle-processor.js'
+import { FHIRProfileValidator } from './fhir/profile-validator.js'
+import { deriveKidFromPublicKey } from './jws/helpers.js'
 import { JWSProcessor } from './jws/jws-processor.js'
+import { LocalSigner, type Signer } from './jws/signer.js'
+import { QRCodeGenerator, V22_MAX_JWS_BY_EC_LEVEL } from './qr/qr-code-generator.js'
+import { SHCReader } from './reader.js'
+import { deriveRid } from './rid.js'
 import { SHC } from './shc.js'
 import type {
+  BatchIssuanceParams,
+  BatchIssuanceResult,
   FHIRBundle,
+  IssuancePlan,
   SHCConfig,
   SHCConfigParams,
   SHCJWT,
+  SplitIssuanceParams,
   VerifiableCredentialParams,
 } from './types.js'
 import { VerifiableCredentialProcessor } from './vc.js'
@@ -47,14 +69,59 @@ export class SHCIssuer {
    *   privateKey: { kty: 'EC', crv: 'P-256', x: '...', y: '...', d: '...' },
    *   publicKey: { kty: 'EC', crv: 'P-256', x: '...', y: '...' },
    * });
+   *
+   * // Using a Signer (e.g. backed by a KMS or HSM)
+   * const issuerWithSigner = new SHCIssuer({
+   *   issuer: 'https://your-healthcare-org.com',
+   *   signer: myKmsSigner, // implements the Signer interface
+   * });
+   *
+   * // Using a keyring (supports key rotation and JWKS publishing)
+   * const issuerWithKeyring = new SHCIssuer({
+   *   issuer: 'https://your-healthcare-org.com',
+   *   keyring: myKeyring, // IssuerKeyring instance
+   * });
    * ```
+   *
+   * @throws {@link SHCIssuerConfigError} When no key source is provided, or more than one is,
+   *  when `ridSecret` is empty, or when `nbfSkew` is not a non-negative integer
    */
   constructor(config: SHCConfigParams) {
+    const hasKeyPair = Boolean(config.privateKey || config.publicKey)
+    const keySources = [hasKeyPair, Boolean(config.signer), Boolean(config.keyring)]
+    if (keySources.filter(Boolean).length > 1) {
+      throw new SHCIssuerConfigError(
+        'SHCIssuer configuration error: Only one of privateKey/publicKey, signer or keyring can be specified'
+      )
+    }
+    if (!config.signer && !config.keyring && (!config.privateKey || !config.publicKey)) {
+      throw new SHCIssuerConfigError(
+        'SHCIssuer configuration error: Either signer, keyring or both privateKey and publicKey are required'
+      )
+    }
+    if (config.ridSecret !== undefined && config.ridSecret.length === 0) {
+      throw new SHCIssuerConfigError('SHCIssuer configuration error: ridSecret must not be empty')
+    }
+    if (
+      config.nbfSkew !== undefined &&
+      (!Number.isSafeInteger(config.nbfSkew) || config.nbfSkew < 0)
+    ) {
+      throw new SHCIssuerConfigError(
+        'SHCIssuer configuration error: nbfSkew must be a non-negative integer number of seconds'
+      )
+    }
+
     this.config = {
       ...config,
       expirationTime: config.expirationTime ?? null,
       enableQROptimization: config.enableQROptimization ?? true,
       strictReferences: config.strictReferences ?? true,
+      minification: config.minification ?? 'reference-implementation',
+      clock: config.clock ?? systemClock,
+      nbfSkew: config.nbfSkew ?? 0,
+      profileValidation: config.profileValidation ?? null,
+      inferTypes: config.inferTypes ?? false,
+      verifyAfterIssue: config.verifyAfterIssue ?? false,
     }
 
     this.bundleProcessor = new FHIRBundleProcessor()
@@ -68,8 +135,15 @@ export class SHCIssuer {
    * @param fhirBundle - FHIR R4 Bundle containing medical data
    * @param config - Optional Verifiable Credential parameters. See {@link VerifiableCredentialParams}.
    * @returns Promise resolving to SHC object
-   * @throws {@link CredentialValidationError} When FHIR bundle is invalid
-   * @throws {@link JWSError} When signing fails
+   * @throws {@link CredentialValidationError} When FHIR bundle or `rid` is invalid,
+   *  or when both `rid` and `ridSubject` are provided
+   * @throws {@link ProfileValidationError} When `profileValidation` is configured and the bundle
+   *  does not conform to the profile
+   * @throws {@link SHCIssuerConfigError} When `ridSubject` is provided but no `ridSecret` is configured
+   * @throws {@link JWSError} When signing fails (including failures reported by a configured signer)
+   * @throws {@link IssuerKeyringError} When a configured keyring has no active signing key
+   * @throws {@link SelfVerificationError} When `verifyAfterIssue` is enabled and the issued card
+   *  cannot be read back, or the bundle read back differs from the signed bundle
    *
    * @example
    * ```typescript
@@ -77,6 +151,9 @@ export class SHCIssuer {
    * const healthCard = await issuer.issue(fhirBundle, {
    *   includeAdditionalTypes: ['https://smarthealth.cards#covid19']
    * });
+   *
+   * // Derive the revocation identifier from a patient identifier (requires `ridSecret`)
+   * const revocableCard = await issuer.issue(fhirBundle, { ridSubject: patient.id });
    * ```
    */
   async issue(fhirBundle: FHIRBundle, config: VerifiableCredentialParams = {}): Promise<SHC> {
@@ -84,30 +161,399 @@ export class SHCIssuer {
     return new SHC(jws, fhirBundle)
   }
 
+  /**
+   * Estimates the size of the health card {@link issue} would produce for a FHIR Bundle, and how
+   * many QR codes it needs, without signing it.
+   *
+   * The bundle goes through the same processing and validation as in {@link issue}, so the
+   * reported JWS length is the length of the JWS issued for the same bundle and parameters.
+   *
+   * @param fhirBundle - FHIR R4 Bundle containing medical data
+   * @param config - Optional Verifiable Credential parameters. See {@link VerifiableCredentialParams}.
+   * @returns The payload sizes, JWS length, QR fit per error correction level and the size of each
+   *  resource. See {@link IssuancePlan}.
+   * @throws The same errors as {@link issue}, except signing errors
+   *
+   * @example
+   * ```typescript
+   * const plan = await issuer.plan(fhirBundle);
+   * if (!plan.qr.find(fit => fit.errorCorrectionLevel === 'L')?.fitsSingleQR) {
+   *   const [largest] = plan.resources;
+   *   console.warn(`Card needs several QR codes; largest resource: ${largest?.resourceType}`);
+   * }
+   * ```
+   */
+  async plan(
+    fhirBundle: FHIRBundle,
+    config: VerifiableCredentialParams = {}
+  ): Promise<IssuancePlan> {
+    const { processedBundle, jwtPayload } = await this.createPayload(fhirBundle, config)
+
+    const { payloadBytes, compressedPayload, jwsLength } = await this.measureJWS(jwtPayload)
+
+    const byteLength = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length
+    const bundleBytes = byteLength(processedBundle)
+    const resources = (processedBundle.entry ?? [])
+      .map((entry, index) => {
+        const bytes = byteLength(entry)
+        return {
+          index,
+          resourceType: entry.resource?.resourceType ?? 'Unknown',
+          bytes,
+          share: bytes / bundleBytes,
+        }
+      })
+      .sort((a, b) => b.bytes - a.bytes)
+
+    return {
+      minifiedPayloadBytes: payloadBytes.length,
+      compressedPayloadBytes: compressedPayload.length,
+      jwsLength,
+      qr: (['L', 'M', 'Q', 'H'] as const).map(errorCorrectionLevel => {
+        const maxSingleQRSize = V22_MAX_JWS_BY_EC_LEVEL[errorCorrectionLevel]
+        return {
+          errorCorrectionLevel,
+          maxSingleQRSize,
+          fitsSingleQR: jwsLength <= maxSingleQRSize,
+          chunkCount: Math.ceil(jwsLength / maxSingleQRSize),
+        }
+      }),
+      resources,
+    }
+  }
+
+  /**
+   * Issues several health cards from a FHIR Bundle too large for a single QR code, each fitting a
+   * single version 22 QR code, instead of chunking one card over several QR codes (deprecated by
+   * the SMART Health Cards specification).
+   *
+   * Each card holds a self-contained bundle: the Patient entries are repeated in every card, and
+   * every other entry comes with the entries it references (e.g. an Immunization with the
+   * Organization of its performer). Entries keep their bundle order, and each partition is
+   * processed like in {@link issue}, so references are rewritten to the `resource:N` URIs of the
+   * card holding them. A bundle that fits a single QR code is issued as a single card.
+   *
+   * @param fhirBundle - FHIR R4 Bundle containing medical data
+   * @param config - Optional Verifiable Credential parameters, applied to every card, and the
+   *  error correction level the cards must fit at. See {@link SplitIssuanceParams}.
+   * @returns Promise resolving to the SHC objects, in bundle order
+   * @throws {@link QRCodeError} When an entry, with the Patient and the entries it references,
+   *  does not fit a single QR code on its own
+   * @throws The same errors as {@link issue}
+   *
+   * @example
+   * ```typescript
+   * const healthCards = await issuer.issueSplit(longVaccinationHistoryBundle);
+   * const qrCodes = await Promise.all(healthCards.map(card => card.asQR()));
+   * ```
+   */
+  async issueSplit(fhirBundle: FHIRBundle, config: SplitIssuanceParams = {}): Promise<SHC[]> {
+    const { errorCorrectionLevel = 'L', ...vcOptions } = config
+    const maxJWSLength = V22_MAX_JWS_BY_EC_LEVEL[errorCorrectionLevel]
+    const entries = fhirBundle.entry ?? []
+    const patientIndices = entries.flatMap((entry, index) =>
+      entry.resource?.resourceType === 'Patient' ? [index] : []
+    )
+    const units = this.splitUnits(entries)
+    // Bundle of the Patient entries with units [start, end)
+    const partitionBundle = (start: number, end: number): FHIRBundle => {
+      const indices = new Set(patientIndices)
+      for (const unit of units.slice(start, end)) {
+        for (const index of unit.indices) indices.add(index)
+      }
+      return { ...fhirBundle, entry: entries.filter((_, index) => indices.has(index)) }
+    }
+    const fits = async (start: number, end: number) => {
+      const { jwtPayload } = await this.createPayload(partitionBundle(start, end), vcOptions)
+      return (await this.measureJWS(jwtPayload)).jwsLength <= maxJWSLength
+    }
+
+    // Each card takes as many of the next units as fit. Their count is searched from the count
+    // of the previous card, stepping by doubling amounts then bisecting, so that only a few
+    // candidate payloads are built and compressed per card
+    const partitions: Array<[number, number]> = []
+    let unitsPerCard = 1
+    for (let start = 0, unit = units[0]; unit; unit = units[start]) {
+      let fitting = start // Units [start, fitting) fit a card
+      let tooMany = units.length + 1 // Units [start, tooMany) do not
+      let end = Math.min(start + unitsPerCard, units.length)
+      for (let step = 1; tooMany - fitting > 1; step *= 2) {
+        if (await fits(start, end)) {
+          fitting = end
+        } else {
+          tooMany = end
+        }
+        if (tooMany > units.length) {
+          end = Math.min(fitting + step, units.length)
+        } else if (fitting === start) {
+          end = Math.max(tooMany - step, start + 1)
+        } else {
+          end = Math.floor((fitting + tooMany) / 2)
+        }
+      }
+      if (fitting === start) {
+        throw new QRCodeError(
+          `Bundle entry ${unit.root} (${entries[unit.root]?.resource?.resourceType}) does not fit a single QR code at error correction level ${errorCorrectionLevel}`
+        )
+      }
+      partitions.push([start, fitting])
+      unitsPerCard = fitting - start
+      start = fitting
+    }
+    if (partitions.length === 0) {
+      // A bundle of Patient entries only
+      partitions.push([0, 0])
+    }
+
+    const healthCards: SHC[] = []
+    for (const [start, end] of partitions) {
+      healthCards.push(await this.issue(partitionBundle(start, end), vcOptions))
+    }
+    return healthCards
+  }
+
+  /**
+   * Issues a health card for each FHIR Bundle of a batch, e.g. after a mass-vaccination event.
+   *
+   * The signing key is imported and its `kid` derived once for the whole batch (a configured
+   * keyring's active key is looked up once too, so every card of the batch is signed with the same
+   * key). Bundles are processed, compressed and signed with at most `concurrency` of them in
+   * progress at once. A bundle that cannot be issued does not abort the batch: its failure is
+   * reported in its result.
+   *
+   * @param bundles - FHIR R4 Bundles containing medical data
+   * @param options - Optional Verifiable Credential parameters, applied to every card or given per
+   *  bundle, and the maximum concurrency. See {@link BatchIssuanceParams}.
+   * @returns Promise resolving to one result per bundle, in batch order
+   * @throws {@link SHCIssuerConfigError} When `concurrency` is not a positive integer
+   * @throws {@link JWSError} When the `kid` of the signing key cannot be derived
+   * @throws {@link IssuerKeyringError} When a configured keyring has no active signing key
+   *
+   * @example
+   * ```typescript
+   * const results = await issuer.issueMany(bundles, {
+   *   concurrency: 16,
+   *   credentialParams: (bundle, index) => ({ ridSubject: patientIds[index] }),
+   * });
+   * for (const result of results.filter(result => !result.ok)) {
+   *   console.warn(`Bundle #${result.index} not issued: ${result.error.message}`);
+   * }
+   * ```
+   */
+  async issueMany(
+    bundles: FHIRBundle[],
+    options: BatchIssuanceParams = {}
+  ): Promise<BatchIssuanceResult[]> {
+    const { concurrency = DEFAULT_BATCH_CONCURRENCY, credentialParams, ...vcOptions } = options
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new SHCIssuerConfigError(
+        'SHCIssuer configuration error: concurrency must be a positive integer'
+      )
+    }
+    const limit = createLimiter(concurrency)
+    const signer = await this.createBatchSigner()
+
+    return await Promise.all(
+      bundles.map((bundle, index) =>
+        limit(async (): Promise<BatchIssuanceResult> => {
+          try {
+            const itemOptions = { ...vcOptions, ...credentialParams?.(bundle, index) }
+            const jws = await this.createJWS(bundle, itemOptions, signer)
+            return { index, ok: true, healthCard: new SHC(jws, bundle) }
+          } catch (error) {
+            return { index, ok: false, error: toIssuanceError(error) }
+          }
+        })
+      )
+    )
+  }
+
+  /**
+   * Groups the non-Patient entries of a bundle into the units {@link issueSplit} keeps together:
+   * each entry no other non-Patient entry references, with the entries it references transitively
+   */
+  private splitUnits(entries: BundleEntry[]): Array<{ root: number; indices: Set<number> }> {
+    // Same reference keys as FHIRBundleProcessor.processForQR
+    const indexByReference = new Map<string, number>()
+    entries.forEach((entry, index) => {
+      if (entry.fullUrl) {
+        indexByReference.set(entry.fullUrl.split('/').slice(-2).join('/'), index)
+      }
+    })
+    const isPatient = (index: number) => entries[index]?.resource?.resourceType === 'Patient'
+    const referencedIndices = (value: unknown, found: Set<number>): Set<number> => {
+      if (Array.isArray(value)) {
+        for (const item of value) referencedIndices(item, found)
+      } else if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          const index = key === 'reference' ? indexByReference.get(String(child)) : undefined
+          if (index !== undefined) {
+            found.add(index)
+          } else {
+            referencedIndices(child, found)
+          }
+        }
+      }
+      return found
+    }
+    const references = entries.map(entry =>
+      [...referencedIndices(entry.resource, new Set())].filter(index => !isPatient(index))
+    )
+    const closure = (root: number) => {
+      const indices = new Set([root])
+      for (const index of indices) {
+        for (const referenced of references[index] ?? []) indices.add(referenced)
+      }
+      return indices
+    }
+
+    const referencedByOthers = new Set(
+      references.flatMap((referenced, index) =>
+        isPatient(index) ? [] : referenced.filter(target => target !== index)
+      )
+    )
+    const units: Array<{ root: number; indices: Set<number> }> = []
+    const covered = new Set<number>()
+    const addUnit = (root: number) => {
+      const indices = closure(root)
+      for (const index of indices) covered.add(index)
+      units.push({ root, indices })
+    }
+    entries.forEach((_, index) => {
+      if (!isPatient(index) && !referencedByOthers.has(index)) addUnit(index)
+    })
+    // Entries only referenced within reference cycles
+    entries.forEach((_, index) => {
+      if (!isPatient(index) && !covered.has(index)) addUnit(index)
+    })
+    return units.sort((a, b) => a.root - b.root)
+  }
+
   /**
    * Internal method to create JWS from FHIR Bundle
    */
   private async createJWS(
     fhirBundle: FHIRBundle,
-    vcOptions: VerifiableCredentialParams = {}
+    vcOptions: VerifiableCredentialParams = {},
+    signer: Signer | undefined = this.config.keyring?.getActiveSigner() ?? this.config.signer
   ): Promise<string> {
+    const { processedBundle, jwtPayload } = await this.createPayload(fhirBundle, vcOptions)
+
+    // Sign the JWT to create JWS (with compression per SMART Health Cards spec)
+    let jws: string
+    if (signer) {
+      jws = await this.jwsProcessor.signWithSigner(jwtPayload, signer, { enableCompression: true })
+    } else {
+      const { privateKey, publicKey } = this.requireKeyPair()
+      jws = await this.jwsProcessor.sign(jwtPayload, privateKey, publicKey, {
+        enableCompression: true,
+      })
+    }
+
+    if (this.config.verifyAfterIssue) {
+      await this.verifyIssued(jws, processedBundle, signer)
+    }
+    return jws
+  }
+
+  /**
+   * Reads an issued JWS back from its numeric QR form with the issuer's own public key, and checks
+   * the bundle read back is the bundle that was signed
+   */
+  private async verifyIssued(
+    jws: string,
+    processedBundle: FHIRBundle,
+    signer: Signer | undefined
+  ): Promise<void> {
+    let decodedBundle: FHIRBundle
+    try {
+      const reader = new SHCReader({
+        publicKey: signer ? await signer.getPublicJwk() : this.requireKeyPair().publicKey,
+        allowJwksFallback: false,
+        clock: this.config.clock,
+        profileValidation: this.config.profileValidation,
+      })
+      const healthCard = await reader.fromQRNumeric(new QRCodeGenerator().chunkJWS(jws))
+      decodedBundle = await healthCard.asBundle()
+    } catch (error) {
+      const readError =
+        error instanceof SHCError
+          ? error
+          : new JWSError(error instanceof Error ? error.message : String(error))
+      throw new SelfVerificationError(
+        `Self-verification failed: issued card could not be read back: ${readError.message}`,
+        readError
+      )
+    }
+
+    if (!isSameJSON(decodedBundle, processedBundle)) {
+      throw new SelfVerificationError(
+        'Self-verification failed: bundle read back differs from the signed bundle'
+      )
+    }
+  }
+
+  /**
+   * Resolves the signer of a batch, with the private key imported once and the `kid` derived once
+   */
+  private async createBatchSigner(): Promise<Signer> {
+    let signer = this.config.keyring?.getActiveSigner() ?? this.config.signer
+    if (!signer) {
+      const { privateKey, publicKey } = this.requireKeyPair()
+      // ES256 keys are never raw bytes, so the key pair is a CryptoKey, PEM string or JsonWebKey
+      signer = new LocalSigner(
+        privateKey as CryptoKey | string | JsonWebKey,
+        publicKey as CryptoKey | string | JsonWebKey
+      )
+    }
+    let kid: string
+    try {
+      kid = await signer.getKid()
+    } catch (error) {
+      if (error instanceof SHCError) {
+        throw error
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new JWSError(`Failed to derive the signing key ID: ${errorMessage}`)
+    }
+    return {
+      getPublicJwk: () => signer.getPublicJwk(),
+      getKid: async () => kid,
+      sign: data => signer.sign(data),
+    }
+  }
+
+  /**
+   * Internal method to create the JWT payload from FHIR Bundle
+   */
+  private async createPayload(
+    fhirBundle: FHIRBundle,
+    vcOptions: VerifiableCredentialParams
+  ): Promise<{ processedBundle: FHIRBundle; jwtPayload: SHCJWT }> {
     // Step 1: Process and validate FHIR Bundle
     const processedBundle = this.config.enableQROptimization
       ? this.bundleProcessor.processForQR(fhirBundle, {
           strictReferences: this.config.strictReferences,
+          minification: this.config.minification,
         })
       : this.bundleProcessor.process(fhirBundle)
     this.bundleProcessor.validate(processedBundle)
+    if (this.config.profileValidation) {
+      new FHIRProfileValidator().assertValid(processedBundle, this.config.profileValidation)
+    }
 
     // Step 2: Create Verifiable Credential
-    const vc = this.vcProcessor.create(processedBundle, vcOptions)
+    const vc = this.vcProcessor.create(
+      processedBundle,
+      await this.resolveRid({ inferTypes: this.config.inferTypes, ...vcOptions })
+    )
     this.vcProcessor.validate(vc)
 
     // Step 3: Create JWT payload with issuer information
-    const now = Math.floor(Date.now() / 1000)
+    const now = nowInSeconds(this.config.clock)
     const jwtPayload: SHCJWT = {
       iss: this.config.issuer,
-      nbf: now,
+      nbf: now - this.config.nbfSkew,
       vc: vc.vc,
     }
 
@@ -116,16 +562,118 @@ export class SHCIssuer {
       jwtPayload.exp = now + this.config.expirationTime
     }
 
-    // Step 4: Sign the JWT to create JWS (with compression)
-    const jws = await this.jwsProcessor.sign(
-      jwtPayload,
-      this.config.privateKey,
-      this.config.publicKey,
-      {
-        enableCompression: true, // Enable compression per SMART Health Cards spec
-      }
-    )
+    return { processedBundle, jwtPayload }
+  }
 
-    return jws
+  /**
+   * Computes the compressed payload and the exact compact JWS length of a JWT payload, without signing it
+   */
+  private async measureJWS(
+    jwtPayload: SHCJWT
+  ): Promise<{ payloadBytes: Uint8Array; compressedPayload: Uint8Array; jwsLength: number }> {
+    const payloadBytes = new TextEncoder().encode(JSON.stringify(jwtPayload))
+    const compressedPayload = await compressDeflateRaw(payloadBytes)
+    const signer = this.config.keyring?.getActiveSigner() ?? this.config.signer
+    const kid = signer
+      ? await signer.getKid()
+      : await deriveKidFromPublicKey(this.requireKeyPair().publicKey)
+    const header = JSON.stringify({ alg: 'ES256', kid, zip: 'DEF' })
+    // Compact JWS: base64url(header).base64url(payload).base64url(signature)
+    const jwsLength =
+      base64urlLength(new TextEncoder().encode(header).length) +
+      1 +
+      base64urlLength(compressedPayload.length) +
+      1 +
+      base64urlLength(ES256_SIGNATURE_BYTES)
+    return { payloadBytes, compressedPayload, jwsLength }
+  }
+
+  /**
+   * Returns the configured key pair, used when no signer or keyring is configured
+   * @throws {@link SHCIssuerConfigError} When the private or the public key is missing
+   */
+  private requireKeyPair(): {
+    privateKey: NonNullable<SHCConfig['privateKey']>
+    publicKey: NonNullable<SHCConfig['publicKey']>
+  } {
+    const { privateKey, publicKey } = this.config
+    if (!privateKey || !publicKey) {
+      throw new SHCIssuerConfigError(
+        'SHCIssuer configuration error: privateKey and publicKey are required without a signer or keyring'
+      )
+    }
+    return { privateKey, publicKey }
+  }
+
+  /**
+   * Internal method to derive `rid` from `ridSubject` when requested
+   */
+  private async resolveRid(
+    vcOptions: VerifiableCredentialParams
+  ): Promise<VerifiableCredentialParams> {
+    const { ridSubject, ...options } = vcOptions
+    if (ridSubject === undefined) {
+      return options
+    }
+    if (options.rid !== undefined) {
+      throw new CredentialValidationError('Only one of rid or ridSubject can be provided')
+    }
+    if (this.config.ridSecret === undefined) {
+      throw new SHCIssuerConfigError(
+        'SHCIssuer configuration error: ridSecret is required to derive rid from ridSubject'
+      )
+    }
+    return { ...options, rid: await deriveRid(this.config.ridSecret, ridSubject) }
+  }
+}
+
+/** Default maximum number of cards issued at once by {@link SHCIssuer.issueMany} */
+const DEFAULT_BATCH_CONCURRENCY = 8
+
+/** Length in bytes of an ES256 signature (R and S, 32 bytes each) */
+const ES256_SIGNATURE_BYTES = 64
+
+/** Length of the unpadded base64url encoding of `bytes` bytes */
+function base64urlLength(bytes: number): number {
+  return Math.ceil((bytes * 4) / 3)
+}
+
+/**
+ * Wraps unexpected failures of a batch item in an {@link SHCError}
+ */
+function toIssuanceError(error: unknown): SHCError {
+  if (error instanceof SHCError) {
+    return error
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error)
+  return new SHCError(`Failed to issue SMART Health Card: ${errorMessage}`, 'ISSUANCE_ERROR')
+}
+
+/**
+ * Compares two JSON values structurally, regardless of property order. Properties set to
+ * `undefined` are ignored, as they are not serialized.
+ */
+function isSameJSON(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isSameJSON(item, b[index]))
+    )
   }
+  const definedKeys = (value: object) =>
+    Object.entries(value).filter(([, item]) => item !== undefined)
+  const aEntries = definedKeys(a)
+  const bRecord = b as Record<string, unknown>
+  return (
+    aEntries.length === definedKeys(b).length &&
+    aEntries.every(([key, item]) => Object.hasOwn(bRecord, key) && isSameJSON(item, bRecord[key]))
+  )
 }
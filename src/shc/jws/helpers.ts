@@ -21,3 +21,22 @@ export async function deriveKidFromPublicKey(
   const kid = await calculateJwkThumbprint(jwk)
   return kid
 }
+
+/**
+ * Exports the public EC parameters (`kty`, `crv`, `x`, `y`) of an ES256 public key as a JsonWebKey
+ */
+export async function exportPublicJwk(
+  publicKey: CryptoKey | string | JsonWebKey
+): Promise<JsonWebKey> {
+  let key: CryptoKey
+  if (typeof publicKey === 'string') {
+    key = await importSPKI(publicKey, 'ES256', { extractable: true })
+  } else if ('kty' in publicKey) {
+    // JsonWebKey object
+    key = (await importJWK(publicKey, 'ES256', { extractable: true })) as CryptoKey
+  } else {
+    key = publicKey as CryptoKey
+  }
+  const { kty, crv, x, y } = await exportJWK(key)
+  return { kty, crv, x, y } as JsonWebKey
+}
@@ -2,3 +2,4 @@
 
 export { deriveKidFromPublicKey } from './helpers.js'
 export { JWSProcessor } from './jws-processor.js'
+export { LocalSigner, MockRemoteSigner, type Signer } from './signer.js'
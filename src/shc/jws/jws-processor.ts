@@ -8,16 +8,19 @@ import {
   importPKCS8,
   importSPKI,
 } from 'jose'
+import { type Clock, nowInSeconds } from '../../common/clock.js'
 import { compressDeflateRaw, decompressDeflateRaw } from '../../common/compression.js'
 import {
   ExpirationError,
   JWSError,
+  NotYetValidError,
   PayloadValidationError,
   SHCError,
   SignatureVerificationError,
 } from '../errors.js'
 import type { SHCJWT } from '../types.js'
 import { deriveKidFromPublicKey } from './helpers.js'
+import type { Signer } from './signer.js'
 
 /**
  * Handles JWT/JWS signing and verification with ES256 algorithm.
@@ -58,15 +61,10 @@ export class JWSProcessor {
         kid,
       }
 
-      // Serialize payload
-      const payloadJson = JSON.stringify(payload)
-      const encoder = new TextEncoder()
-      let payloadBytes = encoder.encode(payloadJson)
-
-      // Compress the payload BEFORE signing using raw DEFLATE (zip: "DEF")
+      // Serialize and optionally compress payload
       const enableCompression = config.enableCompression ?? true
+      const payloadBytes = await this.encodePayload(payload, enableCompression)
       if (enableCompression) {
-        payloadBytes = await compressDeflateRaw(payloadBytes)
         header.zip = 'DEF'
       }
 
@@ -93,6 +91,64 @@ export class JWSProcessor {
     }
   }
 
+  /**
+   * Signs a JWT payload using an external {@link Signer} (e.g. KMS or HSM backed).
+   *
+   * The compact JWS is assembled here and only the signing input is handed to the signer,
+   * so private key material never needs to be loaded into application memory.
+   *
+   * @param payload - JWT payload to sign
+   * @param signer - Signer providing the `kid` and ES256 signatures
+   * @param config.enableCompression - Whether to compress payload with raw DEFLATE (default: true).
+   *  When `enableCompression` is true, compresses payload before signing and sets `zip: "DEF"`.
+   * @returns Promise resolving to JWS string
+   * @throws {@link PayloadValidationError} When payload structure validation fails
+   * @throws {@link JWSError} When the signer fails or returns a malformed signature
+   */
+  async signWithSigner(
+    payload: SHCJWT,
+    signer: Signer,
+    config: { enableCompression?: boolean } = {}
+  ): Promise<string> {
+    try {
+      // Validate required payload fields
+      this.validateJWTPayload(payload)
+
+      // Protected header per SMART Health Cards
+      const header: { alg: 'ES256'; kid: string; zip?: 'DEF' } = {
+        alg: 'ES256',
+        kid: await signer.getKid(),
+      }
+
+      // Serialize and optionally compress payload
+      const enableCompression = config.enableCompression ?? true
+      const payloadBytes = await this.encodePayload(payload, enableCompression)
+      if (enableCompression) {
+        header.zip = 'DEF'
+      }
+
+      // Build signing input (base64url(header) + '.' + base64url(payloadBytes))
+      const encoder = new TextEncoder()
+      const signingInput = `${base64url.encode(encoder.encode(JSON.stringify(header)))}.${base64url.encode(payloadBytes)}`
+      const signature = await signer.sign(encoder.encode(signingInput))
+
+      // ES256 signatures are 64 bytes (R || S) per RFC7518
+      if (!(signature instanceof Uint8Array) || signature.length !== 64) {
+        throw new JWSError(
+          `Signer returned an invalid ES256 signature: expected 64 bytes, got ${signature?.length ?? 0}`
+        )
+      }
+
+      return `${signingInput}.${base64url.encode(signature)}`
+    } catch (error) {
+      if (error instanceof SHCError) {
+        throw error
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new JWSError(`JWS signing failed: ${errorMessage}`)
+    }
+  }
+
   /**
    * Verifies a JWS and returns the decoded payload.
    *
@@ -101,9 +157,15 @@ export class JWSProcessor {
    * @param config.verifyExpiration - Whether to verify the JWT `exp` claim during verification.
    *  When true (default), expired health cards will be rejected.
    *  Set to false to allow expired cards to be accepted.
+   * @param config.rejectFutureNbf - Whether to reject health cards whose `nbf` claim is in the future.
+   *  Defaults to false.
+   * @param config.clock - Source of the current time. Defaults to the system clock.
+   * @param config.clockSkewTolerance - Seconds of clock difference with the issuer tolerated when
+   *  checking `exp` and `nbf`. Defaults to 0.
    * @returns Promise resolving to decoded JWT payload
    * @throws {@link SignatureVerificationError} When JWS signature verification fails
    * @throws {@link ExpirationError} When health card has expired
+   * @throws {@link NotYetValidError} When `rejectFutureNbf` is enabled and the health card is not valid yet
    * @throws {@link PayloadValidationError} When payload structure validation fails
    * @throws {@link JWSError} When other JWS processing fails
    *
@@ -112,7 +174,12 @@ export class JWSProcessor {
   async verify(
     jws: string,
     publicKey: CryptoKey | Uint8Array | string | JsonWebKey,
-    config?: { verifyExpiration?: boolean }
+    config?: {
+      verifyExpiration?: boolean
+      rejectFutureNbf?: boolean
+      clock?: Clock
+      clockSkewTolerance?: number
+    }
   ): Promise<SHCJWT> {
     try {
       if (!jws || typeof jws !== 'string') {
@@ -155,14 +222,20 @@ export class JWSProcessor {
       // Validate structure
       this.validateJWTPayload(smartPayload)
 
-      // Enforce expiration if present (if enabled)
+      // Enforce expiration if present (if enabled), and not-before (if enabled)
+      const nowSeconds = nowInSeconds(config?.clock)
+      const tolerance = config?.clockSkewTolerance ?? 0
       const verifyExpiration = config?.verifyExpiration ?? true
       if (verifyExpiration) {
-        const nowSeconds = Math.floor(Date.now() / 1000)
-        if (typeof smartPayload.exp === 'number' && smartPayload.exp < nowSeconds) {
+        if (typeof smartPayload.exp === 'number' && smartPayload.exp + tolerance < nowSeconds) {
           throw new ExpirationError('SMART Health Card has expired')
         }
       }
+      if (config?.rejectFutureNbf && smartPayload.nbf - tolerance > nowSeconds) {
+        throw new NotYetValidError(
+          `SMART Health Card is not valid before ${new Date(smartPayload.nbf * 1000).toISOString()}`
+        )
+      }
 
       return smartPayload
     } catch (error) {
@@ -174,6 +247,15 @@ export class JWSProcessor {
     }
   }
 
+  /**
+   * Serializes a JWT payload, compressing it with raw DEFLATE when requested
+   */
+  private async encodePayload(payload: SHCJWT, enableCompression: boolean): Promise<Uint8Array> {
+    const payloadBytes = new TextEncoder().encode(JSON.stringify(payload))
+    // Compress the payload BEFORE signing using raw DEFLATE (zip: "DEF")
+    return enableCompression ? await compressDeflateRaw(payloadBytes) : payloadBytes
+  }
+
   /**
    * Validates the structure of a SMART Health Card JWT payload
    */
@@ -0,0 +1,181 @@
+// Pluggable signers for SMART Health Cards
+import { importJWK, importPKCS8 } from 'jose'
+import { JWSError } from '../errors.js'
+import { deriveKidFromPublicKey, exportPublicJwk } from './helpers.js'
+
+/**
+ * Abstraction over an ES256 signing key.
+ *
+ * Implement this interface to keep issuer private keys outside of application memory,
+ * e.g. in a cloud KMS or an HSM. The library only ever asks the signer for its public key
+ * and for signatures over JWS signing inputs.
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export interface Signer {
+  /**
+   * Returns the public part of the signing key as a JsonWebKey (`kty`, `crv`, `x`, `y`).
+   */
+  getPublicJwk(): Promise<JsonWebKey>
+
+  /**
+   * Returns the key ID (`kid`) placed in the JWS header.
+   * Per SMART Health Cards specification, this must be the RFC7638 JWK Thumbprint of the public key.
+   */
+  getKid(): Promise<string>
+
+  /**
+   * Signs the JWS signing input (`base64url(header) + '.' + base64url(payload)` as ASCII bytes).
+   *
+   * @param data - Bytes to sign
+   * @returns Promise resolving to the ES256 signature in JWS format
+   *  (64 bytes, `R || S`, as defined in RFC7518 section 3.4)
+   */
+  sign(data: Uint8Array): Promise<Uint8Array>
+}
+
+/**
+ * Software {@link Signer} backed by key material held in memory.
+ *
+ * Keys are imported once and reused for every signature.
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class LocalSigner implements Signer {
+  private privateKeyPromise: Promise<CryptoKey> | null = null
+  private publicJwkPromise: Promise<JsonWebKey> | null = null
+  private kidPromise: Promise<string> | null = null
+
+  /**
+   * Creates a new LocalSigner instance.
+   *
+   * @param privateKey - ES256 private key (CryptoKey, PKCS#8 PEM string, or JsonWebKey)
+   * @param publicKey - ES256 public key (CryptoKey, SPKI PEM string, or JsonWebKey)
+   *
+   * @example
+   * ```typescript
+   * const signer = new LocalSigner(privateKeyPKCS8String, publicKeySPKIString);
+   * const issuer = new SHCIssuer({ issuer: 'https://your-healthcare-org.com', signer });
+   * ```
+   */
+  constructor(
+    private readonly privateKey: CryptoKey | string | JsonWebKey,
+    private readonly publicKey: CryptoKey | string | JsonWebKey
+  ) {}
+
+  async getPublicJwk(): Promise<JsonWebKey> {
+    if (!this.publicJwkPromise) {
+      this.publicJwkPromise = exportPublicJwk(this.publicKey)
+    }
+    return await this.publicJwkPromise
+  }
+
+  async getKid(): Promise<string> {
+    if (!this.kidPromise) {
+      this.kidPromise = deriveKidFromPublicKey(this.publicKey)
+    }
+    return await this.kidPromise
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    if (!this.privateKeyPromise) {
+      this.privateKeyPromise = this.importPrivateKey()
+    }
+    const key = await this.privateKeyPromise
+    // WebCrypto ECDSA signatures are already in the IEEE P1363 (R || S) format used by JWS
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      data as Uint8Array<ArrayBuffer>
+    )
+    return new Uint8Array(signature)
+  }
+
+  private async importPrivateKey(): Promise<CryptoKey> {
+    if (typeof this.privateKey === 'string') {
+      return await importPKCS8(this.privateKey, 'ES256')
+    }
+    if ('kty' in this.privateKey) {
+      // JsonWebKey object
+      return (await importJWK(this.privateKey, 'ES256')) as CryptoKey
+    }
+    return this.privateKey as CryptoKey
+  }
+}
+
+/**
+ * {@link Signer} that simulates a remote signing service (KMS/HSM) for offline testing.
+ *
+ * The key material is only reachable through the asynchronous {@link Signer.sign} call,
+ * which can optionally be delayed to mimic network latency. Every signature request is
+ * counted so tests can assert how many round-trips an operation performed.
+ *
+ * **Not for production use.**
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class MockRemoteSigner implements Signer {
+  /** Number of signature requests served so far. */
+  public signCount = 0
+
+  private readonly delegate: LocalSigner
+  private readonly latencyMs: number
+  private available = true
+
+  /**
+   * Creates a new MockRemoteSigner instance.
+   *
+   * @param params.privateKey - ES256 private key held by the simulated service
+   * @param params.publicKey - ES256 public key corresponding to the private key
+   * @param params.latencyMs - Optional artificial delay applied to each call, in milliseconds (default: 0)
+   */
+  constructor(params: {
+    privateKey: CryptoKey | string | JsonWebKey
+    publicKey: CryptoKey | string | JsonWebKey
+    latencyMs?: number
+  }) {
+    this.delegate = new LocalSigner(params.privateKey, params.publicKey)
+    this.latencyMs = params.latencyMs ?? 0
+  }
+
+  /**
+   * Simulates the remote service becoming unreachable (or reachable again).
+   * While unavailable, every call rejects.
+   *
+   * @param available - Whether the simulated service accepts requests
+   */
+  setAvailable(available: boolean): void {
+    this.available = available
+  }
+
+  async getPublicJwk(): Promise<JsonWebKey> {
+    await this.roundTrip()
+    return await this.delegate.getPublicJwk()
+  }
+
+  async getKid(): Promise<string> {
+    await this.roundTrip()
+    return await this.delegate.getKid()
+  }
+
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    await this.roundTrip()
+    this.signCount++
+    return await this.delegate.sign(data)
+  }
+
+  private async roundTrip(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs))
+    }
+    if (!this.available) {
+      throw new JWSError('Remote signer is unavailable')
+    }
+  }
+}
@@ -0,0 +1,258 @@
+// IssuerKeyring class
+
+import { IssuerKeyringError } from './errors.js'
+import { deriveKidFromPublicKey, exportPublicJwk } from './jws/helpers.js'
+import { LocalSigner, type Signer } from './jws/signer.js'
+import type { IssuerJWK, IssuerJWKS, IssuerKeyringEntry, IssuerKeyringKey } from './types.js'
+
+type KeyringSlot = {
+  publicJwk: JsonWebKey
+  signer: Signer | null
+  crlVersion?: number
+}
+
+/**
+ * Holds the signing keys of a SMART Health Cards issuer and publishes them as a JWKS.
+ *
+ * A keyring has at most one active key, used to sign new health cards, and any number of
+ * retired keys. Retired keys are no longer used for signing but are still published in
+ * the JWKS so that cards issued with them keep verifying after a key rotation.
+ * Key IDs are always derived with {@link deriveKidFromPublicKey}.
+ *
+ * @example
+ * ```typescript
+ * const keyring = new IssuerKeyring();
+ * await keyring.addKey({ privateKey: currentPrivateKey, publicKey: currentPublicKey });
+ * await keyring.addKey({ publicKey: previousPublicKey }); // verification-only
+ *
+ * const issuer = new SHCIssuer({ issuer: 'https://your-healthcare-org.com', keyring });
+ *
+ * // Serve at https://your-healthcare-org.com/.well-known/jwks.json
+ * const jwks = keyring.toJWKS();
+ *
+ * // Later: rotate to a new key; the current one is retired but stays in the JWKS
+ * await keyring.rotate({ privateKey: nextPrivateKey, publicKey: nextPublicKey });
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category High-Level API
+ */
+export class IssuerKeyring {
+  private readonly slots = new Map<string, KeyringSlot>()
+  private activeKid: string | null = null
+
+  /**
+   * Adds a key to the keyring.
+   *
+   * The first signing-capable key becomes active unless `options.active` is `false`.
+   *
+   * @param key - Key material (see {@link IssuerKeyringKey})
+   * @param options.active - Whether to make this key the active signing key.
+   *  Defaults to `true` when the keyring has no active key yet and the key can sign.
+   * @param options.crlVersion - Optional CRL version to advertise for this key in the JWKS
+   * @returns Promise resolving to the derived `kid`
+   * @throws {@link IssuerKeyringError} When the key is already present, a verification-only key is made active,
+   *  a signer reports a `kid` that does not match its public key, or `crlVersion` is not a positive integer
+   */
+  async addKey(
+    key: IssuerKeyringKey,
+    options: { active?: boolean; crlVersion?: number } = {}
+  ): Promise<string> {
+    if (options.crlVersion !== undefined) {
+      assertCrlVersion(options.crlVersion)
+    }
+    const { publicJwk, signer } = await this.resolveKey(key)
+    const kid = await deriveKidFromPublicKey(publicJwk)
+
+    if (this.slots.has(kid)) {
+      throw new IssuerKeyringError(`Key with kid '${kid}' is already in the keyring`)
+    }
+    if (signer && (await signer.getKid()) !== kid) {
+      throw new IssuerKeyringError(
+        `Signer kid does not match the RFC7638 thumbprint of its public key ('${kid}')`
+      )
+    }
+
+    const makeActive = options.active ?? (this.activeKid === null && signer !== null)
+    if (makeActive && !signer) {
+      throw new IssuerKeyringError('A verification-only key cannot be the active signing key')
+    }
+
+    const slot: KeyringSlot = { publicJwk, signer }
+    if (options.crlVersion !== undefined) {
+      slot.crlVersion = options.crlVersion
+    }
+    this.slots.set(kid, slot)
+    if (makeActive) {
+      this.activeKid = kid
+    }
+    return kid
+  }
+
+  /**
+   * Rotates to a new signing key. The previously active key is retired and remains published.
+   *
+   * @param key - New signing key (a {@link Signer} or a `privateKey`/`publicKey` pair)
+   * @param options.crlVersion - Optional CRL version to advertise for the new key
+   * @returns Promise resolving to the `kid` of the new active key
+   * @throws {@link IssuerKeyringError} When the key cannot sign or is already present, or `crlVersion`
+   *  is not a positive integer
+   */
+  async rotate(key: IssuerKeyringKey, options: { crlVersion?: number } = {}): Promise<string> {
+    return await this.addKey(key, { ...options, active: true })
+  }
+
+  /**
+   * Removes a retired key. Cards signed with it will no longer verify against the published JWKS.
+   *
+   * @param kid - Key ID to remove
+   * @throws {@link IssuerKeyringError} When the key is unknown or is the active key
+   */
+  removeKey(kid: string): void {
+    if (!this.slots.has(kid)) {
+      throw new IssuerKeyringError(`Key with kid '${kid}' is not in the keyring`)
+    }
+    if (kid === this.activeKid) {
+      throw new IssuerKeyringError('Cannot remove the active signing key; rotate first')
+    }
+    this.slots.delete(kid)
+  }
+
+  /**
+   * Returns the `kid` of the active signing key.
+   *
+   * @throws {@link IssuerKeyringError} When the keyring has no active key
+   */
+  getActiveKid(): string {
+    if (this.activeKid === null) {
+      throw new IssuerKeyringError('Keyring has no active signing key')
+    }
+    return this.activeKid
+  }
+
+  /**
+   * Returns the signer of the active key.
+   *
+   * @throws {@link IssuerKeyringError} When the keyring has no active key
+   */
+  getActiveSigner(): Signer {
+    return this.getSlot(this.getActiveKid()).signer as Signer
+  }
+
+  /**
+   * Whether a key with the given `kid` is held by the keyring.
+   */
+  hasKey(kid: string): boolean {
+    return this.slots.has(kid)
+  }
+
+  /**
+   * Returns all keys, active key first.
+   *
+   * @returns Array of {@link IssuerKeyringEntry}
+   */
+  getKeys(): IssuerKeyringEntry[] {
+    const entries: IssuerKeyringEntry[] = []
+    for (const [kid, slot] of this.slots) {
+      const entry: IssuerKeyringEntry = {
+        kid,
+        status: kid === this.activeKid ? 'active' : 'retired',
+        publicJwk: slot.publicJwk,
+      }
+      if (slot.crlVersion !== undefined) {
+        entry.crlVersion = slot.crlVersion
+      }
+      entries.push(entry)
+    }
+    return entries.sort((a, b) => Number(b.status === 'active') - Number(a.status === 'active'))
+  }
+
+  /**
+   * Returns the CRL version advertised for a key, if any.
+   *
+   * @throws {@link IssuerKeyringError} When the key is unknown
+   */
+  getCrlVersion(kid: string): number | undefined {
+    return this.getSlot(kid).crlVersion
+  }
+
+  /**
+   * Sets the CRL version advertised for a key in the JWKS.
+   *
+   * @param kid - Key ID
+   * @param crlVersion - Positive CRL version
+   * @throws {@link IssuerKeyringError} When the key is unknown or `crlVersion` is not a positive integer
+   */
+  setCrlVersion(kid: string, crlVersion: number): void {
+    const slot = this.getSlot(kid)
+    assertCrlVersion(crlVersion)
+    slot.crlVersion = crlVersion
+  }
+
+  /**
+   * Builds the public JWKS document to serve at `/.well-known/jwks.json`.
+   *
+   * Every key is published with `use: "sig"` and `alg: "ES256"`, plus `crlVersion` when set.
+   * Private key material is never included.
+   *
+   * @returns The JWKS document (see {@link IssuerJWKS})
+   */
+  toJWKS(): IssuerJWKS {
+    return {
+      keys: this.getKeys().map(({ kid, publicJwk, crlVersion }) => {
+        const jwk: IssuerJWK = {
+          kty: 'EC',
+          kid,
+          use: 'sig',
+          alg: 'ES256',
+          crv: 'P-256',
+          x: publicJwk.x as string,
+          y: publicJwk.y as string,
+        }
+        if (crlVersion !== undefined) {
+          jwk.crlVersion = crlVersion
+        }
+        return jwk
+      }),
+    }
+  }
+
+  /**
+   * Returns the internal slot for a key
+   * @throws {@link IssuerKeyringError} When the key is unknown
+   */
+  private getSlot(kid: string): KeyringSlot {
+    const slot = this.slots.get(kid)
+    if (!slot) {
+      throw new IssuerKeyringError(`Key with kid '${kid}' is not in the keyring`)
+    }
+    return slot
+  }
+
+  /**
+   * Normalizes accepted key inputs into a public JWK and an optional signer
+   */
+  private async resolveKey(
+    key: IssuerKeyringKey
+  ): Promise<{ publicJwk: JsonWebKey; signer: Signer | null }> {
+    if ('sign' in key) {
+      return { publicJwk: await key.getPublicJwk(), signer: key }
+    }
+    const publicJwk = await exportPublicJwk(key.publicKey)
+    if ('privateKey' in key) {
+      return { publicJwk, signer: new LocalSigner(key.privateKey, key.publicKey) }
+    }
+    return { publicJwk, signer: null }
+  }
+}
+
+/**
+ * Checks that a CRL version is a positive integer, as advertised in the JWKS
+ * @throws {@link IssuerKeyringError} When it is not
+ */
+function assertCrlVersion(crlVersion: number): void {
+  if (!Number.isSafeInteger(crlVersion) || crlVersion < 1) {
+    throw new IssuerKeyringError(`Invalid crlVersion ${crlVersion}: must be a positive integer`)
+  }
+}
@@ -0,0 +1,130 @@
+// Incremental assembly of chunked QR codes
+
+import { QRCodeError } from '../errors.js'
+import type { ChunkedQRProgress } from '../types.js'
+import { parseQRChunk, QRCodeGenerator } from './qr-code-generator.js'
+
+/**
+ * Assembles a SMART Health Card from QR codes received one at a time, such as the
+ * frames of a camera scanning loop.
+ *
+ * Chunks (`shc:/INDEX/TOTAL/DATA`) may arrive in any order and more than once.
+ * A single, unchunked QR code (`shc:/DATA`) completes the assembly on its own.
+ *
+ * @example
+ * ```typescript
+ * const assembler = new ChunkedQRAssembler();
+ *
+ * scanner.onDecode(qrData => {
+ *   const progress = assembler.add(qrData);
+ *   if (progress.complete) {
+ *     reader.fromJWS(progress.jws!).then(showHealthCard);
+ *   } else {
+ *     showMessage(`Scan QR code(s) ${progress.missing.join(', ')} of ${progress.total}`);
+ *   }
+ * });
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class ChunkedQRAssembler {
+  private total: number | null = null
+  private readonly chunks = new Map<number, string>()
+  private jws: string | null = null
+  private readonly qrGenerator = new QRCodeGenerator()
+
+  /**
+   * Adds a scanned QR code. Chunks already received with the same data are ignored.
+   *
+   * @param qrData - QR code content, chunked (`shc:/INDEX/TOTAL/DATA`) or not (`shc:/DATA`)
+   * @returns The assembly progress after adding the QR code
+   * @throws {@link QRCodeError} When the QR code is malformed, when its total conflicts with the
+   *  chunks received before, when a chunk with the same index but different data was already
+   *  received, or when the complete data cannot be decoded. The assembler state is left unchanged.
+   */
+  add(qrData: string): ChunkedQRProgress {
+    const { index, total, data } = this.parse(qrData)
+
+    if (this.total !== null && this.total !== total) {
+      throw new QRCodeError(
+        `Inconsistent total chunk count across QR codes: expected ${this.total}, got ${total}`
+      )
+    }
+    const existing = this.chunks.get(index)
+    if (existing !== undefined) {
+      if (existing !== data) {
+        throw new QRCodeError(
+          `Conflicting data received for chunk ${index} of ${total}; QR codes of different health cards were scanned`
+        )
+      }
+      return this.progress
+    }
+
+    const chunks = new Map(this.chunks).set(index, data)
+    let jws: string | null = null
+    if (chunks.size === total) {
+      const numericData = [...chunks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, chunkData]) => chunkData)
+        .join('')
+      jws = this.qrGenerator.decodeNumericToJWS(numericData)
+    }
+
+    this.total = total
+    this.chunks.set(index, data)
+    this.jws = jws
+    return this.progress
+  }
+
+  /** Current assembly progress. */
+  get progress(): ChunkedQRProgress {
+    const received = [...this.chunks.keys()].sort((a, b) => a - b)
+    const missing: number[] = []
+    for (let index = 1; index <= (this.total ?? 0); index++) {
+      if (!this.chunks.has(index)) missing.push(index)
+    }
+    return {
+      total: this.total,
+      received,
+      missing,
+      complete: this.jws !== null,
+      jws: this.jws,
+    }
+  }
+
+  /**
+   * Returns the assembled JWS.
+   *
+   * @throws {@link QRCodeError} When chunks are still missing
+   */
+  getJWS(): string {
+    if (this.jws === null) {
+      const { total, missing } = this.progress
+      throw new QRCodeError(
+        total === null ? 'No QR code received' : `Missing chunks ${missing.join(', ')} of ${total}`
+      )
+    }
+    return this.jws
+  }
+
+  /** Discards every chunk received, to scan another health card. */
+  reset(): void {
+    this.total = null
+    this.chunks.clear()
+    this.jws = null
+  }
+
+  private parse(qrData: string): { index: number; total: number; data: string } {
+    const prefix = 'shc:/'
+    if (qrData.startsWith(prefix) && !qrData.includes('/', prefix.length)) {
+      const data = qrData.substring(prefix.length)
+      if (!data) {
+        throw new QRCodeError('Invalid QR code format: missing numeric data')
+      }
+      return { index: 1, total: 1, data }
+    }
+    return parseQRChunk(qrData)
+  }
+}
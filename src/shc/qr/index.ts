@@ -1,2 +1,4 @@
 // QR module barrel export
+export { ChunkedQRAssembler } from './chunked-qr-assembler.js'
 export { QRCodeGenerator } from './qr-code-generator.js'
+export { QRImageScanner } from './qr-image-scanner.js'
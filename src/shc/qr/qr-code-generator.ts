@@ -1,13 +1,23 @@
 // QR code generation for SMART Health Cards
 
-import QRCode from 'qrcode'
 import { QRCodeError } from '../errors.js'
-import type { QRCodeConfig, QRCodeConfigParams, QREncodeParams } from '../types.js'
+import type {
+  QRCodeConfig,
+  QRCodeConfigParams,
+  QREncodeParams,
+  QROutputFormat,
+  QROutputParams,
+  QROutputTypes,
+} from '../types.js'
+import { renderQR } from './qr-renderer.js'
 
-// Version 22 QR code max JWS lengths by error correction level
-// Source: SMART Health Cards QR Code FAQ
-// See: https://raw.githubusercontent.com/smart-on-fhir/health-cards/refs/heads/main/FAQ/qr.md
-const V22_MAX_JWS_BY_EC_LEVEL = {
+/**
+ * Version 22 QR code max JWS lengths by error correction level
+ * Source: SMART Health Cards QR Code FAQ
+ * See: https://raw.githubusercontent.com/smart-on-fhir/health-cards/refs/heads/main/FAQ/qr.md
+ * @internal
+ */
+export const V22_MAX_JWS_BY_EC_LEVEL = {
   L: 1195, // Low error correction
   M: 927, // Medium error correction
   Q: 670, // Quartile error correction
@@ -85,13 +95,23 @@ export class QRCodeGenerator {
   }
 
   /**
-   * Generates QR code data URLs from a JWS string.
+   * Generates QR codes from a JWS string.
    *
    * @param jws - JWS string to encode
-   * @returns Promise resolving to array of QR code data URLs
+   * @param options.format - Output format of the QR codes (see {@link QROutputFormat}). Defaults to `'dataURL'`.
+   * @returns Promise resolving to array of QR codes in the requested format (PNG data URLs by default)
    * @throws {@link QRCodeError} When JWS contains invalid characters or chunking constraints are violated
+   *
+   * @example
+   * ```typescript
+   * const [svg] = await new QRCodeGenerator().generateQR(jws, { format: 'svg' });
+   * ```
    */
-  async generateQR(jws: string): Promise<string[]> {
+  async generateQR<F extends QROutputFormat = 'dataURL'>(
+    jws: string,
+    options: QROutputParams<F> = {}
+  ): Promise<QROutputTypes[F][]> {
+    const format = options.format ?? ('dataURL' as F)
     // Check chunking based on JWS length first
     const needsChunking = jws.length > this.config.maxSingleQRSize
     if (!this.config.enableChunking && needsChunking) {
@@ -103,11 +123,11 @@ export class QRCodeGenerator {
 
     if (needsChunking) {
       // Chunk JWS first, then convert each chunk to numeric
-      return await this.generateChunkedQR(jws)
+      return await this.generateChunkedQR(jws, format)
     } else {
       // Convert JWS to SMART Health Cards numeric format for single QR
       const numericData = this.encodeJWSToNumeric(jws)
-      return await this.generateSingleQR(numericData)
+      return await this.generateSingleQR(numericData, format)
     }
   }
 
@@ -123,8 +143,8 @@ export class QRCodeGenerator {
       throw new QRCodeError('No QR code data provided')
     }
 
-    // Handle single QR code
-    if (qrCodeData.length === 1) {
+    // Handle single QR code (a lone chunk of a chunked set is reported as missing chunks)
+    if (qrCodeData.length === 1 && !/^shc:\/\d+\/\d+\//.test(qrCodeData[0] ?? '')) {
       const firstQRData = qrCodeData[0]
       if (!firstQRData) {
         throw new QRCodeError('QR code data is undefined')
@@ -168,7 +188,10 @@ export class QRCodeGenerator {
   /**
    * Generates a single QR code with multi-segment encoding per SMART Health Cards spec
    */
-  private async generateSingleQR(numericData: string): Promise<string[]> {
+  private async generateSingleQR<F extends QROutputFormat>(
+    numericData: string,
+    format: F
+  ): Promise<QROutputTypes[F][]> {
     // Create multi-segment encoding per SMART Health Cards specification:
     // Segment 1: Bytes mode for "shc:/" prefix
     // Segment 2: Numeric mode for JWS numeric data
@@ -177,10 +200,8 @@ export class QRCodeGenerator {
       { data: numericData, mode: 'numeric' as const },
     ]
 
-    // Generate QR code as data URL using the qrcode library
-    const qrDataUrl: string = await QRCode.toDataURL(segments, this.config.encodeOptions)
-
-    return [qrDataUrl]
+    // Render the QR code in the requested format using the qrcode library
+    return [await renderQR(segments, this.config.encodeOptions, format)]
   }
 
   /**
@@ -220,11 +241,14 @@ export class QRCodeGenerator {
   /**
    * Generates chunked QR codes with multi-segment encoding (deprecated but supported for compatibility)
    */
-  private async generateChunkedQR(jws: string): Promise<string[]> {
+  private async generateChunkedQR<F extends QROutputFormat>(
+    jws: string,
+    format: F
+  ): Promise<QROutputTypes[F][]> {
     // Use the public chunking method to split JWS
     const jwsChunks = this.chunkJWS(jws)
     const totalChunks = jwsChunks.length
-    const qrDataUrls: string[] = []
+    const qrCodes: QROutputTypes[F][] = []
 
     // Generate QR code for each chunk
     for (let i = 0; i < jwsChunks.length; i++) {
@@ -241,12 +265,11 @@ export class QRCodeGenerator {
         { data: numericData, mode: 'numeric' as const },
       ]
 
-      // Generate QR code as data URL using the qrcode library
-      const qrDataUrl: string = await QRCode.toDataURL(segments, this.config.encodeOptions)
-      qrDataUrls.push(qrDataUrl)
+      // Render the QR code in the requested format using the qrcode library
+      qrCodes.push(await renderQR(segments, this.config.encodeOptions, format))
     }
 
-    return qrDataUrls
+    return qrCodes
   }
 
   /**
@@ -265,48 +288,18 @@ export class QRCodeGenerator {
   }
 
   /**
-   * Decodes chunked QR codes and reconstructs the original JWS
-   * @throws {@link QRCodeError} When chunk indices/totals are invalid or parts are missing
+   * Decodes chunked QR codes and reconstructs the original JWS.
+   * Chunks scanned more than once with the same data are counted once.
+   * @throws {@link QRCodeError} When chunk indices/totals are invalid, when chunks with the same
+   *  index have different data, or when parts are missing
    */
   private decodeChunkedQR(qrDataArray: string[]): string {
-    const chunks: { index: number; data: string }[] = []
+    const chunks = new Map<number, string>()
     let totalChunks = 0
 
     // Parse each QR code chunk
     for (const qrData of qrDataArray) {
-      const prefix = 'shc:/'
-      if (!qrData.startsWith(prefix)) {
-        throw new QRCodeError(`Invalid chunked QR code format. Expected '${prefix}' prefix.`)
-      }
-
-      const content = qrData.substring(prefix.length)
-      const parts = content.split('/')
-
-      if (parts.length !== 3) {
-        throw new QRCodeError(
-          'Invalid chunked QR code format. Expected format: shc:/INDEX/TOTAL/DATA'
-        )
-      }
-
-      const chunkIndexStr = parts[0]
-      const chunkTotalStr = parts[1]
-      const chunkData = parts[2]
-
-      if (!chunkIndexStr || !chunkTotalStr || !chunkData) {
-        throw new QRCodeError('Invalid chunked QR code format: missing parts')
-      }
-
-      const chunkIndex = parseInt(chunkIndexStr)
-      const chunkTotal = parseInt(chunkTotalStr)
-
-      if (
-        Number.isNaN(chunkIndex) ||
-        Number.isNaN(chunkTotal) ||
-        chunkIndex < 1 ||
-        chunkIndex > chunkTotal
-      ) {
-        throw new QRCodeError('Invalid chunk index or total in QR code')
-      }
+      const { index: chunkIndex, total: chunkTotal, data: chunkData } = parseQRChunk(qrData)
 
       if (totalChunks === 0) {
         totalChunks = chunkTotal
@@ -314,17 +307,25 @@ export class QRCodeGenerator {
         throw new QRCodeError('Inconsistent total chunk count across QR codes')
       }
 
-      chunks.push({ index: chunkIndex, data: chunkData })
+      const existing = chunks.get(chunkIndex)
+      if (existing !== undefined && existing !== chunkData) {
+        throw new QRCodeError(
+          `Conflicting data received for chunk ${chunkIndex} of ${chunkTotal}; QR codes of different health cards were scanned`
+        )
+      }
+      chunks.set(chunkIndex, chunkData)
     }
 
     // Validate we have all chunks
-    if (chunks.length !== totalChunks) {
-      throw new QRCodeError(`Missing chunks. Expected ${totalChunks}, got ${chunks.length}`)
+    if (chunks.size !== totalChunks) {
+      throw new QRCodeError(`Missing chunks. Expected ${totalChunks}, got ${chunks.size}`)
     }
 
     // Sort chunks by index and reconstruct numeric data
-    chunks.sort((a, b) => a.index - b.index)
-    const numericData = chunks.map(chunk => chunk.data).join('')
+    const numericData = [...chunks.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, data]) => data)
+      .join('')
 
     return this.decodeNumericToJWS(numericData)
   }
@@ -367,3 +368,46 @@ export class QRCodeGenerator {
       .join('')
   }
 }
+
+/**
+ * Parses a chunked QR code string (`shc:/INDEX/TOTAL/DATA`).
+ *
+ * @throws {@link QRCodeError} When the prefix, parts or index/total are invalid
+ * @internal
+ */
+export function parseQRChunk(qrData: string): { index: number; total: number; data: string } {
+  const prefix = 'shc:/'
+  if (!qrData.startsWith(prefix)) {
+    throw new QRCodeError(`Invalid chunked QR code format. Expected '${prefix}' prefix.`)
+  }
+
+  const content = qrData.substring(prefix.length)
+  const parts = content.split('/')
+
+  if (parts.length !== 3) {
+    throw new QRCodeError('Invalid chunked QR code format. Expected format: shc:/INDEX/TOTAL/DATA')
+  }
+
+  const chunkIndexStr = parts[0]
+  const chunkTotalStr = parts[1]
+  const chunkData = parts[2]
+
+  if (!chunkIndexStr || !chunkTotalStr || !chunkData) {
+    throw new QRCodeError('Invalid chunked QR code format: missing parts')
+  }
+
+  // Only canonical decimal numbers, so that one chunk cannot be read under two spellings ('1', '01', '1x')
+  const chunkIndex = /^[1-9]\d*$/.test(chunkIndexStr) ? parseInt(chunkIndexStr, 10) : Number.NaN
+  const chunkTotal = /^[1-9]\d*$/.test(chunkTotalStr) ? parseInt(chunkTotalStr, 10) : Number.NaN
+
+  if (
+    Number.isNaN(chunkIndex) ||
+    Number.isNaN(chunkTotal) ||
+    chunkIndex < 1 ||
+    chunkIndex > chunkTotal
+  ) {
+    throw new QRCodeError('Invalid chunk index or total in QR code')
+  }
+
+  return { index: chunkIndex, total: chunkTotal, data: chunkData }
+}
@@ -0,0 +1,310 @@
+// QR code scanning from raster images
+
+import jsQR, { type QRCode } from 'jsqr'
+import { QRCodeError } from '../errors.js'
+import type { QRImageData, QRImageDecoder, QRImageScannerParams, QRImageSource } from '../types.js'
+
+const DEFAULT_MAX_CODES_PER_IMAGE = 20
+
+/**
+ * Finds and decodes QR codes in raster images (PNG/JPEG bytes or RGBA pixels).
+ *
+ * An image may contain several QR codes, such as the chunks of a chunked SMART Health Card
+ * printed side by side: each decoded code is blanked out and the image is scanned again.
+ *
+ * Encoded bytes are decoded with the platform `createImageBitmap` and `OffscreenCanvas` APIs where
+ * available (browsers and web workers), and otherwise with the optional `pngjs` (PNG) and
+ * `jpeg-js` (JPEG) packages, loaded on first use. Provide an `imageDecoder` for other formats or
+ * image libraries.
+ *
+ * @example
+ * ```typescript
+ * // Node.js, with `pngjs` installed
+ * const scanner = new QRImageScanner();
+ * const contents = await scanner.scan(await readFile('card.png')); // ['shc:/5676295953265460346029254077...']
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class QRImageScanner {
+  private readonly imageDecoder: QRImageDecoder
+  private readonly maxCodesPerImage: number
+
+  /**
+   * Creates a new QRImageScanner instance.
+   *
+   * @param params - Optional scanner configuration. See {@link QRImageScannerParams}.
+   */
+  constructor(params: QRImageScannerParams = {}) {
+    this.imageDecoder = params.imageDecoder ?? decodeImage
+    this.maxCodesPerImage = Math.max(1, params.maxCodesPerImage ?? DEFAULT_MAX_CODES_PER_IMAGE)
+  }
+
+  /**
+   * Decodes every QR code found in an image.
+   *
+   * @param image - Encoded PNG/JPEG bytes, or decoded RGBA pixels such as a DOM `ImageData`
+   * @returns Text content of each QR code found, in detection order (empty when none is found)
+   * @throws {@link QRCodeError} When the image cannot be decoded or its pixel data is malformed
+   */
+  async scan(image: QRImageSource): Promise<string[]> {
+    const pixels = await this.toImageData(image)
+    const { width, height } = pixels
+
+    // Work on a copy, since found codes are blanked out before scanning again
+    const data = new Uint8ClampedArray(pixels.data)
+    const contents: string[] = []
+    while (contents.length < this.maxCodesPerImage) {
+      const code = jsQR(data, width, height)
+      if (!code) break
+      contents.push(code.data)
+      blankRegion(data, width, locatedRegion(code.location, width, height))
+    }
+
+    // jsQR may fail to locate codes placed next to each other, as their finder patterns get
+    // mixed up; scan each region separated by blank space on its own
+    for (const region of splitOnBlankSpace(data, width, { x0: 0, y0: 0, x1: width, y1: height })) {
+      if (contents.length >= this.maxCodesPerImage) break
+      const cropped = crop(data, width, region)
+      const code = jsQR(cropped.data, cropped.width, cropped.height)
+      if (code) contents.push(code.data)
+    }
+    return contents
+  }
+
+  private async toImageData(image: QRImageSource): Promise<QRImageData> {
+    let pixels: QRImageData
+    if (image instanceof Uint8Array || image instanceof ArrayBuffer) {
+      try {
+        pixels = await this.imageDecoder(new Uint8Array(image))
+      } catch (error) {
+        if (error instanceof QRCodeError) throw error
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        throw new QRCodeError(`Failed to decode image: ${errorMessage}`)
+      }
+    } else {
+      pixels = image
+    }
+
+    const { data, width, height } = pixels
+    if (
+      !Number.isInteger(width) ||
+      !Number.isInteger(height) ||
+      width <= 0 ||
+      height <= 0 ||
+      data.length !== width * height * 4
+    ) {
+      throw new QRCodeError(
+        `Invalid image data: expected ${width}x${height} RGBA pixels, got ${data.length} bytes`
+      )
+    }
+    return pixels
+  }
+}
+
+/** Rectangular image region, from (x0, y0) included to (x1, y1) excluded */
+interface Region {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+/** Padding in pixels added around cropped regions, acting as the QR code quiet zone */
+const CROP_PADDING = 16
+
+/** Smallest region that may hold a QR code (version 1 has 21 modules of at least 1 pixel) */
+const MIN_REGION_SIZE = 21
+
+/**
+ * Returns the bounding box of a located QR code, plus a small margin.
+ */
+function locatedRegion(location: QRCode['location'], width: number, height: number): Region {
+  const corners = [
+    location.topLeftCorner,
+    location.topRightCorner,
+    location.bottomLeftCorner,
+    location.bottomRightCorner,
+  ]
+  const xs = corners.map(point => point.x)
+  const ys = corners.map(point => point.y)
+  const margin = Math.max(4, Math.round((Math.max(...xs) - Math.min(...xs)) * 0.05))
+  return {
+    x0: Math.max(0, Math.floor(Math.min(...xs)) - margin),
+    y0: Math.max(0, Math.floor(Math.min(...ys)) - margin),
+    x1: Math.min(width, Math.ceil(Math.max(...xs)) + margin + 1),
+    y1: Math.min(height, Math.ceil(Math.max(...ys)) + margin + 1),
+  }
+}
+
+/**
+ * Paints a region of the image white.
+ */
+function blankRegion(data: Uint8ClampedArray, width: number, region: Region): void {
+  for (let y = region.y0; y < region.y1; y++) {
+    data.fill(255, (y * width + region.x0) * 4, (y * width + region.x1) * 4)
+  }
+}
+
+function isDark(data: Uint8ClampedArray, offset: number): boolean {
+  return (data[offset] ?? 255) + (data[offset + 1] ?? 255) + (data[offset + 2] ?? 255) < 384
+}
+
+/**
+ * Recursively splits a region along full-width or full-height bands of blank space
+ * (XY-cut), returning the regions holding content that cannot be split further.
+ */
+function splitOnBlankSpace(
+  data: Uint8ClampedArray,
+  width: number,
+  region: Region,
+  depth = 0
+): Region[] {
+  const columns = new Array<boolean>(region.x1 - region.x0).fill(false)
+  const rows = new Array<boolean>(region.y1 - region.y0).fill(false)
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) {
+      if (isDark(data, (y * width + x) * 4)) {
+        columns[x - region.x0] = true
+        rows[y - region.y0] = true
+      }
+    }
+  }
+
+  const columnRuns = contentRuns(columns)
+  const rowRuns = contentRuns(rows)
+  const firstColumn = columnRuns[0]
+  const lastColumn = columnRuns[columnRuns.length - 1]
+  const firstRow = rowRuns[0]
+  const lastRow = rowRuns[rowRuns.length - 1]
+  if (!firstColumn || !lastColumn || !firstRow || !lastRow) return []
+
+  // Trim the region to its content
+  const bounds: Region = {
+    x0: region.x0 + firstColumn[0],
+    y0: region.y0 + firstRow[0],
+    x1: region.x0 + lastColumn[1],
+    y1: region.y0 + lastRow[1],
+  }
+  if (bounds.x1 - bounds.x0 < MIN_REGION_SIZE || bounds.y1 - bounds.y0 < MIN_REGION_SIZE) {
+    return []
+  }
+  if (depth >= 8 || (columnRuns.length === 1 && rowRuns.length === 1)) {
+    return [bounds]
+  }
+
+  const parts =
+    columnRuns.length > 1
+      ? columnRuns.map(([start, end]) => ({
+          ...bounds,
+          x0: region.x0 + start,
+          x1: region.x0 + end,
+        }))
+      : rowRuns.map(([start, end]) => ({ ...bounds, y0: region.y0 + start, y1: region.y0 + end }))
+  return parts.flatMap(part => splitOnBlankSpace(data, width, part, depth + 1))
+}
+
+/**
+ * Returns the [start, end) ranges of content, merging those separated by blank gaps
+ * narrower than 1% of the total length (or 4 pixels)
+ */
+function contentRuns(hasContent: boolean[]): Array<[number, number]> {
+  const minGap = Math.max(4, Math.round(hasContent.length * 0.01))
+  const runs: Array<[number, number]> = []
+  let start = -1
+  let lastContent = -1
+  hasContent.forEach((content, index) => {
+    if (!content) return
+    if (start === -1) {
+      start = index
+    } else if (index - lastContent - 1 >= minGap) {
+      runs.push([start, lastContent + 1])
+      start = index
+    }
+    lastContent = index
+  })
+  if (start !== -1) runs.push([start, lastContent + 1])
+  return runs
+}
+
+/**
+ * Copies a region of the image into a new image, surrounded by white padding.
+ */
+function crop(
+  data: Uint8ClampedArray,
+  width: number,
+  region: Region
+): { data: Uint8ClampedArray; width: number; height: number } {
+  const croppedWidth = region.x1 - region.x0 + CROP_PADDING * 2
+  const croppedHeight = region.y1 - region.y0 + CROP_PADDING * 2
+  const cropped = new Uint8ClampedArray(croppedWidth * croppedHeight * 4).fill(255)
+  for (let y = region.y0; y < region.y1; y++) {
+    cropped.set(
+      data.subarray((y * width + region.x0) * 4, (y * width + region.x1) * 4),
+      ((y - region.y0 + CROP_PADDING) * croppedWidth + CROP_PADDING) * 4
+    )
+  }
+  return { data: cropped, width: croppedWidth, height: croppedHeight }
+}
+
+/** Leading bytes identifying PNG and JPEG files */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff]
+
+/**
+ * Default image decoder: the platform canvas APIs where available, else `pngjs` or `jpeg-js`.
+ */
+async function decodeImage(bytes: Uint8Array): Promise<QRImageData> {
+  if (typeof createImageBitmap === 'function' && typeof OffscreenCanvas === 'function') {
+    return await decodeWithPlatformCanvas(bytes)
+  }
+  if (PNG_SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+    const { PNG } = await importOptional<typeof import('pngjs')>('pngjs', 'PNG')
+    const png = PNG.sync.read(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength))
+    return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height }
+  }
+  if (JPEG_SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+    const jpeg = await importOptional<typeof import('jpeg-js')>('jpeg-js', 'JPEG')
+    const { data, width, height } = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true })
+    return { data: new Uint8ClampedArray(data), width, height }
+  }
+  throw new QRCodeError(
+    'Unsupported image format: only PNG and JPEG bytes can be decoded without an imageDecoder'
+  )
+}
+
+/**
+ * Loads an optional peer dependency used to decode an image format
+ * @throws {@link QRCodeError} When the package is not installed
+ */
+async function importOptional<T>(name: string, format: string): Promise<T> {
+  try {
+    // A variable specifier keeps browser bundlers from resolving packages only used in Node.js
+    return (await import(/* @vite-ignore */ name)) as T
+  } catch {
+    throw new QRCodeError(
+      `Decoding ${format} images requires the optional '${name}' package; install it or provide an imageDecoder`
+    )
+  }
+}
+
+/**
+ * Image decoder relying on the `createImageBitmap` and `OffscreenCanvas` APIs
+ * of browsers and web workers.
+ */
+async function decodeWithPlatformCanvas(bytes: Uint8Array): Promise<QRImageData> {
+  const bitmap = await createImageBitmap(new Blob([bytes]))
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new QRCodeError('Failed to decode image: 2D canvas context is not available')
+    }
+    context.drawImage(bitmap, 0, 0)
+    return context.getImageData(0, 0, bitmap.width, bitmap.height)
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,123 @@
+// QR code rendering in the supported output formats
+
+import QRCode from 'qrcode'
+import { QRCodeError } from '../errors.js'
+import type { QROutputFormat, QROutputTypes } from '../types.js'
+
+/** QR code content: text, or segments for multi-segment encoding */
+type QRContent = Parameters<typeof QRCode.create>[0]
+
+/** Encoding and rendering options of the qrcode library */
+type QRRenderOptions = QRCode.QRCodeOptions & QRCode.QRCodeRenderersOptions
+
+/** Default quiet zone of the qrcode library, in modules */
+const DEFAULT_MARGIN = 4
+
+/** ANSI escape sequences drawing a module as two spaces on a black or white background */
+const ANSI_DARK = '\x1b[40m  \x1b[0m'
+const ANSI_LIGHT = '\x1b[47m  \x1b[0m'
+
+/**
+ * Renders a QR code in an output format.
+ * Text formats are rendered from the module matrix, so that they are available in browsers too.
+ *
+ * @param content - Text or segments to encode
+ * @param options - Encoding and rendering options
+ * @param format - Output format
+ * @returns The rendered QR code
+ * @throws {@link QRCodeError} When the format is not supported
+ * @internal
+ */
+export async function renderQR<F extends QROutputFormat>(
+  content: QRContent,
+  options: QRRenderOptions,
+  format: F
+): Promise<QROutputTypes[F]> {
+  const margin = options.margin ?? DEFAULT_MARGIN
+  let output: QROutputTypes[QROutputFormat]
+  switch (format) {
+    case 'dataURL':
+      output = await QRCode.toDataURL(content, options)
+      break
+    case 'png':
+      output = dataURLToBytes(await QRCode.toDataURL(content, { ...options, type: 'image/png' }))
+      break
+    case 'svg':
+      output = await QRCode.toString(content, { ...options, type: 'svg' })
+      break
+    case 'utf8':
+      output = renderUTF8(withMargin(toMatrix(content, options), margin))
+      break
+    case 'terminal':
+      output = renderTerminal(withMargin(toMatrix(content, options), margin))
+      break
+    case 'matrix':
+      output = toMatrix(content, options)
+      break
+    default:
+      throw new QRCodeError(`Unsupported QR output format: ${format}`)
+  }
+  return output as QROutputTypes[F]
+}
+
+/**
+ * Encodes content into its module matrix, row by row, `true` for dark modules
+ */
+function toMatrix(content: QRContent, options: QRRenderOptions): boolean[][] {
+  const { modules } = QRCode.create(content, options)
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => Boolean(modules.get(row, col)))
+  )
+}
+
+/**
+ * Surrounds a module matrix with a quiet zone of light modules
+ */
+function withMargin(matrix: boolean[][], margin: number): boolean[][] {
+  const width = matrix.length + margin * 2
+  const lightRow = () => new Array<boolean>(width).fill(false)
+  const padding = new Array<boolean>(margin).fill(false)
+  return [
+    ...Array.from({ length: margin }, lightRow),
+    ...matrix.map(row => [...padding, ...row, ...padding]),
+    ...Array.from({ length: margin }, lightRow),
+  ]
+}
+
+/**
+ * Draws two module rows per line with Unicode block characters.
+ * Light modules are filled, so that the code (and its quiet zone) reads correctly on the dark
+ * background of most terminals and log viewers.
+ */
+function renderUTF8(matrix: boolean[][]): string {
+  const lines: string[] = []
+  for (let row = 0; row < matrix.length; row += 2) {
+    const top = matrix[row] ?? []
+    const bottom = matrix[row + 1] ?? []
+    lines.push(
+      top
+        .map((dark, col) => {
+          const darkBelow = bottom[col] ?? true
+          if (dark) return darkBelow ? ' ' : '▄'
+          return darkBelow ? '▀' : '█'
+        })
+        .join('')
+    )
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Draws each module with ANSI background colors, independently of the terminal color scheme
+ */
+function renderTerminal(matrix: boolean[][]): string {
+  return matrix.map(row => row.map(dark => (dark ? ANSI_DARK : ANSI_LIGHT)).join('')).join('\n')
+}
+
+/**
+ * Decodes the bytes of a base64 data URL
+ */
+function dataURLToBytes(dataURL: string): Uint8Array {
+  const binary = atob(dataURL.slice(dataURL.indexOf(',') + 1))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
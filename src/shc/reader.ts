@@ -1,20 +1,41 @@
 // SHCReader class
 import { importJWK } from 'jose'
+import { nowInSeconds, systemClock } from '../common/clock.js'
+import { LRUCacheStore } from './cache.js'
 import { Directory } from './directory.js'
 import {
+  CredentialValidationError,
   FileFormatError,
   QRCodeError,
   SHCError,
   SHCReaderConfigError,
   SHCRevokedError,
+  UntrustedIssuerError,
   VerificationError,
 } from './errors.js'
 import { FHIRBundleProcessor } from './fhir/bundle-processor.js'
+import { FHIRProfileValidator } from './fhir/profile-validator.js'
+import { DEFAULT_CACHE_TTL, fetchJSON } from './http.js'
 import { deriveKidFromPublicKey } from './jws/helpers.js'
 import { JWSProcessor } from './jws/jws-processor.js'
+import { ChunkedQRAssembler } from './qr/chunked-qr-assembler.js'
 import { QRCodeGenerator } from './qr/qr-code-generator.js'
+import { QRImageScanner } from './qr/qr-image-scanner.js'
 import { SHC } from './shc.js'
-import type { SHCReaderConfig, SHCReaderConfigParams, VerifiableCredential } from './types.js'
+import type {
+  CacheOptions,
+  FetchOptions,
+  FHIRBundle,
+  QRImageSource,
+  SHCFileEntryResult,
+  SHCJWT,
+  SHCReaderConfig,
+  SHCReaderConfigParams,
+  VerifiableCredential,
+  VerificationCheck,
+  VerificationCheckName,
+  VerificationReport,
+} from './types.js'
 import { VerifiableCredentialProcessor } from './vc.js'
 
 /**
@@ -51,7 +72,25 @@ export class SHCReader {
    * const readerAuto = new SHCReader({
    *   publicKey: null, // Will resolve from issuer's /.well-known/jwks.json
    * });
+   *
+   * // Accepting only issuers of a curated directory, without any network access
+   * const readerCurated = new SHCReader({
+   *   issuerDirectory: curatedDirectory,
+   *   requireDirectoryMembership: true,
+   *   allowJwksFallback: false,
+   * });
+   *
+   * // Using a custom fetch implementation with a timeout
+   * const readerProxied = new SHCReader({
+   *   fetch: proxiedFetch,
+   *   fetchTimeout: 5000,
+   * });
    * ```
+   *
+   * @throws {@link SHCReaderConfigError} When both `issuerDirectory` and `useVciDirectory` are set,
+   *  when `requireDirectoryMembership` is set without a directory, or when `allowJwksFallback` is
+   *  disabled without a public key or a directory to resolve keys from, or when `clockSkewTolerance`
+   *  is negative
    */
   constructor(config: SHCReaderConfigParams) {
     if (config.issuerDirectory && config.useVciDirectory) {
@@ -59,14 +98,43 @@ export class SHCReader {
         'SHCReader configuration error: Cannot specify both issuerDirectory and useVciDirectory'
       )
     }
+    if (config.clockSkewTolerance !== undefined && !(config.clockSkewTolerance >= 0)) {
+      throw new SHCReaderConfigError(
+        'SHCReader configuration error: clockSkewTolerance must be a non-negative number of seconds'
+      )
+    }
+    const hasDirectory = Boolean(config.issuerDirectory || config.useVciDirectory)
+    if (config.requireDirectoryMembership && !hasDirectory) {
+      throw new SHCReaderConfigError(
+        'SHCReader configuration error: requireDirectoryMembership requires issuerDirectory or useVciDirectory'
+      )
+    }
+    if (config.allowJwksFallback === false && !config.publicKey && !hasDirectory) {
+      throw new SHCReaderConfigError(
+        'SHCReader configuration error: publicKey, issuerDirectory or useVciDirectory is required when allowJwksFallback is false'
+      )
+    }
 
     this.config = {
       ...config,
       enableQROptimization: config.enableQROptimization ?? true,
       strictReferences: config.strictReferences ?? true,
       verifyExpiration: config.verifyExpiration ?? true,
+      rejectFutureNbf: config.rejectFutureNbf ?? false,
+      clock: config.clock ?? systemClock,
+      clockSkewTolerance: config.clockSkewTolerance ?? 0,
       issuerDirectory: config.issuerDirectory ?? null,
       useVciDirectory: config.useVciDirectory ?? false,
+      trustedIssuers: config.trustedIssuers ?? null,
+      requireDirectoryMembership: config.requireDirectoryMembership ?? false,
+      allowJwksFallback: config.allowJwksFallback ?? true,
+      cache:
+        config.cache === undefined
+          ? new LRUCacheStore({ clock: config.clock ?? systemClock })
+          : config.cache,
+      cacheTtl: config.cacheTtl ?? DEFAULT_CACHE_TTL,
+      profileValidation: config.profileValidation ?? null,
+      expectedTypes: config.expectedTypes ?? null,
     }
 
     this.bundleProcessor = new FHIRBundleProcessor()
@@ -77,18 +145,75 @@ export class SHCReader {
   /**
    * Read and verify a SMART Health Card from file content.
    *
+   * Only the first `verifiableCredential` entry is read; use {@link fromFileContentAll}
+   * for files carrying several health cards.
+   *
    * @param fileContent - File content as string or Blob from .smart-health-card files
    * @returns Promise resolving to verified SHC object
    * @throws {@link FileFormatError} If the file is not valid JSON or missing the `verifiableCredential` array
    * @throws {@link SignatureVerificationError} If JWS signature verification fails
    * @throws {@link ExpirationError} If the health card has expired
+   * @throws {@link NotYetValidError} If `rejectFutureNbf` is enabled and the health card is not valid yet
    * @throws {@link PayloadValidationError} If JWT payload validation fails
    * @throws {@link BundleValidationError} If FHIR Bundle validation fails
-   * @throws {@link CredentialValidationError} If verifiable credential validation fails
+   * @throws {@link ProfileValidationError} If `profileValidation` is set and the bundle does not conform
+   * @throws {@link CredentialValidationError} If verifiable credential validation fails,
+   *  or the card is missing one of the `expectedTypes`
    * @throws {@link JWSError} If JWS processing fails
    * @throws {@link VerificationError} For unexpected errors during verification or JWKS resolution (propagated from {@link fromJWS})
    */
   async fromFileContent(fileContent: string | Blob): Promise<SHC> {
+    const [jws] = await this.parseFileContent(fileContent)
+
+    // Verify and return SHC object
+    return await this.fromJWS(jws)
+  }
+
+  /**
+   * Read and verify every SMART Health Card of a file.
+   *
+   * A .smart-health-card file may carry several JWS in its `verifiableCredential` array.
+   * Each entry is verified independently with {@link fromJWS}; an entry that fails verification
+   * does not prevent the others from being returned.
+   *
+   * @param fileContent - File content as string or Blob from .smart-health-card files
+   * @returns Promise resolving to one {@link SHCFileEntryResult} per entry, in file order
+   * @throws {@link FileFormatError} If the file is not valid JSON or missing the `verifiableCredential` array
+   *
+   * @example
+   * ```typescript
+   * const results = await reader.fromFileContentAll(fileContent);
+   * const healthCards = results.filter(result => result.ok).map(result => result.healthCard);
+   * for (const result of results.filter(result => !result.ok)) {
+   *   console.warn(`Card #${result.index} rejected: ${result.error.code}`);
+   * }
+   * ```
+   */
+  async fromFileContentAll(fileContent: string | Blob): Promise<SHCFileEntryResult[]> {
+    const entries = await this.parseFileContent(fileContent)
+
+    const results: SHCFileEntryResult[] = []
+    for (const [index, jws] of entries.entries()) {
+      try {
+        results.push({ index, jws, ok: true, healthCard: await this.fromJWS(jws) })
+      } catch (error) {
+        const shcError =
+          error instanceof SHCError
+            ? error
+            : new VerificationError(
+                `Failed to verify SMART Health Card: ${error instanceof Error ? error.message : String(error)}`
+              )
+        results.push({ index, jws, ok: false, error: shcError })
+      }
+    }
+    return results
+  }
+
+  /**
+   * Extracts the JWS entries of a .smart-health-card file.
+   * @throws {@link FileFormatError} If the file is not valid JSON or missing a non-empty `verifiableCredential` array
+   */
+  private async parseFileContent(fileContent: string | Blob): Promise<[string, ...string[]]> {
     let contentString: string
 
     if (fileContent instanceof Blob) {
@@ -98,23 +223,18 @@ export class SHCReader {
       contentString = fileContent
     }
 
-    // Parse the JWS content
-    const contentToParse = contentString
-    let jws: string
-
     try {
       // Try to parse as JSON wrapper format first
-      const parsed = JSON.parse(contentToParse)
+      const parsed = JSON.parse(contentString)
 
       if (parsed.verifiableCredential && Array.isArray(parsed.verifiableCredential)) {
         // New JSON wrapper format
         if (parsed.verifiableCredential.length === 0) {
           throw new FileFormatError('File contains empty verifiableCredential array')
         }
-        jws = parsed.verifiableCredential[0]
-      } else {
-        throw new FileFormatError('File does not contain expected verifiableCredential array')
+        return parsed.verifiableCredential
       }
+      throw new FileFormatError('File does not contain expected verifiableCredential array')
     } catch (error) {
       if (error instanceof SHCError) {
         throw error
@@ -124,9 +244,6 @@ export class SHCReader {
         `Invalid file format - expected JSON with verifiableCredential array: ${errorMessage}`
       )
     }
-
-    // Verify and return SHC object
-    return await this.fromJWS(jws)
   }
 
   /**
@@ -136,84 +253,59 @@ export class SHCReader {
    * @returns Promise resolving to verified SHC object
    * @throws {@link SignatureVerificationError} If JWS signature verification fails
    * @throws {@link ExpirationError} If the health card has expired
+   * @throws {@link NotYetValidError} If `rejectFutureNbf` is enabled and the health card is not valid yet
    * @throws {@link PayloadValidationError} If JWT payload validation fails
    * @throws {@link BundleValidationError} If FHIR Bundle validation fails
-   * @throws {@link CredentialValidationError} If verifiable credential validation fails
+   * @throws {@link ProfileValidationError} If `profileValidation` is set and the bundle does not conform
+   * @throws {@link CredentialValidationError} If verifiable credential validation fails,
+   *  or the card is missing one of the `expectedTypes`
    * @throws {@link JWSError} If JWS processing fails
    * @throws {@link VerificationError} For unexpected errors during verification or JWKS resolution
    * @throws {@link SHCRevokedError} If the SMART Health Card has been revoked
+   * @throws {@link UntrustedIssuerError} If the issuer is rejected by the reader's trust policy
    */
   async fromJWS(jws: string): Promise<SHC> {
     try {
       // Check if a directory was provided to the reader
-      let directory: Directory | null = null
-      if (this.config.issuerDirectory) {
-        directory = this.config.issuerDirectory
-      } else if (this.config.useVciDirectory) {
-        directory = await Directory.fromVCI()
-      }
-
-      // First we try to get the public key from the config
-      let publicKeyToUse = this.config.publicKey
+      const directory = await this.resolveDirectory()
 
-      // If there's no public key in the config, resolve it from the directory
-      if (!publicKeyToUse && directory) {
-        try {
-          publicKeyToUse = await this.resolvePublicKeyFromDirectory(jws, directory)
-        } catch (error) {
-          console.warn(
-            `Failed to resolve public key from directory, will try to resolve from from issuer JWKS URL: ${error}`
-          )
-        }
+      // Enforce the trust policy before any key is fetched
+      if (this.hasIssuerPolicy()) {
+        const { payload } = await this.jwsProcessor.parseUnverified(jws)
+        this.assertTrustedIssuer(payload?.iss, directory)
       }
 
-      // If all else fails, resolve public key via issuer JWKS URL, based on JWS header/payload
-      if (!publicKeyToUse) {
-        publicKeyToUse = await this.resolvePublicKeyFromJWKS(jws)
-      }
+      // Resolve the public key from the config, the directory or the issuer JWKS URL
+      const { publicKey: publicKeyToUse } = await this.resolvePublicKey(jws, directory, error => {
+        console.warn(
+          `Failed to resolve public key from directory, will try to resolve from from issuer JWKS URL: ${error}`
+        )
+      })
 
       // Step 1: Verify JWS signature and extract payload (decompression handled automatically)
       const payload = await this.jwsProcessor.verify(jws, publicKeyToUse, {
         verifyExpiration: this.config.verifyExpiration,
+        rejectFutureNbf: this.config.rejectFutureNbf,
+        clock: this.config.clock,
+        clockSkewTolerance: this.config.clockSkewTolerance,
       })
 
       // Step 2: Validate the FHIR Bundle
       const originalBundle = payload.vc.credentialSubject.fhirBundle
-      this.bundleProcessor.validate(originalBundle)
+      this.validateBundle(originalBundle)
 
       // Step 3: Validate the VC
       const vc: VerifiableCredential = { vc: payload.vc }
-      this.vcProcessor.validate(vc)
+      this.validateCredential(vc)
 
       // Step 4: If there's a directory, we can check if the SHC
       // is revoked based on the issuer's CRLs.
-      if (directory) {
-        const issuer = directory.getIssuerByIss(payload.iss)
-        const vcRid = payload.vc.rid
-        if (issuer && vcRid) {
-          const kid = await deriveKidFromPublicKey(publicKeyToUse)
-          const crl = issuer.crls.get(kid)
-          // If the CRL contains the rid, the SHC might
-          // have been revoked
-          if (crl && crl.rids.has(vcRid)) {
-            const revocationTimestamp = crl.ridsTimestamps.get(vcRid)
-            if (!revocationTimestamp) {
-              // If the rid has no associated timestamp, it's revoked
-              throw new SHCRevokedError('This SHC has been revoked')
-            }
-            // If the SHC was issued before the revocation timestamp, it's revoked
-            const issuanceDateTimestamp = String(payload.nbf).split('.')[0]
-            if (BigInt(issuanceDateTimestamp!) <= BigInt(revocationTimestamp)) {
-              throw new SHCRevokedError('This SHC has been revoked')
-            }
-            // If it has been issued after the revocation timestamp,
-            // it's valid and no further action is required
-          }
-        }
+      if (directory && (await this.checkRevocation(payload, directory, publicKeyToUse))) {
+        throw new SHCRevokedError('This SHC has been revoked')
       }
 
-      // Step 5: Return the original FHIR Bundle
-      return new SHC(jws, originalBundle)
+      // Step 5: Return the original FHIR Bundle, with the issuer's directory record
+      return new SHC(jws, originalBundle, directory?.resolveIssuer(payload.iss))
     } catch (error) {
       if (error instanceof SHCError) {
         throw error
@@ -224,8 +316,461 @@ export class SHCReader {
   }
 
   /**
-   * Obtains the JWS header and payload without signature verification.
+   * Verify a SMART Health Card JWS without throwing, returning a report with one entry per check.
+   *
+   * Runs the same checks as {@link fromJWS}, but records the outcome of each one instead of
+   * stopping at the first error: decoding, key source, signature, `nbf`/`exp`, bundle validation,
+   * VC validation, issuer trust and revocation. Checks that depend on a failed one are reported
+   * as `skipped`. Non-fatal findings, such as a directory lookup that fell back to the issuer JWKS,
+   * are reported as `warning`.
+   *
+   * @param jws - JWS string to verify
+   * @returns Promise resolving to a {@link VerificationReport}. `healthCard` is set only when no check failed.
+   *
+   * @example
+   * ```typescript
+   * const report = await reader.verify(jws);
+   * if (!report.valid) {
+   *   for (const { check, status, code, message } of report.checks) {
+   *     console.log(`${check}: ${status} (${code}) ${message}`);
+   *   }
+   * }
+   * ```
+   */
+  async verify(jws: string): Promise<VerificationReport> {
+    const checks: VerificationCheck[] = []
+    const report: VerificationReport = { valid: false, checks, healthCard: null, keySource: null }
+    const skip = (names: VerificationCheckName[], message: string) => {
+      for (const check of names) {
+        checks.push({ check, status: 'skipped', code: 'SKIPPED', message })
+      }
+    }
+
+    // Decode
+    try {
+      const { header, payload } = await this.jwsProcessor.parseUnverified(jws)
+      if (typeof payload?.iss === 'string') report.iss = payload.iss
+      if (typeof header.kid === 'string') report.kid = header.kid
+      checks.push({ check: 'decode', status: 'passed', code: 'DECODED', message: 'JWS decoded' })
+    } catch (error) {
+      checks.push(this.failedCheck('decode', error))
+      skip(
+        ['keySource', 'signature', 'timing', 'bundle', 'credential', 'issuerTrust', 'revocation'],
+        'Skipped because the JWS could not be decoded'
+      )
+      return report
+    }
+
+    const directoryErrors: unknown[] = []
+    let directory: Directory | null = null
+    try {
+      directory = await this.resolveDirectory()
+      const issuer = report.iss ? directory?.resolveIssuer(report.iss) : undefined
+      if (issuer) report.issuer = issuer
+    } catch (error) {
+      directoryErrors.push(error)
+    }
+
+    // Trust policy, enforced before any key is fetched
+    if (this.hasIssuerPolicy()) {
+      try {
+        this.assertTrustedIssuer(report.iss, directory)
+      } catch (error) {
+        checks.push(this.failedCheck('issuerTrust', error))
+        skip(
+          ['keySource', 'signature', 'timing', 'bundle', 'credential', 'revocation'],
+          'Skipped because the issuer is not trusted'
+        )
+        return report
+      }
+    }
+
+    // Key source
+    // Directory load failures are reported by the issuerTrust check
+    let publicKey: CryptoKey | Uint8Array | string | JsonWebKey
+    try {
+      let keyLookupError: unknown
+      const resolved = await this.resolvePublicKey(jws, directory, error => {
+        keyLookupError = error
+      })
+      publicKey = resolved.publicKey
+      report.keySource = resolved.source
+      const code = `KEY_FROM_${resolved.source.toUpperCase()}`
+      if (resolved.source === 'jwks' && keyLookupError !== undefined) {
+        checks.push({
+          check: 'keySource',
+          status: 'warning',
+          code,
+          message: `Key resolved from the issuer JWKS after the directory lookup failed: ${this.errorMessage(keyLookupError)}`,
+        })
+      } else {
+        checks.push({
+          check: 'keySource',
+          status: 'passed',
+          code,
+          message: {
+            config: 'Key taken from the reader configuration',
+            directory: 'Key resolved from the issuer directory',
+            jwks: 'Key resolved from the issuer JWKS',
+          }[resolved.source],
+        })
+      }
+    } catch (error) {
+      checks.push(this.failedCheck('keySource', error))
+      skip(
+        ['signature', 'timing', 'bundle', 'credential', 'issuerTrust', 'revocation'],
+        'Skipped because no verification key could be resolved'
+      )
+      return report
+    }
+
+    // Signature (expiration is reported separately below)
+    let payload: SHCJWT
+    try {
+      payload = await this.jwsProcessor.verify(jws, publicKey, { verifyExpiration: false })
+      checks.push({
+        check: 'signature',
+        status: 'passed',
+        code: 'SIGNATURE_VALID',
+        message: 'JWS signature is valid',
+      })
+    } catch (error) {
+      checks.push(this.failedCheck('signature', error))
+      skip(
+        ['timing', 'bundle', 'credential', 'issuerTrust', 'revocation'],
+        'Skipped because the signature could not be verified'
+      )
+      return report
+    }
+
+    // Timing
+    const nowSeconds = nowInSeconds(this.config.clock)
+    const tolerance = this.config.clockSkewTolerance
+    if (typeof payload.exp === 'number' && payload.exp + tolerance < nowSeconds) {
+      checks.push({
+        check: 'timing',
+        status: this.config.verifyExpiration ? 'failed' : 'warning',
+        code: 'EXPIRED',
+        message: `SMART Health Card expired at ${new Date(payload.exp * 1000).toISOString()}`,
+      })
+    } else if (payload.nbf - tolerance > nowSeconds) {
+      checks.push({
+        check: 'timing',
+        status: this.config.rejectFutureNbf ? 'failed' : 'warning',
+        code: 'NOT_YET_VALID',
+        message: `SMART Health Card is not valid before ${new Date(payload.nbf * 1000).toISOString()}`,
+      })
+    } else {
+      checks.push({
+        check: 'timing',
+        status: 'passed',
+        code: 'VALID_PERIOD',
+        message: 'SMART Health Card is within its validity period',
+      })
+    }
+
+    // Bundle
+    const originalBundle = payload.vc.credentialSubject.fhirBundle
+    try {
+      this.validateBundle(originalBundle)
+      checks.push({
+        check: 'bundle',
+        status: 'passed',
+        code: 'BUNDLE_VALID',
+        message: this.config.profileValidation
+          ? 'FHIR Bundle is valid and conforms to the SMART Health Cards profile'
+          : 'FHIR Bundle is valid',
+      })
+    } catch (error) {
+      checks.push(this.failedCheck('bundle', error))
+    }
+
+    // Credential
+    try {
+      this.validateCredential({ vc: payload.vc })
+      checks.push({
+        check: 'credential',
+        status: 'passed',
+        code: 'CREDENTIAL_VALID',
+        message: 'Verifiable Credential is valid',
+      })
+    } catch (error) {
+      checks.push(this.failedCheck('credential', error))
+    }
+
+    // Issuer trust
+    checks.push(this.issuerTrustCheck(payload.iss, report.keySource, directory, directoryErrors))
+
+    // Revocation
+    try {
+      const revoked =
+        directory && payload.vc.rid
+          ? await this.checkRevocation(payload, directory, publicKey)
+          : null
+      if (revoked) {
+        checks.push(
+          this.failedCheck('revocation', new SHCRevokedError('This SHC has been revoked'))
+        )
+      } else if (revoked === false) {
+        checks.push({
+          check: 'revocation',
+          status: 'passed',
+          code: 'NOT_REVOKED',
+          message: 'SMART Health Card is not revoked',
+        })
+      } else {
+        const [code, message] = !payload.vc.rid
+          ? ['NO_RID', 'SMART Health Card has no revocation identifier']
+          : !directory
+            ? ['NO_DIRECTORY', 'No issuer directory is available to check revocation']
+            : ['NO_CRL', 'No revocation list is available for the issuer key']
+        checks.push({ check: 'revocation', status: 'skipped', code, message })
+      }
+    } catch (error) {
+      checks.push(this.failedCheck('revocation', error))
+    }
+
+    report.valid = checks.every(check => check.status !== 'failed')
+    if (report.valid) {
+      report.healthCard = new SHC(jws, originalBundle, report.issuer)
+    }
+    return report
+  }
+
+  /**
+   * Validates a card's FHIR Bundle, against the configured profile if any
+   * @throws {@link BundleValidationError} or {@link ProfileValidationError} when invalid
+   */
+  private validateBundle(bundle: FHIRBundle): void {
+    this.bundleProcessor.validate(bundle)
+    if (this.config.profileValidation) {
+      new FHIRProfileValidator().assertValid(bundle, this.config.profileValidation)
+    }
+  }
+
+  /**
+   * Validates a card's VC, and that it has the expected types if any
+   * @throws {@link CredentialValidationError} when invalid or missing an expected type
+   */
+  private validateCredential(vc: VerifiableCredential): void {
+    this.vcProcessor.validate(vc)
+    const missing = (this.config.expectedTypes ?? []).filter(type => !vc.vc.type.includes(type))
+    if (missing.length > 0) {
+      throw new CredentialValidationError(
+        `SMART Health Card is missing the expected VC type(s): ${missing.join(', ')}`
+      )
+    }
+  }
+
+  /**
+   * Returns the directory configured for the reader, fetching the VCI snapshot if requested.
+   */
+  private async resolveDirectory(): Promise<Directory | null> {
+    if (this.config.issuerDirectory) {
+      return this.config.issuerDirectory
+    }
+    if (this.config.useVciDirectory) {
+      return await Directory.fromVCI(this.fetchOptions())
+    }
+    return null
+  }
+
+  /**
+   * Resolves the verification key from the config, then the directory, then the issuer JWKS URL.
+   * `onDirectoryError` is called when the directory lookup fails, before falling back to the JWKS.
    * @throws {@link VerificationError} when the key cannot be resolved
+   * @throws {@link UntrustedIssuerError} when the key is not configured nor in the directory and JWKS fallback is disabled
+   */
+  private async resolvePublicKey(
+    jws: string,
+    directory: Directory | null,
+    onDirectoryError: (error: unknown) => void
+  ): Promise<{
+    publicKey: CryptoKey | Uint8Array | string | JsonWebKey
+    source: 'config' | 'directory' | 'jwks'
+  }> {
+    // First we try to get the public key from the config
+    if (this.config.publicKey) {
+      return { publicKey: this.config.publicKey, source: 'config' }
+    }
+
+    // If there's no public key in the config, resolve it from the directory
+    if (directory) {
+      try {
+        return {
+          publicKey: await this.resolvePublicKeyFromDirectory(jws, directory),
+          source: 'directory',
+        }
+      } catch (error) {
+        if (!this.config.allowJwksFallback) {
+          const message = error instanceof Error ? error.message : String(error)
+          throw new UntrustedIssuerError(
+            `No trusted key found for this SMART Health Card and JWKS fallback is disabled: ${message}`
+          )
+        }
+        onDirectoryError(error)
+      }
+    }
+
+    if (!this.config.allowJwksFallback) {
+      throw new UntrustedIssuerError(
+        'No trusted key found for this SMART Health Card and JWKS fallback is disabled'
+      )
+    }
+
+    // If all else fails, resolve public key via issuer JWKS URL, based on JWS header/payload
+    return { publicKey: await this.resolvePublicKeyFromJWKS(jws), source: 'jwks' }
+  }
+
+  /**
+   * Checks the card against the directory CRL of the key that signed it.
+   * @returns `true` if revoked, `false` if not, `null` if no CRL applies
+   */
+  private async checkRevocation(
+    payload: SHCJWT,
+    directory: Directory,
+    publicKey: CryptoKey | Uint8Array | string | JsonWebKey
+  ): Promise<boolean | null> {
+    const issuer = directory.getIssuerByIss(payload.iss)
+    const vcRid = payload.vc.rid
+    if (!issuer || !vcRid) {
+      return null
+    }
+    const kid = await deriveKidFromPublicKey(publicKey)
+    // Keys of aliased issuers may be published by their canonical issuer
+    const crl = issuer.crls.get(kid) ?? directory.resolveIssuer(payload.iss)?.crls.get(kid)
+    if (!crl) {
+      return null
+    }
+    // If the CRL contains the rid, the SHC might have been revoked
+    if (!crl.rids.has(vcRid)) {
+      return false
+    }
+    const revocationTimestamp = crl.ridsTimestamps.get(vcRid)
+    if (!revocationTimestamp) {
+      // If the rid has no associated timestamp, it's revoked
+      return true
+    }
+    // If the SHC was issued before the revocation timestamp, it's revoked.
+    // If it has been issued after the revocation timestamp, it's valid.
+    return BigInt(Math.trunc(payload.nbf)) <= BigInt(revocationTimestamp)
+  }
+
+  /**
+   * Whether the reader restricts which issuers it accepts
+   */
+  private hasIssuerPolicy(): boolean {
+    return this.config.trustedIssuers !== null || this.config.requireDirectoryMembership
+  }
+
+  /**
+   * Enforces `trustedIssuers` and `requireDirectoryMembership` on an (unverified) `iss`
+   * @throws {@link UntrustedIssuerError} when the issuer is not accepted
+   */
+  private assertTrustedIssuer(iss: unknown, directory: Directory | null): void {
+    if (!iss || typeof iss !== 'string') {
+      throw new UntrustedIssuerError("Cannot check issuer trust: missing 'iss' in payload")
+    }
+    const { trustedIssuers, requireDirectoryMembership } = this.config
+    // Aliased issuers are trusted when their canonical issuer is
+    const candidates = new Set([iss, directory?.resolveIssuer(iss)?.iss ?? iss])
+    if (
+      trustedIssuers &&
+      !trustedIssuers.some(trusted =>
+        [...candidates].some(candidate =>
+          // Copy RegExps so that global/sticky flags don't carry lastIndex between cards
+          typeof trusted === 'string' ? trusted === candidate : new RegExp(trusted).test(candidate)
+        )
+      )
+    ) {
+      throw new UntrustedIssuerError(`Issuer ${iss} is not in the list of trusted issuers`)
+    }
+    if (requireDirectoryMembership && !directory?.getIssuerByIss(iss)) {
+      throw new UntrustedIssuerError(`Issuer ${iss} is not listed in the issuer directory`)
+    }
+  }
+
+  /**
+   * Builds the `issuerTrust` entry of a verification report
+   */
+  private issuerTrustCheck(
+    iss: string,
+    keySource: VerificationReport['keySource'],
+    directory: Directory | null,
+    directoryErrors: unknown[]
+  ): VerificationCheck {
+    if (directoryErrors.length > 0) {
+      return {
+        check: 'issuerTrust',
+        status: 'warning',
+        code: 'DIRECTORY_UNAVAILABLE',
+        message: `Issuer directory could not be loaded: ${this.errorMessage(directoryErrors[0])}`,
+      }
+    }
+    if (keySource === 'config') {
+      return {
+        check: 'issuerTrust',
+        status: 'passed',
+        code: 'KEY_CONFIGURED',
+        message: 'Card is signed with the key configured in the reader',
+      }
+    }
+    const issuer = directory?.resolveIssuer(iss)
+    if (issuer) {
+      return {
+        check: 'issuerTrust',
+        status: 'passed',
+        code: 'ISSUER_IN_DIRECTORY',
+        message:
+          issuer.iss === iss
+            ? `Issuer ${iss} is listed in the issuer directory`
+            : `Issuer ${iss} is listed in the issuer directory as an alias of ${issuer.iss}`,
+      }
+    }
+    if (this.config.trustedIssuers) {
+      return {
+        check: 'issuerTrust',
+        status: 'passed',
+        code: 'ISSUER_ALLOWED',
+        message: `Issuer ${iss} is in the list of trusted issuers`,
+      }
+    }
+    if (directory) {
+      return {
+        check: 'issuerTrust',
+        status: 'warning',
+        code: 'ISSUER_NOT_IN_DIRECTORY',
+        message: `Issuer ${iss} is not listed in the issuer directory`,
+      }
+    }
+    return {
+      check: 'issuerTrust',
+      status: 'warning',
+      code: 'NO_DIRECTORY',
+      message: `Issuer ${iss} was not checked against an issuer directory`,
+    }
+  }
+
+  /**
+   * Builds a `failed` report entry from an error, using the {@link SHCError} code when available
+   */
+  private failedCheck(check: VerificationCheckName, error: unknown): VerificationCheck {
+    return {
+      check,
+      status: 'failed',
+      code: error instanceof SHCError ? error.code : 'VERIFICATION_ERROR',
+      message: this.errorMessage(error),
+    }
+  }
+
+  /** Extracts a message from an unknown error */
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+  }
+
+  /**
+   * Obtains the issuer and key ID of a JWS without signature verification.
+   * @throws {@link VerificationError} when the `iss` claim or the `kid` header is missing
    */
   private async parseUnverifiedJWS(jws: string) {
     // Decode without verification to obtain header.kid and payload.iss
@@ -238,7 +783,7 @@ export class SHCReader {
       throw new VerificationError("Cannot resolve JWK: missing 'kid' in JWS header")
     }
 
-    return { header, payload }
+    return { kid: header.kid, iss: payload.iss }
   }
 
   /**
@@ -250,15 +795,15 @@ export class SHCReader {
     directory: Directory
   ): Promise<CryptoKey | Uint8Array | string> {
     // Decode without verification to obtain header.kid and payload.iss
-    const { header, payload } = await this.parseUnverifiedJWS(jws)
-    const issuer = directory.getIssuerByIss(payload.iss)
+    const { kid, iss } = await this.parseUnverifiedJWS(jws)
+    const issuer = directory.getIssuerByIss(iss)
     if (!issuer) {
-      throw new VerificationError(`Issuer not found in directory for iss: ${payload.iss}`)
+      throw new VerificationError(`Issuer not found in directory for iss: ${iss}`)
     }
-    // From parseUnverifiedJWS we already ensured header.kid is present
-    const matching = issuer.keys.get(header.kid!)
+    // Keys of aliased issuers may be published by their canonical issuer
+    const matching = issuer.keys.get(kid) ?? directory.resolveIssuer(iss)?.keys.get(kid)
     if (!matching) {
-      throw new VerificationError(`No matching key found in issuer for kid '${header.kid}'`)
+      throw new VerificationError(`No matching key found in issuer for kid '${kid}'`)
     }
     return await importJWK(matching as JsonWebKey, 'ES256')
   }
@@ -270,27 +815,19 @@ export class SHCReader {
   private async resolvePublicKeyFromJWKS(jws: string): Promise<CryptoKey | Uint8Array | string> {
     try {
       // Decode without verification to obtain header.kid and payload.iss
-      const { header, payload } = await this.parseUnverifiedJWS(jws)
+      const { kid, iss } = await this.parseUnverifiedJWS(jws)
 
       // Build JWKS URL from issuer origin
-      const jwksUrl = `${payload.iss.replace(/\/$/, '')}/.well-known/jwks.json`
+      const jwksUrl = `${iss.replace(/\/$/, '')}/.well-known/jwks.json`
 
-      // Fetch JWKS
-      const response = await fetch(jwksUrl)
-      if (!response.ok) {
-        throw new VerificationError(
-          `Failed to fetch JWKS from issuer (${jwksUrl}): ${response.status} ${response.statusText}`
-        )
-      }
-      const jwks = (await response.json()) as { keys?: Array<Record<string, unknown>> }
-      if (!jwks || !Array.isArray(jwks.keys)) {
-        throw new VerificationError('Invalid JWKS format: missing keys array')
+      // Fetch JWKS, from the cache when possible
+      let matching = await this.findKeyInJWKS(jwksUrl, kid, false)
+      if (matching === undefined) {
+        // A cached JWKS may predate a key rotation: fetch it again before giving up
+        matching = await this.findKeyInJWKS(jwksUrl, kid, true)
       }
-
-      // Find matching key by kid
-      const matching = jwks.keys.find(k => (k as Record<string, unknown>).kid === header.kid)
       if (!matching) {
-        throw new VerificationError(`No matching key found in JWKS for kid '${header.kid}'`)
+        throw new VerificationError(`No matching key found in JWKS for kid '${kid}'`)
       }
 
       // Import JWK as CryptoKey
@@ -305,6 +842,46 @@ export class SHCReader {
     }
   }
 
+  /**
+   * Cache and network options for issuer metadata requests
+   */
+  private fetchOptions(): CacheOptions & FetchOptions {
+    const { cache, cacheTtl, clock, fetch, fetchTimeout, signal } = this.config
+    const options: CacheOptions & FetchOptions = { cache, cacheTtl, clock }
+    if (fetch) options.fetch = fetch
+    if (fetchTimeout) options.fetchTimeout = fetchTimeout
+    if (signal) options.signal = signal
+    return options
+  }
+
+  /**
+   * Fetches the JWKS and looks up a key by `kid`.
+   * @returns The matching key, `null` if absent from a freshly fetched JWKS,
+   *  or `undefined` if absent from a cached JWKS
+   * @throws {@link VerificationError} when the JWKS cannot be fetched or is malformed
+   */
+  private async findKeyInJWKS(
+    jwksUrl: string,
+    kid: string,
+    forceRefresh: boolean
+  ): Promise<Record<string, unknown> | null | undefined> {
+    const response = await fetchJSON(jwksUrl, { ...this.fetchOptions(), forceRefresh })
+    if (!response.ok) {
+      throw new VerificationError(
+        `Failed to fetch JWKS from issuer (${jwksUrl}): ${response.status} ${response.statusText}`
+      )
+    }
+    const jwks = response.body as { keys?: Array<Record<string, unknown>> }
+    if (!jwks || !Array.isArray(jwks.keys)) {
+      throw new VerificationError('Invalid JWKS format: missing keys array')
+    }
+
+    // Find matching key by kid
+    const matching = jwks.keys.find(k => k.kid === kid)
+    if (matching) return matching
+    return response.fromCache ? undefined : null
+  }
+
   /**
    * Read and verify a SMART Health Card from QR numeric data.
    *
@@ -313,9 +890,12 @@ export class SHCReader {
    * @throws {@link QRCodeError} If the QR numeric string is malformed, contains out-of-range digit pairs, or decoding fails
    * @throws {@link SignatureVerificationError} If JWS signature verification fails
    * @throws {@link ExpirationError} If the health card has expired
+   * @throws {@link NotYetValidError} If `rejectFutureNbf` is enabled and the health card is not valid yet
    * @throws {@link PayloadValidationError} If JWT payload validation fails
    * @throws {@link BundleValidationError} If FHIR Bundle validation fails
-   * @throws {@link CredentialValidationError} If verifiable credential validation fails
+   * @throws {@link ProfileValidationError} If `profileValidation` is set and the bundle does not conform
+   * @throws {@link CredentialValidationError} If verifiable credential validation fails,
+   *  or the card is missing one of the `expectedTypes`
    * @throws {@link JWSError} If JWS processing fails
    * @throws {@link VerificationError} For unexpected errors during verification or JWKS resolution (propagated from {@link fromJWS})
    *
@@ -336,9 +916,12 @@ export class SHCReader {
    * @throws {@link QRCodeError} If any chunk has invalid prefix, index/total, missing parts, out-of-range digit pairs, or decoding fails
    * @throws {@link SignatureVerificationError} If JWS signature verification fails
    * @throws {@link ExpirationError} If the health card has expired
+   * @throws {@link NotYetValidError} If `rejectFutureNbf` is enabled and the health card is not valid yet
    * @throws {@link PayloadValidationError} If JWT payload validation fails
    * @throws {@link BundleValidationError} If FHIR Bundle validation fails
-   * @throws {@link CredentialValidationError} If verifiable credential validation fails
+   * @throws {@link ProfileValidationError} If `profileValidation` is set and the bundle does not conform
+   * @throws {@link CredentialValidationError} If verifiable credential validation fails,
+   *  or the card is missing one of the `expectedTypes`
    * @throws {@link JWSError} If JWS processing fails
    * @throws {@link VerificationError} For unexpected errors during verification or JWKS resolution (propagated from {@link fromJWS})
    *
@@ -378,4 +961,63 @@ export class SHCReader {
       )
     }
   }
+
+  /**
+   * Read and verify a SMART Health Card from one or more images of its QR code(s).
+   *
+   * Every QR code found in the images is decoded. Chunked QR codes (`shc:/index/total/...`) may be
+   * spread over several images or printed side by side in one image, and are reassembled in order.
+   * QR codes that are not SMART Health Cards are ignored.
+   *
+   * Encoded PNG/JPEG bytes are decoded with the configured `imageDecoder`, or with the platform
+   * `createImageBitmap` and `OffscreenCanvas` APIs when available, and otherwise with the optional
+   * `pngjs` and `jpeg-js` packages (see {@link QRImageScanner}).
+   *
+   * @param images - Encoded PNG/JPEG bytes or RGBA pixels (such as a DOM `ImageData`), or an array of them
+   * @returns Promise resolving to verified SHC object
+   * @throws {@link QRCodeError} If an image cannot be decoded, no SMART Health Card QR code is found,
+   *  or the QR codes found are incomplete chunks or belong to different health cards
+   * @throws {@link SignatureVerificationError} If JWS signature verification fails
+   * @throws {@link ExpirationError} If the health card has expired
+   * @throws {@link NotYetValidError} If `rejectFutureNbf` is enabled and the health card is not valid yet
+   * @throws {@link PayloadValidationError} If JWT payload validation fails
+   * @throws {@link BundleValidationError} If FHIR Bundle validation fails
+   * @throws {@link ProfileValidationError} If `profileValidation` is set and the bundle does not conform
+   * @throws {@link CredentialValidationError} If verifiable credential validation fails,
+   *  or the card is missing one of the `expectedTypes`
+   * @throws {@link JWSError} If JWS processing fails
+   * @throws {@link VerificationError} For unexpected errors during verification or JWKS resolution (propagated from {@link fromJWS})
+   *
+   * @example
+   * ```typescript
+   * // In the browser, from a camera frame drawn on a canvas
+   * const frame = context.getImageData(0, 0, canvas.width, canvas.height);
+   * const healthCard = await reader.fromQRImage(frame);
+   *
+   * // From photos of a chunked health card
+   * const healthCardFromPhotos = await reader.fromQRImage([firstPhotoBytes, secondPhotoBytes]);
+   * ```
+   */
+  async fromQRImage(images: QRImageSource | QRImageSource[]): Promise<SHC> {
+    const scanner = new QRImageScanner(
+      this.config.imageDecoder ? { imageDecoder: this.config.imageDecoder } : {}
+    )
+    const imageList = Array.isArray(images) ? images : [images]
+
+    // Codes seen in several images (or several times) are only counted once by the assembler
+    const assembler = new ChunkedQRAssembler()
+    let found = false
+    for (const image of imageList) {
+      for (const content of await scanner.scan(image)) {
+        if (!content.startsWith('shc:/')) continue
+        assembler.add(content)
+        found = true
+      }
+    }
+    if (!found) {
+      throw new QRCodeError('No SMART Health Card QR code found in the image')
+    }
+
+    return await this.fromJWS(assembler.getJWS())
+  }
 }
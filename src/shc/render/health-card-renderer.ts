@@ -0,0 +1,358 @@
+// Printable health card rendering
+
+import { JWSProcessor } from '../jws/jws-processor.js'
+import type { SHC } from '../shc.js'
+import type {
+  HealthCardLabels,
+  HealthCardRendererConfigParams,
+  QRCodeConfigParams,
+} from '../types.js'
+import { PDF_PAGE_SIZES, PDFWriter } from './pdf-writer.js'
+
+/** English labels, overridden by {@link HealthCardRendererConfigParams.labels} */
+const DEFAULT_LABELS: HealthCardLabels = {
+  title: 'SMART Health Card',
+  issuer: 'Issuer',
+  issued: 'Issued',
+  expires: 'Expires',
+  patient: 'Patient',
+  name: 'Name',
+  birthDate: 'Date of birth',
+  immunizations: 'Immunizations',
+  labResults: 'Laboratory results',
+  date: 'Date',
+  vaccine: 'Vaccine',
+  lotNumber: 'Lot number',
+  test: 'Test',
+  result: 'Result',
+  performer: 'Performer',
+  status: 'Status',
+  scanInstructions: 'Scan the QR code with a SMART Health Card verifier app.',
+}
+
+/** Short names of the code systems of health cards, used when codes have no display */
+const CODE_SYSTEM_NAMES: Record<string, string> = {
+  'http://hl7.org/fhir/sid/cvx': 'CVX',
+  'http://snomed.info/sct': 'SNOMED CT',
+  'http://id.who.int/icd/release/11/mms': 'ICD-11',
+  'http://loinc.org': 'LOINC',
+}
+
+/** Card content, laid out by the HTML and PDF renderers */
+interface CardContent {
+  issuer: string
+  details: Array<[label: string, value: string]>
+  patient: Array<[label: string, value: string]>
+  tables: Array<{ title: string; columns: string[]; rows: string[][] }>
+}
+
+/**
+ * Renders printable documents of SMART Health Cards: a self-contained HTML page or a PDF with
+ * the issuer name, issue and expiration dates, patient demographics, the QR codes and tables of
+ * the immunizations and laboratory results of the card (see {@link SHC.getSummary}).
+ *
+ * Both formats are generated without external resources, in Node and in browsers. PDF documents
+ * use the standard Helvetica font, which covers Latin-1 text only: use the HTML page (e.g. printed
+ * to PDF by a browser) for labels or data in other scripts.
+ *
+ * @example
+ * ```typescript
+ * const renderer = new HealthCardRenderer({
+ *   locale: 'pt-BR',
+ *   labels: { title: 'Cartão de Saúde SMART', immunizations: 'Vacinas' },
+ *   codeDisplay: (system, code) => (code === '207' ? 'Moderna COVID-19' : undefined),
+ * });
+ * const html = await renderer.renderHTML(healthCard);
+ * const pdf = await renderer.renderPDF(healthCard); // Uint8Array
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category High-Level API
+ */
+export class HealthCardRenderer {
+  private readonly labels: HealthCardLabels
+  private readonly locale: string
+  private readonly qrConfig: QRCodeConfigParams
+
+  /**
+   * Creates a new HealthCardRenderer instance.
+   *
+   * @param config - Optional labels, locale and QR code configuration. See {@link HealthCardRendererConfigParams}.
+   */
+  constructor(private readonly config: HealthCardRendererConfigParams = {}) {
+    this.labels = { ...DEFAULT_LABELS, ...config.labels }
+    this.locale = config.locale ?? 'en-US'
+    this.qrConfig = config.qr ?? {}
+  }
+
+  /**
+   * Renders a health card as a self-contained HTML page, with inline styles and SVG QR codes.
+   *
+   * @param healthCard - Health card to render, issued or verified
+   * @returns Promise resolving to the HTML document
+   * @throws {@link QRCodeError} When the QR codes cannot be generated (e.g. the card needs chunking but it is disabled)
+   */
+  async renderHTML(healthCard: SHC): Promise<string> {
+    const content = await this.collect(healthCard)
+    const qrCodes = await healthCard.asQR({ ...this.qrConfig, format: 'svg' })
+
+    const definitions = (items: Array<[string, string]>) =>
+      `<dl>${items.map(([label, value]) => `<dt>${escapeHTML(label)}</dt><dd>${escapeHTML(value)}</dd>`).join('')}</dl>`
+    const tables = content.tables
+      .map(
+        ({ title, columns, rows }) =>
+          `<section><h2>${escapeHTML(title)}</h2><table><thead><tr>${columns
+            .map(column => `<th>${escapeHTML(column)}</th>`)
+            .join('')}</tr></thead><tbody>${rows
+            .map(row => `<tr>${row.map(cell => `<td>${escapeHTML(cell)}</td>`).join('')}</tr>`)
+            .join('')}</tbody></table></section>`
+      )
+      .join('\n')
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHTML(this.locale)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(this.labels.title)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; color: #000; margin: 2rem; }
+h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+h2 { font-size: 1.1rem; margin: 1.5rem 0 0.5rem; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 0.25rem 1rem; margin: 0.5rem 0; }
+dt { font-weight: bold; }
+dd { margin: 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #999; padding: 0.25rem 0.5rem; text-align: left; }
+.qr-codes { display: flex; flex-wrap: wrap; gap: 1rem; margin-top: 1rem; }
+.qr-codes svg { width: 60mm; height: 60mm; }
+@media print { body { margin: 0; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHTML(this.labels.title)}</h1>
+${definitions([[this.labels.issuer, content.issuer], ...content.details])}
+</header>
+<section>
+<h2>${escapeHTML(this.labels.patient)}</h2>
+${definitions(content.patient)}
+</section>
+<section>
+<div class="qr-codes">${qrCodes.join('')}</div>
+<p>${escapeHTML(this.labels.scanInstructions)}</p>
+</section>
+${tables}
+</body>
+</html>
+`
+  }
+
+  /**
+   * Renders a health card as a PDF document, with vector QR codes.
+   *
+   * @param healthCard - Health card to render, issued or verified
+   * @returns Promise resolving to the PDF file bytes
+   * @throws {@link QRCodeError} When the QR codes cannot be generated (e.g. the card needs chunking but it is disabled)
+   */
+  async renderPDF(healthCard: SHC): Promise<Uint8Array> {
+    const content = await this.collect(healthCard)
+    const qrCodes = await healthCard.asQR({ ...this.qrConfig, format: 'matrix' })
+
+    const { width, height } = PDF_PAGE_SIZES[this.config.pageSize ?? 'A4']
+    const pdf = new PDFWriter(width, height)
+    const margin = 48
+    const contentWidth = width - margin * 2
+    let top = margin
+    const ensureSpace = (needed: number) => {
+      if (top + needed > height - margin) {
+        pdf.addPage()
+        top = margin
+      }
+    }
+    const definitions = (items: Array<[string, string]>) => {
+      for (const [label, value] of items) {
+        ensureSpace(14)
+        pdf.text(label, margin, top, 10, true)
+        pdf.text(pdf.truncate(value, contentWidth - 120, 10), margin + 120, top, 10)
+        top += 14
+      }
+    }
+
+    top += 18
+    pdf.text(this.labels.title, margin, top, 18, true)
+    top += 22
+    definitions([[this.labels.issuer, content.issuer], ...content.details])
+    top += 16
+    pdf.text(this.labels.patient, margin, top, 13, true)
+    top += 18
+    definitions(content.patient)
+
+    // QR codes of 170pt, wrapping in rows
+    const qrSize = 170
+    const qrGap = 16
+    const perRow = Math.max(1, Math.floor((contentWidth + qrGap) / (qrSize + qrGap)))
+    top += 12
+    for (let index = 0; index < qrCodes.length; index += perRow) {
+      ensureSpace(qrSize)
+      qrCodes.slice(index, index + perRow).forEach((matrix, column) => {
+        pdf.rects(qrRects(matrix, margin + column * (qrSize + qrGap), top, qrSize))
+      })
+      top += qrSize + qrGap
+    }
+    ensureSpace(14)
+    pdf.text(pdf.truncate(this.labels.scanInstructions, contentWidth, 9), margin, top, 9)
+    top += 10
+
+    for (const { title, columns, rows } of content.tables) {
+      const columnWidth = contentWidth / columns.length
+      const row = (cells: string[], bold: boolean) => {
+        ensureSpace(14)
+        cells.forEach((cell, column) => {
+          pdf.text(
+            pdf.truncate(cell, columnWidth - 6, 9),
+            margin + column * columnWidth,
+            top,
+            9,
+            bold
+          )
+        })
+        top += 14
+      }
+      top += 16
+      ensureSpace(32)
+      pdf.text(title, margin, top, 13, true)
+      top += 18
+      row(columns, true)
+      for (const cells of rows) row(cells, false)
+    }
+
+    return pdf.toBytes()
+  }
+
+  /**
+   * Gathers the labelled content of a health card, shared by the HTML and PDF renderers
+   */
+  private async collect(healthCard: SHC): Promise<CardContent> {
+    const { payload } = await new JWSProcessor().parseUnverified(healthCard.asJWS())
+    const { patient, immunizations, labResults } = healthCard.getSummary()
+    const labels = this.labels
+
+    const details: Array<[string, string]> = [[labels.issued, this.formatTimestamp(payload.nbf)]]
+    if (payload.exp !== undefined) {
+      details.push([labels.expires, this.formatTimestamp(payload.exp)])
+    }
+
+    const tables: CardContent['tables'] = []
+    if (immunizations.length > 0) {
+      tables.push({
+        title: labels.immunizations,
+        columns: [labels.date, labels.vaccine, labels.lotNumber, labels.performer, labels.status],
+        rows: immunizations.map(dose => [
+          this.formatDate(dose.date),
+          this.codeText(dose),
+          dose.lotNumber ?? '',
+          dose.performer ?? '',
+          dose.status ?? '',
+        ]),
+      })
+    }
+    if (labResults.length > 0) {
+      tables.push({
+        title: labels.labResults,
+        columns: [labels.date, labels.test, labels.result, labels.performer, labels.status],
+        rows: labResults.map(result => [
+          this.formatDate(result.date),
+          this.codeText(result),
+          result.value ?? '',
+          result.performer ?? '',
+          result.status ?? '',
+        ]),
+      })
+    }
+
+    return {
+      issuer: healthCard.getIssuerInfo()?.name ?? payload.iss,
+      details,
+      patient: [
+        [labels.name, patient?.name ?? ''],
+        [labels.birthDate, this.formatDate(patient?.birthDate ?? null)],
+      ],
+      tables,
+    }
+  }
+
+  /**
+   * Display text of a coded entry: its display, the configured name, or the code system name and code
+   */
+  private codeText(entry: {
+    system: string | null
+    code: string | null
+    display: string | null
+  }): string {
+    const { system, code, display } = entry
+    const name = display ?? this.config.codeDisplay?.(system, code)
+    if (name) {
+      return name
+    }
+    const systemName = system ? (CODE_SYSTEM_NAMES[system] ?? system) : ''
+    return [systemName, code].filter(Boolean).join(' ')
+  }
+
+  /**
+   * Formats full FHIR dates and date-times as localized dates, keeping partial dates (e.g. `2021-01`) as is
+   */
+  private formatDate(value: string | null): string {
+    if (!value) {
+      return ''
+    }
+    const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value)
+    if (!match) {
+      return value
+    }
+    const [, year, month, day] = match
+    return this.dateFormat().format(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+  }
+
+  private formatTimestamp(seconds: number): string {
+    return this.dateFormat().format(seconds * 1000)
+  }
+
+  private dateFormat(): Intl.DateTimeFormat {
+    return new Intl.DateTimeFormat(this.locale, { dateStyle: 'medium', timeZone: 'UTC' })
+  }
+}
+
+/**
+ * Merges the dark modules of each QR matrix row into rectangles, scaled to `size` points
+ */
+function qrRects(matrix: boolean[][], left: number, top: number, size: number) {
+  const moduleSize = size / matrix.length
+  const rects: Array<{ left: number; top: number; width: number; height: number }> = []
+  matrix.forEach((row, y) => {
+    let start = -1
+    for (let x = 0; x <= row.length; x++) {
+      if (row[x] && start < 0) {
+        start = x
+      } else if (!row[x] && start >= 0) {
+        rects.push({
+          left: left + start * moduleSize,
+          top: top + y * moduleSize,
+          width: (x - start) * moduleSize,
+          height: moduleSize,
+        })
+        start = -1
+      }
+    }
+  })
+  return rects
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
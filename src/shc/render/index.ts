@@ -0,0 +1,2 @@
+// Render module barrel export
+export { HealthCardRenderer } from './health-card-renderer.js'
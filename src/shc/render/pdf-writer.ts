@@ -0,0 +1,128 @@
+// Minimal PDF writer for printable health cards
+
+/** Page sizes in points (1/72 inch) */
+export const PDF_PAGE_SIZES = {
+  A4: { width: 595, height: 842 },
+  Letter: { width: 612, height: 792 },
+} as const
+
+/** Average glyph width of Helvetica, as a fraction of the font size, used to fit text in columns */
+const AVERAGE_GLYPH_WIDTH = 0.52
+
+/**
+ * Writes simple PDF 1.4 documents: Helvetica text and filled rectangles, laid out from the
+ * top-left corner of each page. Text is encoded in WinAnsi, so characters outside Latin-1 are
+ * replaced by `?`.
+ *
+ * @internal
+ */
+export class PDFWriter {
+  private pages: string[][] = []
+  private currentPage: string[] = []
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {
+    this.addPage()
+  }
+
+  /** Starts a new page; later drawing goes to it */
+  addPage(): void {
+    this.currentPage = []
+    this.pages.push(this.currentPage)
+  }
+
+  /**
+   * Draws text with its baseline at `top` points from the top of the page
+   */
+  text(text: string, left: number, top: number, size: number, bold = false): void {
+    const font = bold ? 'F2' : 'F1'
+    this.draw(
+      `BT /${font} ${size} Tf ${fmt(left)} ${fmt(this.height - top)} Td (${escapeText(text)}) Tj ET`
+    )
+  }
+
+  /**
+   * Draws filled black rectangles, given with their top-left corner
+   */
+  rects(rects: Array<{ left: number; top: number; width: number; height: number }>): void {
+    if (rects.length === 0) return
+    const path = rects
+      .map(
+        r =>
+          `${fmt(r.left)} ${fmt(this.height - r.top - r.height)} ${fmt(r.width)} ${fmt(r.height)} re`
+      )
+      .join('\n')
+    this.draw(`0 g\n${path}\nf`)
+  }
+
+  /**
+   * Truncates text to the approximate number of characters fitting a width
+   */
+  truncate(text: string, width: number, size: number): string {
+    const maxChars = Math.floor(width / (size * AVERAGE_GLYPH_WIDTH))
+    return text.length > maxChars ? `${text.slice(0, Math.max(maxChars - 3, 0))}...` : text
+  }
+
+  /**
+   * Serializes the document
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = []
+    // Catalog, page tree and fonts come first, then each page followed by its content stream
+    const pageIds = this.pages.map((_, index) => 5 + index * 2)
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>'
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    objects[4] =
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    this.pages.forEach((operations, index) => {
+      const pageId = 5 + index * 2
+      const content = operations.join('\n')
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    })
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n'
+    const offsets: number[] = []
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = pdf.length
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`
+    }
+    const xrefOffset = pdf.length
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Uint8Array.from(pdf, char => char.charCodeAt(0))
+  }
+
+  private draw(operation: string): void {
+    this.currentPage.push(operation)
+  }
+}
+
+/** Formats a coordinate with at most two decimals */
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * Escapes a PDF literal string, replacing characters WinAnsi cannot encode
+ */
+function escapeText(text: string): string {
+  return Array.from(text, char => {
+    const code = char.charCodeAt(0)
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`
+    if (code < 0x20) return ' '
+    // Latin-1 matches WinAnsi except in the C1 control range
+    return code < 0x7f || (code >= 0xa0 && code <= 0xff) ? char : '?'
+  }).join('')
+}
@@ -0,0 +1,224 @@
+// RevocationList class
+
+import { RevocationListError } from './errors.js'
+import type { IssuerKeyring } from './keyring.js'
+import { isValidRid, RID_MAX_LENGTH } from './rid.js'
+import type { IssuerCrlJSON, RevocationStore } from './types.js'
+
+/**
+ * In-memory {@link RevocationStore}. Suitable for tests and single-process deployments;
+ * CRLs are lost when the process exits.
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export class InMemoryRevocationStore implements RevocationStore {
+  private readonly crls = new Map<string, IssuerCrlJSON>()
+
+  async load(kid: string): Promise<IssuerCrlJSON | null> {
+    const crl = this.crls.get(kid)
+    return crl ? { ...crl, rids: [...crl.rids] } : null
+  }
+
+  async save(crl: IssuerCrlJSON): Promise<void> {
+    this.crls.set(crl.kid, { ...crl, rids: [...crl.rids] })
+  }
+}
+
+/**
+ * Authors the Certificate Revocation List (CRL) of a single issuer key.
+ *
+ * The CRL is published at `/.well-known/crl/{kid}.json` in the format read by
+ * {@link Directory.fromURLs}. Every change increments the CRL `ctr`, and when a
+ * {@link IssuerKeyring} is provided the key's `crlVersion` is kept equal to `ctr`
+ * so that the published JWKS advertises the latest CRL.
+ *
+ * Revocation entries are either a bare `rid` (every card with that `rid` is revoked)
+ * or `rid.timestamp` (only cards whose `nbf` is at or before the timestamp, in seconds, are revoked).
+ *
+ * Changes made through one instance are applied one at a time, so concurrent calls do not lose
+ * each other's updates. The store is not locked: use a single RevocationList per `kid` to write
+ * a CRL, rather than several instances or processes sharing a store.
+ *
+ * @example
+ * ```typescript
+ * const crl = new RevocationList({ kid: keyring.getActiveKid(), store: myStore, keyring });
+ *
+ * // Revoke every card carrying this rid
+ * await crl.revoke('MSkPcf7G4PU');
+ *
+ * // Revoke only cards issued up to a point in time
+ * await crl.revoke('Y8TXtzmGsTs', { revokedAt: new Date('2024-01-01T00:00:00Z') });
+ *
+ * // Serve at https://your-healthcare-org.com/.well-known/crl/{kid}.json
+ * const body = await crl.serialize();
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category High-Level API
+ */
+export class RevocationList {
+  /** Key ID this CRL pertains to. */
+  public readonly kid: string
+  private readonly store: RevocationStore
+  private readonly keyring: IssuerKeyring | null
+  /** Tail of the chain of pending changes, each running after the previous one settles */
+  private pending: Promise<unknown> = Promise.resolve()
+
+  /**
+   * Creates a new RevocationList instance.
+   *
+   * @param params.kid - Key ID the CRL pertains to
+   * @param params.store - Optional persistence backend (default: a new {@link InMemoryRevocationStore})
+   * @param params.keyring - Optional keyring whose `crlVersion` for `kid` is kept in step with `ctr`
+   * @throws {@link RevocationListError} When `kid` is empty or not held by the provided keyring
+   */
+  constructor(params: { kid: string; store?: RevocationStore; keyring?: IssuerKeyring }) {
+    if (!params.kid) {
+      throw new RevocationListError('RevocationList requires a kid')
+    }
+    if (params.keyring && !params.keyring.hasKey(params.kid)) {
+      throw new RevocationListError(`Key with kid '${params.kid}' is not in the keyring`)
+    }
+    this.kid = params.kid
+    this.store = params.store ?? new InMemoryRevocationStore()
+    this.keyring = params.keyring ?? null
+  }
+
+  /**
+   * Returns the well-known path where this CRL must be served, relative to the issuer URL.
+   *
+   * @param kid - Key ID
+   * @returns Path in the form `/.well-known/crl/{kid}.json`
+   */
+  static pathFor(kid: string): string {
+    return `/.well-known/crl/${kid}.json`
+  }
+
+  /**
+   * Revokes a revocation identifier.
+   *
+   * Revoking a `rid` that already has the same entry is a no-op and does not bump `ctr`.
+   * Revoking it again with a different (or no) timestamp replaces the previous entry.
+   *
+   * @param rid - Revocation identifier (the `vc.rid` of the cards to revoke)
+   * @param options.revokedAt - Optional revocation time. Only cards with `nbf` at or before this
+   *  time are revoked. Accepts a Date or a Unix timestamp in seconds.
+   * @returns Promise resolving to the updated CRL
+   * @throws {@link RevocationListError} When `rid` is invalid or `revokedAt` is not a valid time
+   */
+  async revoke(rid: string, options: { revokedAt?: Date | number } = {}): Promise<IssuerCrlJSON> {
+    if (!isValidRid(rid)) {
+      throw new RevocationListError(
+        `Invalid rid '${rid}': must be a base64url string of at most ${RID_MAX_LENGTH} characters`
+      )
+    }
+
+    const entry =
+      options.revokedAt === undefined ? rid : `${rid}.${this.toTimestamp(options.revokedAt)}`
+
+    return await this.exclusive(async () => {
+      const crl = await this.getCRL()
+      const existingIndex = crl.rids.findIndex(r => r.split('.', 1)[0] === rid)
+      if (existingIndex !== -1 && crl.rids[existingIndex] === entry) {
+        return crl
+      }
+      if (existingIndex === -1) {
+        crl.rids.push(entry)
+      } else {
+        crl.rids[existingIndex] = entry
+      }
+      return await this.commit(crl)
+    })
+  }
+
+  /**
+   * Removes a revocation identifier from the CRL (e.g. when it was revoked by mistake).
+   *
+   * @param rid - Revocation identifier to reinstate
+   * @returns Promise resolving to the updated CRL (unchanged if `rid` was not revoked)
+   */
+  async reinstate(rid: string): Promise<IssuerCrlJSON> {
+    return await this.exclusive(async () => {
+      const crl = await this.getCRL()
+      const rids = crl.rids.filter(r => r.split('.', 1)[0] !== rid)
+      if (rids.length === crl.rids.length) {
+        return crl
+      }
+      return await this.commit({ ...crl, rids })
+    })
+  }
+
+  /**
+   * Whether a card with the given `rid` and issuance time is revoked by this CRL.
+   *
+   * @param rid - Revocation identifier
+   * @param nbf - Card `nbf` (Unix seconds). When omitted, timestamped entries count as revoked.
+   */
+  async isRevoked(rid: string, nbf?: number): Promise<boolean> {
+    const crl = await this.getCRL()
+    const entry = crl.rids.find(r => r.split('.', 1)[0] === rid)
+    if (!entry) return false
+    const [, timestamp] = entry.split('.', 2)
+    if (!timestamp || nbf === undefined) return true
+    return Math.floor(nbf) <= Number(timestamp)
+  }
+
+  /**
+   * Returns the current CRL. When nothing was revoked yet, returns an empty CRL with `ctr: 0`.
+   *
+   * @returns Promise resolving to the CRL in its published JSON shape
+   */
+  async getCRL(): Promise<IssuerCrlJSON> {
+    const stored = await this.store.load(this.kid)
+    if (!stored) {
+      return { kid: this.kid, method: 'rid', ctr: 0, rids: [] }
+    }
+    return { ...stored, rids: [...stored.rids] }
+  }
+
+  /**
+   * Serializes the CRL to the JSON document served at `/.well-known/crl/{kid}.json`.
+   *
+   * @returns Promise resolving to the JSON string
+   */
+  async serialize(): Promise<string> {
+    const { kid, method, ctr, rids } = await this.getCRL()
+    return JSON.stringify({ kid, method, ctr, rids })
+  }
+
+  /**
+   * Runs a read-modify-write of the CRL once the changes queued before it have settled
+   */
+  private exclusive<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(change)
+    this.pending = result.catch(() => undefined)
+    return result
+  }
+
+  /**
+   * Bumps `ctr`, persists the CRL and updates the keyring `crlVersion`.
+   * Must run inside `exclusive()`.
+   */
+  private async commit(crl: IssuerCrlJSON): Promise<IssuerCrlJSON> {
+    const updated: IssuerCrlJSON = { ...crl, ctr: crl.ctr + 1 }
+    await this.store.save(updated)
+    this.keyring?.setCrlVersion(this.kid, updated.ctr)
+    return updated
+  }
+
+  /**
+   * Converts a revocation time to integer Unix seconds
+   * @throws {@link RevocationListError} When the time is invalid
+   */
+  private toTimestamp(revokedAt: Date | number): number {
+    const seconds =
+      revokedAt instanceof Date ? Math.floor(revokedAt.getTime() / 1000) : Math.floor(revokedAt)
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      throw new RevocationListError('Invalid revokedAt: must be a valid date or Unix timestamp')
+    }
+    return seconds
+  }
+}
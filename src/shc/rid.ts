@@ -0,0 +1,75 @@
+// Revocation identifier (rid) helpers
+
+import { base64url } from 'jose'
+import { CredentialValidationError } from './errors.js'
+
+/**
+ * Maximum length of a revocation identifier per the SMART Health Cards specification.
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export const RID_MAX_LENGTH = 24
+
+const RID_PATTERN = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Whether a revocation identifier satisfies the SMART Health Cards constraints:
+ * a non-empty base64url string of at most {@link RID_MAX_LENGTH} characters (and so without `.`).
+ *
+ * @param rid - Revocation identifier to check
+ * @returns `true` if the `rid` is valid
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export function isValidRid(rid: string): boolean {
+  return typeof rid === 'string' && rid.length <= RID_MAX_LENGTH && RID_PATTERN.test(rid)
+}
+
+/**
+ * Derives a revocation identifier from an issuer secret and a patient or record identifier.
+ *
+ * Follows the construction recommended by the SMART Health Cards specification:
+ * the HMAC-SHA-256 of the identifier keyed with the issuer secret, truncated to 64 bits
+ * and base64url-encoded (11 characters). The same inputs always yield the same `rid`,
+ * so every card issued for a patient or record can be revoked with a single CRL entry,
+ * while the identifier itself is not disclosed.
+ *
+ * @param secret - Issuer secret used as HMAC key. Keep it private and stable over time.
+ * @param identifier - Patient or record identifier
+ * @returns Promise resolving to the derived `rid`
+ * @throws {@link CredentialValidationError} When `secret` or `identifier` is empty
+ *
+ * @example
+ * ```typescript
+ * const rid = await deriveRid(process.env.RID_SECRET, patient.id);
+ * // e.g. 'MSkPcf7G4PU'
+ * ```
+ *
+ * @public
+ * @group SHC
+ * @category Lower-Level API
+ */
+export async function deriveRid(secret: string | Uint8Array, identifier: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const secretBytes = typeof secret === 'string' ? encoder.encode(secret) : secret
+  if (!secretBytes || secretBytes.length === 0) {
+    throw new CredentialValidationError('Cannot derive rid: secret must not be empty')
+  }
+  if (!identifier) {
+    throw new CredentialValidationError('Cannot derive rid: identifier must not be empty')
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    secretBytes as Uint8Array<ArrayBuffer>,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const mac = await crypto.subtle.sign('HMAC', key, encoder.encode(identifier))
+  return base64url.encode(new Uint8Array(mac, 0, 8))
+}
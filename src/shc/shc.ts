@@ -1,8 +1,20 @@
 // SHC class
 
+import { FileFormatError } from './errors.js'
 import { FHIRBundleProcessor } from './fhir/bundle-processor.js'
+import { FHIRSummaryExtractor } from './fhir/summary-extractor.js'
 import { QRCodeGenerator } from './qr/qr-code-generator.js'
-import type { FHIRBundle, QRCodeConfigParams } from './types.js'
+import type {
+  FHIRBundle,
+  HealthCardSummary,
+  Issuer,
+  QRCodeConfigParams,
+  QRMinificationPreset,
+  QRMinificationRule,
+  QROutputFormat,
+  QROutputParams,
+  QROutputTypes,
+} from './types.js'
 
 /**
  * Represents an issued SMART Health Card with various output formats.
@@ -15,7 +27,8 @@ import type { FHIRBundle, QRCodeConfigParams } from './types.js'
 export class SHC {
   constructor(
     private readonly jws: string,
-    private readonly originalBundle: FHIRBundle
+    private readonly originalBundle: FHIRBundle,
+    private readonly issuerInfo?: Issuer
   ) {}
 
   /**
@@ -37,10 +50,47 @@ export class SHC {
   }
 
   /**
-   * Generate QR code data URLs from the health card.
+   * Returns the issuer directory record of the health card, when it was read by an
+   * {@link SHCReader} whose directory lists the issuer. For aliased issuers this is the
+   * canonical issuer (see {@link Directory.resolveIssuer}).
    *
-   * @param config - Optional QR code configuration parameters. See {@link QRCodeConfigParams}.
-   * @returns Promise resolving to array of QR code data URLs
+   * @returns The issuer record, or `undefined` when the issuer is not known
+   *
+   * @example
+   * ```typescript
+   * const healthCard = await reader.fromJWS(jws);
+   * console.log(`Issued by: ${healthCard.getIssuerInfo()?.name ?? 'Unknown issuer'}`);
+   * ```
+   */
+  getIssuerInfo(): Issuer | undefined {
+    return this.issuerInfo
+  }
+
+  /**
+   * Returns a typed clinical summary of the health card: the patient, immunizations and
+   * laboratory results, with references (including `resource:N` URIs) resolved.
+   *
+   * @returns The clinical summary. See {@link HealthCardSummary}.
+   *
+   * @example
+   * ```typescript
+   * const { patient, immunizations } = healthCard.getSummary();
+   * console.log(`${patient?.name}, born ${patient?.birthDate}`);
+   * for (const dose of immunizations) {
+   *   console.log(`${dose.date}: CVX ${dose.code}, lot ${dose.lotNumber} (${dose.performer})`);
+   * }
+   * ```
+   */
+  getSummary(): HealthCardSummary {
+    return new FHIRSummaryExtractor().extract(this.originalBundle)
+  }
+
+  /**
+   * Generate QR codes from the health card, as PNG data URLs or in another output format.
+   *
+   * @param config - Optional QR code configuration parameters and output format.
+   *  See {@link QRCodeConfigParams} and {@link QROutputParams}.
+   * @returns Promise resolving to array of QR codes in the requested format (PNG data URLs by default)
    * @throws {@link QRCodeError} When JWS contains invalid characters or chunking is required but disabled
    *
    * @example
@@ -52,11 +102,17 @@ export class SHC {
    *     scale: 4
    *   }
    * });
+   *
+   * // SVG for print, or text for a terminal
+   * const [svg] = await healthCard.asQR({ format: 'svg' });
+   * const [text] = await healthCard.asQR({ format: 'terminal' });
    * ```
    */
-  async asQR(config: QRCodeConfigParams = {}): Promise<string[]> {
+  async asQR<F extends QROutputFormat = 'dataURL'>(
+    config: QRCodeConfigParams & QROutputParams<F> = {}
+  ): Promise<QROutputTypes[F][]> {
     const qrGenerator = new QRCodeGenerator(config)
-    return await qrGenerator.generateQR(this.jws)
+    return await qrGenerator.generateQR(this.jws, config)
   }
 
   /**
@@ -88,16 +144,25 @@ export class SHC {
    *
    * @param config.optimizeForQR - Whether to optimize the FHIR Bundle for QR code optimization
    * @param config.strictReferences - Whether to enforce strict reference validation during QR optimization
+   * @param config.minification - Preset or list of rules removing unnecessary fields during QR optimization
+   *  (see {@link getQRMinificationRules}). Defaults to `'reference-implementation'`.
    * @returns Promise resolving to FHIR Bundle
    * @throws {@link InvalidBundleReferenceError} If `optimizeForQR` is true and a reference target is missing when `strictReferences` is true
    */
   async asBundle(
-    config: { optimizeForQR?: boolean; strictReferences?: boolean } = {}
+    config: {
+      optimizeForQR?: boolean
+      strictReferences?: boolean
+      minification?: QRMinificationPreset | QRMinificationRule[]
+    } = {}
   ): Promise<FHIRBundle> {
-    const { optimizeForQR = false, strictReferences = true } = config
+    const { optimizeForQR = false, strictReferences = true, minification } = config
     if (optimizeForQR) {
       const bundleProcessor = new FHIRBundleProcessor()
-      return bundleProcessor.processForQR(this.originalBundle, { strictReferences })
+      return bundleProcessor.processForQR(this.originalBundle, {
+        strictReferences,
+        ...(minification && { minification }),
+      })
     }
     return this.originalBundle
   }
@@ -108,8 +173,28 @@ export class SHC {
    * @returns Promise resolving to JSON string with verifiableCredential array
    */
   async asFileContent(): Promise<string> {
+    return await SHC.combineToFileContent([this])
+  }
+
+  /**
+   * Return JSON file content for a .smart-health-card file carrying several health cards.
+   *
+   * @param cards - Health cards to include, in order
+   * @returns Promise resolving to JSON string with one `verifiableCredential` entry per card
+   * @throws {@link FileFormatError} When `cards` is empty
+   *
+   * @example
+   * ```typescript
+   * const fileContent = await SHC.combineToFileContent([immunizationCard, labResultCard]);
+   * const healthCards = await reader.fromFileContentAll(fileContent);
+   * ```
+   */
+  static async combineToFileContent(cards: SHC[]): Promise<string> {
+    if (cards.length === 0) {
+      throw new FileFormatError('At least one health card is required to build a file')
+    }
     const fileContent = {
-      verifiableCredential: [this.jws],
+      verifiableCredential: cards.map(card => card.asJWS()),
     }
     return JSON.stringify(fileContent)
   }
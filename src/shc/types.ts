@@ -1,6 +1,11 @@
 // Types and processors for SMART Health Cards
-import type { Bundle } from '@medplum/fhirtypes'
+import type { Bundle, Immunization, Observation } from '@medplum/fhirtypes'
+import type { Clock } from '../common/clock'
 import type { Directory } from './directory'
+import type { SHCError } from './errors'
+import type { Signer } from './jws/signer'
+import type { IssuerKeyring } from './keyring'
+import type { SHC } from './shc'
 
 /**
  * FHIR R4 Bundle type re-exported from @medplum/fhirtypes for convenience.
@@ -55,6 +60,7 @@ export interface SHCJWT {
 
 /**
  * Configuration parameters for SHCIssuer.
+ * Exactly one key source must be given: a `privateKey`/`publicKey` pair, a `signer` or a `keyring`.
  *
  * @public
  * @group SHC
@@ -70,14 +76,38 @@ export interface SHCConfigParams {
   /**
    * ES256 private key for signing health cards.
    * Can be a WebCrypto CryptoKey, raw bytes as Uint8Array, PEM-formatted string, or JsonWebKey object.
+   * Required, together with `publicKey`, unless a `signer` or a `keyring` is provided; cannot be
+   * combined with either.
    */
-  privateKey: CryptoKey | Uint8Array | string | JsonWebKey
+  privateKey?: CryptoKey | Uint8Array | string | JsonWebKey
 
   /**
    * ES256 public key corresponding to the private key.
    * Used for key ID (`kid`) derivation per SMART Health Cards specification.
+   * Required, together with `privateKey`, unless a `signer` or a `keyring` is provided; cannot be
+   * combined with either.
    */
-  publicKey: CryptoKey | Uint8Array | string | JsonWebKey
+  publicKey?: CryptoKey | Uint8Array | string | JsonWebKey
+
+  /**
+   * External signer used instead of `privateKey`/`publicKey`, allowing keys to stay in a KMS or HSM.
+   * Cannot be combined with `privateKey`, `publicKey` or `keyring`.
+   */
+  signer?: Signer
+
+  /**
+   * Issuer keyring holding the active signing key and retired verification keys.
+   * Cards are always signed with the keyring's active key at issuance time.
+   * Cannot be combined with `privateKey`, `publicKey` or `signer`.
+   */
+  keyring?: IssuerKeyring
+
+  /**
+   * Issuer secret used to derive revocation identifiers from `ridSubject`
+   * (see {@link VerifiableCredentialParams.ridSubject} and {@link deriveRid}).
+   * Keep it private and stable: changing it changes the `rid` of every future card.
+   */
+  ridSecret?: string | Uint8Array
 
   /**
    * Optional expiration time in seconds from now.
@@ -100,13 +130,66 @@ export interface SHCConfigParams {
    * @defaultValue `true`
    */
   strictReferences?: boolean
+
+  /**
+   * Preset or list of rules removing unnecessary fields during QR optimization, applied in order
+   * to every property of the bundle resources. See {@link getQRMinificationRules} and
+   * {@link qrMinificationRules}.
+   * @defaultValue `'reference-implementation'`
+   */
+  minification?: QRMinificationPreset | QRMinificationRule[]
+
+  /**
+   * Source of the current time, used for the `nbf` and `exp` claims.
+   * @defaultValue the system clock
+   */
+  clock?: Clock
+
+  /**
+   * Seconds by which `nbf` is set before the issuance time, so that verifiers whose clocks run
+   * behind the issuer's still accept freshly issued cards. Does not change `exp`. Note that a
+   * revocation by `rid` timestamp also revokes cards issued up to `nbfSkew` seconds after it.
+   * @defaultValue `0`
+   */
+  nbfSkew?: number
+
+  /**
+   * SMART Health Cards IG profile the bundle of each issued card must conform to, or `'auto'` to
+   * pick the vaccination or laboratory profile from the bundle content. When set, issuing a card
+   * whose (processed) bundle violates the profile throws {@link ProfileValidationError}.
+   * See {@link FHIRProfileValidator}.
+   * @defaultValue `null` (no profile validation)
+   */
+  profileValidation?: SHCProfileSelection | null
+
+  /**
+   * Whether to add the VC types matching the bundle content (e.g. `https://smarthealth.cards#immunization`
+   * and `https://smarthealth.cards#covid19`) to every issued card, unless
+   * {@link VerifiableCredentialParams.inferTypes} says otherwise.
+   * See {@link VerifiableCredentialProcessor.inferTypes}.
+   * @defaultValue `false`
+   */
+  inferTypes?: boolean
+
+  /**
+   * Whether to read every issued card back before returning it: its numeric QR form (as produced by
+   * {@link QRCodeGenerator.chunkJWS}) goes through the {@link SHCReader} pipeline with the issuer's
+   * own public key, and the bundle read back is compared with the processed bundle that was signed.
+   * A failure throws {@link SelfVerificationError}. Costs a signature verification per card.
+   * @defaultValue `false`
+   */
+  verifyAfterIssue?: boolean
 }
 
 /**
  * @group SHC
  * @category Configuration
  */
-export type SHCConfig = Required<SHCConfigParams>
+export type SHCConfig = Pick<
+  SHCConfigParams,
+  'privateKey' | 'publicKey' | 'signer' | 'keyring' | 'ridSecret'
+> &
+  Required<Omit<SHCConfigParams, 'privateKey' | 'publicKey' | 'signer' | 'keyring' | 'ridSecret'>>
 
 /**
  * Configuration parameters for SHCReader.
@@ -145,6 +228,25 @@ export interface SHCReaderConfigParams {
    */
   verifyExpiration?: boolean
 
+  /**
+   * Whether to reject cards whose JWT `nbf` claim is in the future with {@link NotYetValidError}.
+   * When false (default), such cards are accepted, and {@link SHCReader.verify} reports a warning.
+   * @defaultValue `false`
+   */
+  rejectFutureNbf?: boolean
+
+  /**
+   * Source of the current time, used to check the `exp` and `nbf` claims.
+   * @defaultValue the system clock
+   */
+  clock?: Clock
+
+  /**
+   * Seconds of clock difference with the issuer tolerated when checking the `exp` and `nbf` claims.
+   * @defaultValue `0`
+   */
+  clockSkewTolerance?: number
+
   /**
    * Optional pre-fetched `Directory` instance containing issuer metadata
    * (JWKS keys and optional CRLs). Pass `null` to explicitly indicate
@@ -160,6 +262,85 @@ export interface SHCReaderConfigParams {
    * @defaultValue `false`
    */
   useVciDirectory?: boolean
+
+  /**
+   * Issuers accepted by the reader, as exact `iss` values or regular expressions matched against `iss`.
+   * Cards from any other issuer are rejected with {@link UntrustedIssuerError} before any key is fetched.
+   * If `null`, any issuer is accepted.
+   * @defaultValue `null`
+   */
+  trustedIssuers?: Array<string | RegExp> | null
+
+  /**
+   * Whether to accept only issuers listed in the issuer directory (`issuerDirectory` or the VCI directory).
+   * Cards from unlisted issuers are rejected with {@link UntrustedIssuerError}.
+   * @defaultValue `false`
+   */
+  requireDirectoryMembership?: boolean
+
+  /**
+   * Whether to fetch the key from the issuer's `/.well-known/jwks.json` when it is neither configured
+   * nor found in the issuer directory. Set to `false` to verify only against configured keys and
+   * directory keys; cards whose key cannot be found this way are rejected with {@link UntrustedIssuerError}.
+   * @defaultValue `true`
+   */
+  allowJwksFallback?: boolean
+
+  /**
+   * Cache for issuer JWKS and the VCI directory snapshot, so they are not fetched again for every card.
+   * When a cached JWKS has no key for the card `kid`, the JWKS is fetched again once.
+   * Pass `null` to disable caching.
+   * @defaultValue a new {@link LRUCacheStore} per reader
+   */
+  cache?: CacheStore | null
+
+  /**
+   * Lifetime in seconds of cached responses that carry no HTTP caching headers.
+   * @defaultValue `300`
+   */
+  cacheTtl?: number
+
+  /**
+   * Fetch implementation used to download issuer JWKS and the VCI directory snapshot.
+   * @defaultValue the global `fetch`
+   */
+  fetch?: (url: string, options?: RequestInit) => Promise<Response>
+
+  /**
+   * Timeout in milliseconds for each network request made while verifying a card.
+   * If `null` or omitted, requests never time out.
+   */
+  fetchTimeout?: number | null
+
+  /**
+   * Signal to cancel network requests made while verifying cards.
+   * Once aborted, verification fails with a {@link VerificationError}.
+   */
+  signal?: AbortSignal | null
+
+  /**
+   * Decoder for image bytes passed to {@link SHCReader.fromQRImage}. Defaults to the built-in
+   * decoder of {@link QRImageScanner}, which needs the optional `pngjs` or `jpeg-js` package in
+   * environments without `createImageBitmap` and `OffscreenCanvas`, such as Node.js.
+   */
+  imageDecoder?: QRImageDecoder
+
+  /**
+   * SMART Health Cards IG profile the bundle of each card must conform to, or `'auto'` to pick
+   * the vaccination or laboratory profile from the bundle content. When set, cards whose bundle
+   * violates the profile are rejected with {@link ProfileValidationError}, and fail the `bundle`
+   * check of {@link SHCReader.verify}. See {@link FHIRProfileValidator}.
+   * @defaultValue `null` (no profile validation)
+   */
+  profileValidation?: SHCProfileSelection | null
+
+  /**
+   * VC types every card must have (e.g. `['https://smarthealth.cards#covid19']`), such as the types
+   * a verifier requested. Cards missing any of them are rejected with {@link CredentialValidationError},
+   * and fail the `credential` check of {@link SHCReader.verify}.
+   * @defaultValue `null` (any type)
+   */
+  expectedTypes?: string[] | null
 }
 
 /**
@@ -173,7 +354,122 @@ export type SHCReaderConfig = {
    * If `null`, the reader will attempt to resolve the public key from the issuer's JWKS endpoint.
    */
   publicKey?: CryptoKey | Uint8Array | string | JsonWebKey | null
-} & Required<Omit<SHCReaderConfigParams, 'publicKey'>>
+} & Pick<SHCReaderConfigParams, 'fetch' | 'fetchTimeout' | 'signal' | 'imageDecoder'> &
+  Required<
+    Omit<SHCReaderConfigParams, 'publicKey' | 'fetch' | 'fetchTimeout' | 'signal' | 'imageDecoder'>
+  >
+
+/**
+ * Verification outcome of one `verifiableCredential` entry of a .smart-health-card file,
+ * as returned by {@link SHCReader.fromFileContentAll}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type SHCFileEntryResult =
+  | {
+      /** Position of the entry in the `verifiableCredential` array. */
+      index: number
+      /** The entry's JWS. */
+      jws: string
+      ok: true
+      /** The verified health card. */
+      healthCard: SHC
+    }
+  | {
+      /** Position of the entry in the `verifiableCredential` array. */
+      index: number
+      /** The entry's JWS. */
+      jws: string
+      ok: false
+      /** Why the entry could not be verified. */
+      error: SHCError
+    }
+
+/**
+ * Individual check performed by {@link SHCReader.verify}.
+ *
+ * - `decode`: the JWS can be parsed and its payload decoded
+ * - `keySource`: a verification key was found (in the reader config, the issuer directory or the issuer JWKS)
+ * - `signature`: the JWS signature and JWT payload structure are valid
+ * - `timing`: the card is within its `nbf`/`exp` validity period
+ * - `bundle`: the FHIR Bundle is valid
+ * - `credential`: the Verifiable Credential is valid
+ * - `issuerTrust`: the issuer is known to a trusted source
+ * - `revocation`: the card is not revoked by the issuer's CRL
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type VerificationCheckName =
+  | 'decode'
+  | 'keySource'
+  | 'signature'
+  | 'timing'
+  | 'bundle'
+  | 'credential'
+  | 'issuerTrust'
+  | 'revocation'
+
+/**
+ * Outcome of a single verification check.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type VerificationCheckStatus = 'passed' | 'warning' | 'failed' | 'skipped'
+
+/**
+ * Result of a single verification check.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface VerificationCheck {
+  /** Which check this entry describes. */
+  check: VerificationCheckName
+  /** Outcome of the check. Only `failed` makes the card invalid. */
+  status: VerificationCheckStatus
+  /**
+   * Machine-readable code. For failures this is the {@link SHCError} `code`
+   * (e.g. `BAD_SIGNATURE`, `EXPIRED`, `SHC_REVOKED`); otherwise a check-specific code
+   * such as `KEY_FROM_DIRECTORY` or `ISSUER_NOT_IN_DIRECTORY`.
+   */
+  code: string
+  /** Human-readable explanation. */
+  message: string
+}
+
+/**
+ * Structured result of {@link SHCReader.verify}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface VerificationReport {
+  /** `true` when no check failed. */
+  valid: boolean
+  /** One entry per check, in the order they were performed. */
+  checks: VerificationCheck[]
+  /** The verified health card, or `null` when any check failed. */
+  healthCard: SHC | null
+  /** Where the verification key came from, or `null` when no key was found. */
+  keySource: 'config' | 'directory' | 'jwks' | null
+  /** Issuer URL from the (unverified) payload, when the JWS could be decoded. */
+  iss?: string
+  /** Key ID from the JWS header, when present. */
+  kid?: string
+  /**
+   * Directory record of the issuer, following `canonical_iss` for aliased issuers,
+   * when the issuer is listed in the reader's directory.
+   */
+  issuer?: Issuer
+}
 
 /**
  * Parameters for creating Verifiable Credentials.
@@ -201,9 +497,24 @@ export interface VerifiableCredentialParams {
   includeAdditionalTypes?: string[]
 
   /**
-   * An optional revocation identifier to include in the credential
+   * Whether to add the VC types matching the bundle content (`#immunization`, `#laboratory`
+   * and `#covid19`, see {@link VerifiableCredentialProcessor.inferTypes}) to the
+   * `includeAdditionalTypes`. When issuing, defaults to the issuer's `inferTypes` setting.
+   * @defaultValue `false`
+   */
+  inferTypes?: boolean
+
+  /**
+   * An optional revocation identifier to include in the credential.
+   * Must be a base64url string of at most 24 characters (see {@link isValidRid}).
    */
   rid?: string
+
+  /**
+   * Patient or record identifier from which `rid` is derived using the issuer's `ridSecret`
+   * (see {@link deriveRid}). Only supported by {@link SHCIssuer.issue}; cannot be combined with `rid`.
+   */
+  ridSubject?: string
 }
 
 /**
@@ -241,7 +552,7 @@ export interface QREncodeParams {
   maskPattern?: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7
 
   /**
-   * Quiet zone size (border) around the QR code in modules.
+   * Quiet zone size (border) around the QR code in modules. Not applied to the `'matrix'` output format.
    * @defaultValue `1`
    */
   margin?: number
@@ -313,6 +624,132 @@ export interface QRCodeConfigParams {
  */
 export type QRCodeConfig = Required<QRCodeConfigParams>
 
+/**
+ * Output format of generated QR codes:
+ * - `'dataURL'`: PNG image as a `data:image/png;base64,...` URL
+ * - `'png'`: PNG image bytes, e.g. for server-side storage
+ * - `'svg'`: SVG document string, for crisp print
+ * - `'utf8'`: text drawn with Unicode block characters (two module rows per line), for logs.
+ *   Light modules and the quiet zone are filled, for display on a dark background.
+ * - `'terminal'`: text drawn with ANSI background colors, for terminals
+ * - `'matrix'`: module matrix, row by row, `true` for dark modules, for custom renderers.
+ *   It has no quiet zone and ignores the `margin` encode option; renderers must add their own.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type QROutputFormat = 'dataURL' | 'png' | 'svg' | 'utf8' | 'terminal' | 'matrix'
+
+/**
+ * Type of a generated QR code in each {@link QROutputFormat}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface QROutputTypes {
+  dataURL: string
+  png: Uint8Array
+  svg: string
+  utf8: string
+  terminal: string
+  matrix: boolean[][]
+}
+
+/**
+ * Output options of QR code generation.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface QROutputParams<F extends QROutputFormat = QROutputFormat> {
+  /**
+   * Output format of the QR codes. See {@link QROutputFormat}.
+   * @defaultValue `'dataURL'`
+   */
+  format?: F
+}
+
+/**
+ * Decoded raster image as RGBA pixels, row by row (4 bytes per pixel).
+ * Compatible with the DOM `ImageData` object.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface QRImageData {
+  /** RGBA pixel data, of length `width * height * 4`. */
+  data: Uint8ClampedArray | Uint8Array
+  /** Image width in pixels. */
+  width: number
+  /** Image height in pixels. */
+  height: number
+}
+
+/**
+ * Image to scan for QR codes: encoded PNG/JPEG bytes or already decoded RGBA pixels.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type QRImageSource = Uint8Array | ArrayBuffer | QRImageData
+
+/**
+ * Decodes encoded image bytes (e.g. PNG or JPEG) into RGBA pixels.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type QRImageDecoder = (bytes: Uint8Array) => Promise<QRImageData>
+
+/**
+ * Configuration parameters for scanning QR codes from images.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface QRImageScannerParams {
+  /**
+   * Decoder for encoded image bytes. Defaults to the platform `createImageBitmap` and
+   * `OffscreenCanvas` APIs, available in browsers and web workers, and otherwise (e.g. in
+   * Node.js) to the optional `pngjs` and `jpeg-js` packages, for PNG and JPEG bytes. Provide a
+   * decoder for other image formats, or one built on another image library such as `sharp`.
+   */
+  imageDecoder?: QRImageDecoder
+
+  /**
+   * Maximum number of QR codes read from a single image.
+   * @defaultValue `20`
+   */
+  maxCodesPerImage?: number
+}
+
+/**
+ * Progress of a {@link ChunkedQRAssembler}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface ChunkedQRProgress {
+  /** Total number of chunks announced by the chunks received, or `null` before the first chunk. */
+  total: number | null
+  /** Indices (1-based) of the chunks received so far, in ascending order. */
+  received: number[]
+  /** Indices (1-based) of the chunks still missing, in ascending order. */
+  missing: number[]
+  /** Whether every chunk was received. */
+  complete: boolean
+  /** The assembled JWS once complete, otherwise `null`. */
+  jws: string | null
+}
+
 /**
  * Minimal JWK descriptor used in the public Directory representation.
  *
@@ -332,6 +769,73 @@ export interface IssuerKey {
   crlVersion?: number
 }
 
+/**
+ * Public ES256 JWK as published in an issuer's `/.well-known/jwks.json`.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface IssuerJWK extends IssuerKey {
+  kty: 'EC'
+  /** Curve, always `P-256` for ES256. */
+  crv: 'P-256'
+  /** Base64url-encoded x coordinate. */
+  x: string
+  /** Base64url-encoded y coordinate. */
+  y: string
+  /** Public key use, always `sig`. */
+  use: 'sig'
+  /** Signing algorithm, always `ES256`. */
+  alg: 'ES256'
+}
+
+/**
+ * JSON Web Key Set document published at `/.well-known/jwks.json`.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface IssuerJWKS {
+  keys: IssuerJWK[]
+}
+
+/**
+ * Key material accepted by {@link IssuerKeyring}.
+ * - A {@link Signer}, or a `privateKey`/`publicKey` pair, can sign and may become the active key.
+ * - A bare `publicKey` is verification-only and is always kept as a retired key.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type IssuerKeyringKey =
+  | Signer
+  | {
+      privateKey: CryptoKey | string | JsonWebKey
+      publicKey: CryptoKey | string | JsonWebKey
+    }
+  | { publicKey: CryptoKey | string | JsonWebKey }
+
+/**
+ * Public view of a key held by an {@link IssuerKeyring}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface IssuerKeyringEntry {
+  /** RFC7638 JWK Thumbprint of the public key. */
+  kid: string
+  /** `active` for the key used to sign new cards, `retired` for keys kept only for verification. */
+  status: 'active' | 'retired'
+  /** Public part of the key. */
+  publicJwk: JsonWebKey
+  /** Optional CRL version advertised in the JWKS for this key. */
+  crlVersion?: number
+}
+
 /**
  * Representation of a Certificate Revocation List (CRL) entry used by the
  * directory to mark revoked resource IDs for a given key.
@@ -363,6 +867,15 @@ export interface IssuerCrl {
 export interface Issuer {
   /** Issuer base URL (the `iss` claim value). */
   iss: string
+  /** Display name of the issuer (e.g. `State Health Department`). */
+  name?: string
+  /** Website of the issuer. */
+  website?: string
+  /**
+   * `iss` of the canonical issuer when this issuer is an alias of it, e.g. an issuer URL that was
+   * replaced but still appears on cards issued before. See {@link Directory.resolveIssuer}.
+   */
+  canonical_iss?: string
   /** JWK descriptors for the issuer. */
   keys: Map<string, IssuerKey>
   /** CRL entries for revoked resource ids. */
@@ -382,30 +895,622 @@ export interface IssuerCrlJSON extends Omit<IssuerCrl, 'rids' | 'ridsTimestamps'
 }
 
 /**
- * Public issuer metadata JSON shape used in published directory files.
+ * Persistence backend for {@link RevocationList}.
+ * Implement this interface to keep CRLs in a database, object storage, etc.
  *
  * @public
  * @group SHC
  * @category Types
  */
-export interface IssuerJSON {
-  issuer: {
-    /** Issuer base URL */
-    iss: string
-  }
-  /** Array of JWK descriptors returned from the issuer's JWKS endpoint. */
-  keys: IssuerKey[]
-  /** Optional CRL entries published alongside the directory. */
-  crls?: IssuerCrlJSON[]
+export interface RevocationStore {
+  /**
+   * Loads the CRL for a key.
+   *
+   * @param kid - Key ID the CRL pertains to
+   * @returns Promise resolving to the stored CRL, or `null` if none was saved yet
+   */
+  load(kid: string): Promise<IssuerCrlJSON | null>
+
+  /**
+   * Persists the CRL for a key, replacing any previous version.
+   *
+   * @param crl - CRL to store
+   */
+  save(crl: IssuerCrlJSON): Promise<void>
 }
 
 /**
- * JSON shape for a published directory file containing issuer metadata.
+ * Cached HTTP response body, as stored in a {@link CacheStore}.
  *
  * @public
  * @group SHC
  * @category Types
  */
-export interface DirectoryJSON {
-  issuerInfo: IssuerJSON[]
+export interface CacheEntry {
+  /** Parsed JSON response body. */
+  value: unknown
+  /** Expiration time in milliseconds since the Unix epoch. */
+  expiresAt: number
+}
+
+/**
+ * Storage backend for cached issuer metadata (JWKS, CRLs and directory snapshots).
+ * Implement this interface to share the cache through Redis, IndexedDB, etc.
+ * The default implementation is {@link LRUCacheStore}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface CacheStore {
+  /**
+   * Returns the entry for a key, or `null` when absent. May return expired entries;
+   * callers check `expiresAt`.
+   */
+  get(key: string): Promise<CacheEntry | null>
+
+  /** Stores an entry, replacing any previous one. */
+  set(key: string, entry: CacheEntry): Promise<void>
+
+  /** Removes an entry. */
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Caching options for fetching issuer metadata.
+ *
+ * Responses are cached for the lifetime given by their `Cache-Control: max-age` or `Expires`
+ * headers, falling back to `cacheTtl`. Responses with `Cache-Control: no-store` or `no-cache`
+ * are never cached.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface CacheOptions {
+  /**
+   * Cache to read from and write to. If `null` or omitted, nothing is cached.
+   */
+  cache?: CacheStore | null
+
+  /**
+   * Lifetime in seconds of cached responses that carry no HTTP caching headers.
+   * @defaultValue `300`
+   */
+  cacheTtl?: number
+
+  /**
+   * Source of the current time, used to compute and check the expiry of cached responses.
+   * @defaultValue the system clock
+   */
+  clock?: Clock
+}
+
+/**
+ * Network options for fetching issuer metadata.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface FetchOptions {
+  /**
+   * Fetch implementation used for network requests (e.g. one that goes through a proxy,
+   * or targets local stub servers in tests).
+   * @defaultValue the global `fetch`
+   */
+  fetch?: (url: string, options?: RequestInit) => Promise<Response>
+
+  /**
+   * Timeout in milliseconds for each request, including reading the response body.
+   * If `null` or omitted, requests never time out.
+   */
+  fetchTimeout?: number | null
+
+  /**
+   * Signal to cancel in-flight requests. Once aborted, requests reject with the signal's reason.
+   */
+  signal?: AbortSignal | null
+}
+
+/**
+ * Public issuer metadata JSON shape used in published directory files.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface IssuerJSON {
+  issuer: {
+    /** Issuer base URL */
+    iss: string
+    /** Display name of the issuer */
+    name?: string
+    /** Website of the issuer */
+    website?: string
+    /** `iss` of the canonical issuer, when this issuer is an alias of it */
+    canonical_iss?: string
+  }
+  /** Array of JWK descriptors returned from the issuer's JWKS endpoint. */
+  keys: IssuerKey[]
+  /** Optional CRL entries published alongside the directory. */
+  crls?: IssuerCrlJSON[]
+}
+
+/**
+ * JSON shape for a published directory file containing issuer metadata.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface DirectoryJSON {
+  issuerInfo: IssuerJSON[]
+}
+
+/**
+ * Outcome of {@link Directory.refresh}, listing issuers by their `iss` value.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface DirectoryRefreshResult {
+  /** Issuers whose keys or CRLs changed. */
+  updated: string[]
+  /** Issuers whose keys and CRLs were all up to date. */
+  unchanged: string[]
+  /** Issuers that could not be fully refreshed, keeping the metadata refreshed before the failure. */
+  failed: Array<{ iss: string; error: string }>
+}
+
+/**
+ * Options for {@link Directory.fromURLs} and {@link Directory.fromURLsWithReport}.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface DirectoryFetchOptions extends CacheOptions, FetchOptions {
+  /**
+   * Maximum number of requests in flight at once, across all issuers.
+   * @defaultValue `8`
+   */
+  concurrency?: number
+}
+
+/**
+ * Outcome of fetching one issuer metadata document (JWKS or CRL).
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface DirectoryFetchOutcome {
+  /** URL of the document. */
+  url: string
+  /** Whether the document was fetched and loaded. */
+  ok: boolean
+  /** HTTP status of the response, when the server answered with an error status. */
+  httpStatus?: number
+  /** Why the document could not be loaded (HTTP error, network error, timeout or invalid content). */
+  error?: string
+}
+
+/**
+ * What {@link Directory.fromURLsWithReport} loaded for one issuer.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface DirectoryIssuerReport {
+  /** Issuer base URL. */
+  iss: string
+  /** Outcome of fetching the issuer JWKS. When it failed, the issuer is not in the directory. */
+  jwks: DirectoryFetchOutcome
+  /** Outcome of fetching the CRL of each key, empty when the JWKS could not be loaded. */
+  crls: Array<DirectoryFetchOutcome & { kid: string }>
+}
+
+/**
+ * Result of {@link Directory.fromURLsWithReport}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface DirectoryLoadResult {
+  /** Directory holding every issuer whose JWKS was loaded. */
+  directory: Directory
+  /** One report per issuer URL, in the order they were given. */
+  report: DirectoryIssuerReport[]
+}
+
+/**
+ * Patient details of a {@link HealthCardSummary}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface PatientSummary {
+  /** Full name, from `HumanName.text` or the given and family names. */
+  name: string | null
+  /** Given names. */
+  givenNames: string[]
+  /** Family name. */
+  familyName: string | null
+  /** Birth date (`YYYY`, `YYYY-MM` or `YYYY-MM-DD`). */
+  birthDate: string | null
+}
+
+/**
+ * Immunization entry of a {@link HealthCardSummary}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface ImmunizationSummary {
+  /** Code system of the vaccine (e.g. `http://hl7.org/fhir/sid/cvx`). */
+  system: string | null
+  /** Vaccine code (e.g. CVX `207`). */
+  code: string | null
+  /** Vaccine display text, when present (QR-optimized bundles omit it). */
+  display: string | null
+  /** Date the vaccine was administered. */
+  date: string | null
+  /** Vaccine lot number. */
+  lotNumber: string | null
+  /** Name of the organization or practitioner that administered the vaccine. */
+  performer: string | null
+  /** Immunization status (e.g. `completed`). */
+  status: string | null
+  /** The FHIR Immunization resource. */
+  resource: Immunization
+}
+
+/**
+ * Laboratory result entry of a {@link HealthCardSummary}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface LabResultSummary {
+  /** Code system of the test (e.g. `http://loinc.org`). */
+  system: string | null
+  /** Test code (e.g. a LOINC code). */
+  code: string | null
+  /** Test display text, when present (QR-optimized bundles omit it). */
+  display: string | null
+  /** Date the specimen was collected, or the result was issued. */
+  date: string | null
+  /** Result value: the display or code of coded results, or a quantity with its unit. */
+  value: string | null
+  /** Name of the organization or practitioner that performed the test. */
+  performer: string | null
+  /** Observation status (e.g. `final`). */
+  status: string | null
+  /** The FHIR Observation resource. */
+  resource: Observation
+}
+
+/**
+ * Clinical summary of a SMART Health Card, returned by {@link SHC.getSummary}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface HealthCardSummary {
+  /** The patient, or `null` when the bundle has no Patient resource. */
+  patient: PatientSummary | null
+  /** Immunizations, in bundle order. */
+  immunizations: ImmunizationSummary[]
+  /** Laboratory results, in bundle order. */
+  labResults: LabResultSummary[]
+}
+
+/**
+ * Bundle profiles of the SMART Health Cards Vaccination and Testing IG.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type SHCProfile = 'vaccination' | 'laboratory'
+
+/**
+ * Profile to validate bundles against: an {@link SHCProfile}, or `'auto'` to pick one from the
+ * bundle content.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type SHCProfileSelection = SHCProfile | 'auto'
+
+/**
+ * Kind of a {@link ProfileViolation}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type ProfileViolationCode =
+  | 'MISSING_ELEMENT'
+  | 'INVALID_VALUE'
+  | 'INVALID_CARDINALITY'
+  | 'INVALID_CODE_SYSTEM'
+  | 'RESOURCE_TYPE_NOT_ALLOWED'
+  | 'UNRESOLVED_REFERENCE'
+
+/**
+ * A way in which a FHIR Bundle does not conform to a SMART Health Cards IG profile.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface ProfileViolation {
+  /** Profile the bundle was validated against. */
+  profile: SHCProfile
+  /** FHIRPath-like location of the violation (e.g. `Bundle.entry[1].resource.vaccineCode.coding`). */
+  path: string
+  /** Kind of violation. */
+  code: ProfileViolationCode
+  /** Human-readable description. */
+  message: string
+}
+
+/**
+ * How a health card fits in version 22 QR codes at one error correction level.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface QRFitEstimate {
+  /** QR code error correction level. */
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H'
+  /** Longest JWS a single version 22 QR code holds at this level. */
+  maxSingleQRSize: number
+  /** Whether the JWS fits a single QR code. */
+  fitsSingleQR: boolean
+  /** Number of QR codes needed when chunking (1 when it fits a single QR code). */
+  chunkCount: number
+}
+
+/**
+ * Size of one bundle entry, as part of an {@link IssuancePlan}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface ResourceSizeContribution {
+  /** Index of the entry in the (processed) bundle, as in `resource:N` references. */
+  index: number
+  /** Resource type of the entry. */
+  resourceType: string
+  /** Size in bytes of the entry in the minified bundle JSON. */
+  bytes: number
+  /** Fraction of the minified bundle JSON taken by the entry, between 0 and 1. */
+  share: number
+}
+
+/**
+ * Size estimation of a health card, returned by {@link SHCIssuer.plan}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface IssuancePlan {
+  /** Size in bytes of the minified JWT payload JSON. */
+  minifiedPayloadBytes: number
+  /** Size in bytes of the DEFLATE-compressed JWT payload. */
+  compressedPayloadBytes: number
+  /** Length of the compact JWS. */
+  jwsLength: number
+  /** QR fit at each error correction level, from `L` (largest capacity) to `H`. */
+  qr: QRFitEstimate[]
+  /** Size of each bundle entry, largest first. */
+  resources: ResourceSizeContribution[]
+}
+
+/**
+ * Where a {@link QRMinificationRule} applies: one property of an object within a bundle resource.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface QRMinificationContext {
+  /** Property name (e.g. `display`). */
+  key: string
+  /** Element path from the entry resource, without array indices (e.g. `Immunization.vaccineCode.coding.display`). */
+  path: string
+  /** Resource type of the bundle entry resource. */
+  resourceType: string
+  /** Object holding the property, before minification. */
+  parent: Record<string, unknown>
+}
+
+/**
+ * A named step of the QR minification pipeline of {@link FHIRBundleProcessor.processForQR}.
+ * See {@link qrMinificationRules} for the built-in rules.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export interface QRMinificationRule {
+  /** Rule name, used to find the rule when disabling or replacing it in a rule list. */
+  name: string
+  /**
+   * Minifies a property value.
+   *
+   * @param value - Property value, as returned by the previous rule of the pipeline
+   * @param context - Property being minified
+   * @returns The value to keep, possibly modified, or `undefined` to drop the property
+   *  (later rules then do not run)
+   */
+  apply(value: unknown, context: QRMinificationContext): unknown
+}
+
+/**
+ * Built-in QR minification rule sets (see {@link getQRMinificationRules}):
+ * - `'spec-minimum'`: only drops null values and empty arrays
+ * - `'reference-implementation'`: also drops the elements the SMART Health Cards specification says
+ *   SHOULD be omitted (`Resource.id`, `Resource.meta` but `meta.security`, narratives,
+ *   `CodeableConcept.text` and `Coding.display`), like the reference implementation
+ * - `'aggressive'`: also drops `Coding.version`, `Coding.userSelected` and all extensions
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type QRMinificationPreset = 'spec-minimum' | 'reference-implementation' | 'aggressive'
+
+/**
+ * Parameters for {@link SHCIssuer.issueSplit}.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface SplitIssuanceParams extends VerifiableCredentialParams {
+  /**
+   * QR code error correction level each card must fit a single version 22 QR code at.
+   * @defaultValue `'L'`, as recommended by the SMART Health Cards specification
+   */
+  errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H'
+}
+
+/**
+ * Parameters for {@link SHCIssuer.issueMany}.
+ *
+ * The Verifiable Credential parameters apply to every card of the batch.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface BatchIssuanceParams extends VerifiableCredentialParams {
+  /**
+   * Maximum number of cards processed, compressed and signed at once.
+   * @defaultValue `8`
+   */
+  concurrency?: number
+  /**
+   * Returns Verifiable Credential parameters for one bundle of the batch, merged over the
+   * batch-wide parameters (e.g. a per-patient `ridSubject`).
+   */
+  credentialParams?: (bundle: FHIRBundle, index: number) => VerifiableCredentialParams
+}
+
+/**
+ * Outcome of issuing one bundle of a batch, as returned by {@link SHCIssuer.issueMany}.
+ *
+ * @public
+ * @group SHC
+ * @category Types
+ */
+export type BatchIssuanceResult =
+  | {
+      /** Position of the bundle in the batch. */
+      index: number
+      ok: true
+      /** The issued health card. */
+      healthCard: SHC
+    }
+  | {
+      /** Position of the bundle in the batch. */
+      index: number
+      ok: false
+      /** Why the bundle could not be issued. */
+      error: SHCError
+    }
+
+/**
+ * Labels of a printable health card rendered by {@link HealthCardRenderer}, for localization.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface HealthCardLabels {
+  /** Document title. @defaultValue `'SMART Health Card'` */
+  title: string
+  /** @defaultValue `'Issuer'` */
+  issuer: string
+  /** @defaultValue `'Issued'` */
+  issued: string
+  /** @defaultValue `'Expires'` */
+  expires: string
+  /** @defaultValue `'Patient'` */
+  patient: string
+  /** @defaultValue `'Name'` */
+  name: string
+  /** @defaultValue `'Date of birth'` */
+  birthDate: string
+  /** Heading of the immunizations table. @defaultValue `'Immunizations'` */
+  immunizations: string
+  /** Heading of the laboratory results table. @defaultValue `'Laboratory results'` */
+  labResults: string
+  /** @defaultValue `'Date'` */
+  date: string
+  /** @defaultValue `'Vaccine'` */
+  vaccine: string
+  /** @defaultValue `'Lot number'` */
+  lotNumber: string
+  /** @defaultValue `'Test'` */
+  test: string
+  /** @defaultValue `'Result'` */
+  result: string
+  /** @defaultValue `'Performer'` */
+  performer: string
+  /** @defaultValue `'Status'` */
+  status: string
+  /** Text below the QR codes. @defaultValue `'Scan the QR code with a SMART Health Card verifier app.'` */
+  scanInstructions: string
+}
+
+/**
+ * Configuration parameters for {@link HealthCardRenderer}.
+ *
+ * @public
+ * @group SHC
+ * @category Configuration
+ */
+export interface HealthCardRendererConfigParams {
+  /** Labels overriding the English defaults. See {@link HealthCardLabels}. */
+  labels?: Partial<HealthCardLabels>
+
+  /**
+   * BCP 47 locale used to format dates, and as the HTML document language.
+   * @defaultValue `'en-US'`
+   */
+  locale?: string
+
+  /**
+   * Returns a display name for a code (e.g. a vaccine name for a CVX code), used when the bundle
+   * has none, which is the case of QR-optimized bundles. Return `undefined` to fall back to the
+   * code system name and code (e.g. `CVX 207`).
+   */
+  codeDisplay?: (system: string | null, code: string | null) => string | undefined
+
+  /**
+   * QR code configuration, e.g. to enable chunking of large cards. See {@link QRCodeConfigParams}.
+   */
+  qr?: QRCodeConfigParams
+
+  /**
+   * Page size of PDF documents.
+   * @defaultValue `'A4'`
+   */
+  pageSize?: 'A4' | 'Letter'
 }
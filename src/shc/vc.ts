@@ -1,6 +1,36 @@
 import { BundleValidationError, CredentialValidationError } from './errors.js'
+import { isValidRid, RID_MAX_LENGTH } from './rid.js'
 import type { FHIRBundle, VerifiableCredential, VerifiableCredentialParams } from './types.js'
 
+const HEALTH_CARD_TYPE = 'https://smarthealth.cards#health-card'
+const IMMUNIZATION_TYPE = 'https://smarthealth.cards#immunization'
+const LABORATORY_TYPE = 'https://smarthealth.cards#laboratory'
+const COVID19_TYPE = 'https://smarthealth.cards#covid19'
+
+/** CVX codes of COVID-19 vaccines */
+const COVID19_CVX_CODES = new Set(
+  (
+    '207 208 210 211 212 213 217 218 219 221 225 226 227 228 229 230 300 301 302 500 501 502 503 ' +
+    '504 505 506 507 508 509 510 511 512 513 514 515 516 517 518 519 520 521'
+  ).split(' ')
+)
+
+/** ICD-11 codes of COVID-19 vaccines */
+const COVID19_ICD11_CODES = new Set(['XM68M6', 'XM1NL1'])
+
+/** LOINC codes of SARS-CoV-2 laboratory tests */
+const COVID19_LOINC_CODES = new Set(
+  (
+    '94306-8 94307-6 94308-4 94309-2 94316-7 94500-6 94502-2 94505-5 94506-3 94507-1 94508-9 ' +
+    '94531-1 94533-7 94534-5 94547-7 94558-4 94559-2 94562-6 94563-4 94564-2 94565-9 94661-6 ' +
+    '94756-4 94757-2 94759-8 94760-6 94762-2 94769-7 94845-5 95209-3 95406-5 95409-9 95416-4 ' +
+    '95423-0 95424-8 95425-5 95542-7 95608-6 95609-4 95825-6 96119-3 96120-1 96121-9 96122-7 ' +
+    '96123-5 96448-6 96603-6 96741-4 96751-3 96752-1 96763-8 96764-6 96765-3 96766-1 96797-6 ' +
+    '96829-7 96894-1 96895-8 96896-6 96897-4 96898-2 96899-0 96900-6 96957-6 96958-4 96986-5 ' +
+    '97097-0 97098-8 97099-6 98069-8 98132-4 98733-9'
+  ).split(' ')
+)
+
 /**
  * Creates and validates Verifiable Credentials for SMART Health Cards.
  *
@@ -15,15 +45,23 @@ export class VerifiableCredentialProcessor {
    * @param fhirBundle - FHIR Bundle to create credential from
    * @param config - Optional Verifiable Credential parameters. See {@link VerifiableCredentialParams}.
    * @returns Verifiable Credential structure
-   * @throws {@link CredentialValidationError} When the input bundle is invalid
+   * @throws {@link CredentialValidationError} When the input bundle or `rid` is invalid
    */
   create(fhirBundle: FHIRBundle, config: VerifiableCredentialParams = {}): VerifiableCredential {
     if (!fhirBundle || fhirBundle.resourceType !== 'Bundle') {
       throw new CredentialValidationError('Invalid FHIR Bundle provided')
     }
+    if (config.rid !== undefined && !isValidRid(config.rid)) {
+      throw new CredentialValidationError(
+        `Invalid rid '${config.rid}': must be a base64url string of at most ${RID_MAX_LENGTH} characters`
+      )
+    }
 
     const fhirVersion = config.fhirVersion || '4.0.1'
-    const type = this.createStandardTypes(config.includeAdditionalTypes)
+    const type = this.createStandardTypes([
+      ...(config.inferTypes ? this.inferTypes(fhirBundle) : []),
+      ...(config.includeAdditionalTypes ?? []),
+    ])
 
     const vc: VerifiableCredential = {
       vc: {
@@ -39,6 +77,51 @@ export class VerifiableCredentialProcessor {
     return vc
   }
 
+  /**
+   * Infers the SMART Health Cards VC types matching the content of a FHIR Bundle, beyond
+   * `https://smarthealth.cards#health-card`:
+   * - `https://smarthealth.cards#immunization` when it holds Immunization resources
+   * - `https://smarthealth.cards#laboratory` when it holds laboratory Observation resources
+   * - `https://smarthealth.cards#covid19` when a vaccine code (CVX or ICD-11) or a test code (LOINC)
+   *   is a COVID-19 one
+   *
+   * @param fhirBundle - FHIR Bundle to inspect
+   * @returns The inferred type URIs, in the order above
+   * @example
+   * new VerifiableCredentialProcessor().inferTypes(covidVaccinationBundle)
+   * // ['https://smarthealth.cards#immunization', 'https://smarthealth.cards#covid19']
+   */
+  inferTypes(fhirBundle: FHIRBundle): string[] {
+    let immunization = false
+    let laboratory = false
+    let covid19 = false
+    for (const { resource } of fhirBundle.entry ?? []) {
+      if (resource?.resourceType === 'Immunization') {
+        immunization = true
+        covid19 ||= (resource.vaccineCode?.coding ?? []).some(
+          ({ system, code = '' }) =>
+            (system === 'http://hl7.org/fhir/sid/cvx' && COVID19_CVX_CODES.has(code)) ||
+            (system === 'http://id.who.int/icd/release/11/mms' && COVID19_ICD11_CODES.has(code))
+        )
+      } else if (resource?.resourceType === 'Observation') {
+        const categories = resource.category?.flatMap(category => category.coding ?? []) ?? []
+        // Observations without category are assumed to be laboratory results
+        if (categories.length > 0 && !categories.some(({ code }) => code === 'laboratory')) {
+          continue
+        }
+        laboratory = true
+        covid19 ||= (resource.code?.coding ?? []).some(
+          ({ system, code = '' }) => system === 'http://loinc.org' && COVID19_LOINC_CODES.has(code)
+        )
+      }
+    }
+    return [
+      ...(immunization ? [IMMUNIZATION_TYPE] : []),
+      ...(laboratory ? [LABORATORY_TYPE] : []),
+      ...(covid19 ? [COVID19_TYPE] : []),
+    ]
+  }
+
   /**
    * Validates a Verifiable Credential structure.
    *
@@ -67,10 +150,11 @@ export class VerifiableCredentialProcessor {
 
   /** Creates the standard type array per SMART Health Cards specification */
   private createStandardTypes(additionalTypes?: string[]): string[] {
-    const standardTypes = ['https://smarthealth.cards#health-card']
+    const standardTypes = [HEALTH_CARD_TYPE]
 
     if (additionalTypes && additionalTypes.length > 0) {
-      return [...standardTypes, ...additionalTypes]
+      // Inferred and explicitly requested types may overlap
+      return Array.from(new Set([...standardTypes, ...additionalTypes]))
     }
 
     return standardTypes
@@ -86,10 +170,8 @@ export class VerifiableCredentialProcessor {
       throw new CredentialValidationError('VC type must contain at least 1 element')
     }
 
-    if (!types.includes('https://smarthealth.cards#health-card')) {
-      throw new CredentialValidationError(
-        'VC type must include https://smarthealth.cards#health-card'
-      )
+    if (!types.includes(HEALTH_CARD_TYPE)) {
+      throw new CredentialValidationError(`VC type must include ${HEALTH_CARD_TYPE}`)
     }
   }
 
@@ -1,4 +1,5 @@
 import type { List, Resource } from '@medplum/fhirtypes'
+import { type Clock, nowInSeconds, systemClock } from '../common/clock.js'
 import type { SHC } from '../shc/shc.js'
 import { encryptSHLFile } from './crypto.js'
 import { SHLError, SHLExpiredError, SHLManifestError, SHLNetworkError } from './errors.js'
@@ -81,6 +82,8 @@ export class SHLManifestBuilder {
     | undefined
   private readonly _files: SHLManifestFileDBAttrs[] = []
   private readonly maxParallelism: number
+  private readonly clock: Clock
+  private readonly clockSkewTolerance: number
 
   /**
    * Create a manifest builder for the given SHL.
@@ -111,6 +114,10 @@ export class SHLManifestBuilder {
    *   Only used if `loadFile` is not provided. Defaults to global fetch.
    * @param params.maxParallelism - Optional maximum number of concurrent file operations.
    *   Defaults to 5. Used for parallelizing file loading and URL generation in buildManifest.
+   * @param params.clock - Optional source of the current time, used for expiration checks and
+   *   `lastUpdated` timestamps. Defaults to the system clock.
+   * @param params.clockSkewTolerance - Optional number of seconds an SHL is still served after its
+   *   expiration, to tolerate clock differences with the SHL creator. Defaults to 0.
    *
    * @example
    * ```typescript
@@ -148,6 +155,8 @@ export class SHLManifestBuilder {
     updateFile?: (path: string, content: string, contentType?: SHLFileContentType) => Promise<void>
     fetch?: (url: string, options?: RequestInit) => Promise<Response>
     maxParallelism?: number
+    clock?: Clock
+    clockSkewTolerance?: number
   }) {
     this._shl = params.shl
     this.uploadFile = params.uploadFile
@@ -160,6 +169,12 @@ export class SHLManifestBuilder {
       throw new SHLManifestError('maxParallelism must be greater than 0')
     }
 
+    this.clock = params.clock ?? systemClock
+    this.clockSkewTolerance = params.clockSkewTolerance ?? 0
+    if (!(this.clockSkewTolerance >= 0)) {
+      throw new SHLManifestError('clockSkewTolerance must be a non-negative number of seconds')
+    }
+
     // Use provided loadFile or create default implementation
     this.loadFile = params.loadFile ?? this.createDefaultLoadFile(params.fetch ?? fetch)
   }
@@ -264,7 +279,7 @@ export class SHLManifestBuilder {
       type: encryptedFile.type,
       storagePath,
       ciphertextLength: encryptedFile.jwe.length,
-      lastUpdated: new Date().toISOString(),
+      lastUpdated: new Date(this.clock()).toISOString(),
     })
     return { encryptedFile, storagePath, ciphertextLength: encryptedFile.jwe.length }
   }
@@ -320,7 +335,7 @@ export class SHLManifestBuilder {
       type: encryptedFile.type,
       storagePath,
       ciphertextLength: encryptedFile.jwe.length,
-      lastUpdated: new Date().toISOString(),
+      lastUpdated: new Date(this.clock()).toISOString(),
     })
     return { encryptedFile, storagePath, ciphertextLength: encryptedFile.jwe.length }
   }
@@ -447,7 +462,7 @@ export class SHLManifestBuilder {
         type: encryptedFile.type,
         storagePath,
         ciphertextLength: encryptedFile.jwe.length,
-        lastUpdated: (lastUpdated ?? new Date()).toISOString(),
+        lastUpdated: (lastUpdated ?? new Date(this.clock())).toISOString(),
       }
     } catch (error) {
       if (error instanceof SHLError) {
@@ -534,7 +549,7 @@ export class SHLManifestBuilder {
         type: encryptedFile.type,
         storagePath,
         ciphertextLength: encryptedFile.jwe.length,
-        lastUpdated: (lastUpdated ?? new Date()).toISOString(),
+        lastUpdated: (lastUpdated ?? new Date(this.clock())).toISOString(),
       }
     } catch (error) {
       if (error instanceof SHLError) {
@@ -703,7 +718,7 @@ export class SHLManifestBuilder {
     const list = params.list
 
     // Check expiration
-    if (this._shl.exp && this._shl.exp < Math.floor(Date.now() / 1000)) {
+    if (this._shl.exp && this._shl.exp + this.clockSkewTolerance < nowInSeconds(this.clock)) {
       throw new SHLExpiredError('SHL has expired')
     }
 
@@ -832,6 +847,8 @@ export class SHLManifestBuilder {
    * @param params.updateFile - Optional function to update files (same signature as constructor)
    * @param params.fetch - Optional fetch implementation for default loadFile (same signature as constructor)
    * @param params.maxParallelism - Optional maximum number of concurrent file operations (same signature as constructor)
+   * @param params.clock - Optional source of the current time (same signature as constructor)
+   * @param params.clockSkewTolerance - Optional expiration tolerance in seconds (same signature as constructor)
    * @returns New `SHLManifestBuilder` instance with restored state
    *
    * @example
@@ -865,6 +882,8 @@ export class SHLManifestBuilder {
     updateFile?: (path: string, content: string, contentType?: SHLFileContentType) => Promise<void>
     fetch?: (url: string, options?: RequestInit) => Promise<Response>
     maxParallelism?: number
+    clock?: Clock
+    clockSkewTolerance?: number
   }): SHLManifestBuilder {
     // Reconstruct the SHL instance
     const shl = SHL.fromPayload(params.shl)
@@ -879,6 +898,10 @@ export class SHLManifestBuilder {
       ...(params.updateFile && { updateFile: params.updateFile }),
       ...(params.fetch && { fetch: params.fetch }),
       ...(params.maxParallelism !== undefined && { maxParallelism: params.maxParallelism }),
+      ...(params.clock && { clock: params.clock }),
+      ...(params.clockSkewTolerance !== undefined && {
+        clockSkewTolerance: params.clockSkewTolerance,
+      }),
     })
 
     // Restore the file metadata
@@ -1,5 +1,7 @@
 import { base64url } from 'jose'
-import QRCode from 'qrcode'
+import type QRCode from 'qrcode'
+import { renderQR } from '../shc/qr/qr-renderer.js'
+import type { QROutputFormat, QROutputParams, QROutputTypes } from '../shc/types.js'
 import { SHLError, SHLFormatError } from './errors.js'
 import type { SHLFlag, SHLPayloadV1, SHLQREncodeParams } from './types.js'
 
@@ -326,9 +328,9 @@ export class SHL {
   }
 
   /**
-   * Generate a QR code as a Data URL for the SHL URI.
+   * Generate a QR code for the SHL URI, as a Data URL or in another output format.
    *
-   * Creates a QR code image encoded as a base64 Data URL that can be used
+   * By default, creates a QR code image encoded as a base64 Data URL that can be used
    * directly in HTML img tags or displayed in applications.
    *
    * @param params - Optional QR code generation options. The object can contain:
@@ -337,7 +339,8 @@ export class SHL {
    *   - `margin`: Margin around the QR code in modules (default: 1)
    *   - `errorCorrectionLevel`: Error correction level 'L', 'M', 'Q', or 'H' (default: 'M', per spec)
    *   - `color`: Color options for dark and light modules
-   * @returns Promise that resolves to a Data URL string
+   *   - `format`: Output format (default: `'dataURL'`). See {@link QROutputFormat}.
+   * @returns Promise that resolves to the QR code in the requested format (a Data URL string by default)
    *
    * @example
    * ```typescript
@@ -355,9 +358,14 @@ export class SHL {
    *   errorCorrectionLevel: 'H',
    *   color: { dark: '#000000', light: '#FFFFFF' }
    * });
+   *
+   * // PNG bytes for server-side storage
+   * const png = await shl.asQR({ format: 'png' });
    * ```
    */
-  async asQR(params?: SHLQREncodeParams): Promise<string> {
+  async asQR<F extends QROutputFormat = 'dataURL'>(
+    params?: SHLQREncodeParams & QROutputParams<F>
+  ): Promise<QROutputTypes[F]> {
     let shlinkURI = this.toURI()
     if (params?.viewerURL) {
       shlinkURI = `${params.viewerURL}#${shlinkURI}`
@@ -371,7 +379,7 @@ export class SHL {
       type: 'image/png',
     }
 
-    return QRCode.toDataURL(shlinkURI, qrOptions)
+    return renderQR(shlinkURI, qrOptions, params?.format ?? ('dataURL' as F))
   }
 
   /**
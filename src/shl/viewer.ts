@@ -1,4 +1,5 @@
 import type { Resource } from '@medplum/fhirtypes'
+import { type Clock, nowInSeconds, systemClock } from '../common/clock.js'
 import { SHCReader } from '../shc/reader.js'
 import type { SHC } from '../shc/shc.js'
 import type { SHCReaderConfigParams } from '../shc/types.js'
@@ -62,6 +63,8 @@ import type {
 export class SHLViewer {
   private readonly _shl: SHL
   private readonly fetchImpl: (url: string, options?: RequestInit) => Promise<Response>
+  private readonly clock: Clock
+  private readonly clockSkewTolerance: number
 
   /**
    * Create an SHL viewer.
@@ -74,6 +77,12 @@ export class SHLViewer {
    *   Supports both bare URIs (`shlink:/...`) and viewer-prefixed URIs (`https://viewer.example/#shlink:/...`)
    * @param params.fetch - Optional fetch implementation for network requests.
    *   Defaults to global fetch. Useful for testing or custom network handling.
+   * @param params.clock - Optional source of the current time, used for expiration checks.
+   *   Defaults to the system clock. Also used to verify SMART Health Cards unless
+   *   `shcReaderConfig` sets its own clock.
+   * @param params.clockSkewTolerance - Optional number of seconds of clock difference with the
+   *   SHL creator tolerated when checking expiration. Defaults to 0. Also applied to SMART Health
+   *   Cards unless `shcReaderConfig` sets its own tolerance.
    *
    * @example
    * ```typescript
@@ -92,6 +101,8 @@ export class SHLViewer {
   constructor(params: {
     shlinkURI: string
     fetch?: (url: string, options?: RequestInit) => Promise<Response>
+    clock?: Clock
+    clockSkewTolerance?: number
   }) {
     // Bind fetch to the global object to avoid "Illegal invocation" when called as a bare function
     const chosenFetch = params?.fetch ?? (globalThis as unknown as { fetch?: typeof fetch }).fetch
@@ -106,6 +117,12 @@ export class SHLViewer {
       )
     }
 
+    this.clock = params.clock ?? systemClock
+    this.clockSkewTolerance = params.clockSkewTolerance ?? 0
+    if (!(this.clockSkewTolerance >= 0)) {
+      throw new SHLViewerError('clockSkewTolerance must be a non-negative number of seconds')
+    }
+
     this._shl = SHL.parse(params.shlinkURI)
   }
 
@@ -207,7 +224,7 @@ export class SHLViewer {
     }
 
     // Check expiration
-    if (shl.exp && shl.exp < Math.floor(Date.now() / 1000)) {
+    if (shl.exp && shl.exp + this.clockSkewTolerance < nowInSeconds(this.clock)) {
       throw new SHLExpiredError('SHL has expired')
     }
 
@@ -630,7 +647,11 @@ export class SHLViewer {
             'Invalid SMART Health Card file: missing verifiableCredential array'
           )
         }
-        const reader = new SHCReader(shcReaderConfig ?? {})
+        const reader = new SHCReader({
+          clock: this.clock,
+          clockSkewTolerance: this.clockSkewTolerance,
+          ...shcReaderConfig,
+        })
         for (const jws of fileContent.verifiableCredential) {
           try {
             const shc = await reader.fromJWS(jws)
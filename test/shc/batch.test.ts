@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  BundleValidationError,
+  deriveRid,
+  type FHIRBundle,
+  JWSProcessor,
+  MockRemoteSigner,
+  SHCIssuer,
+  SHCIssuerConfigError,
+  SHCReader,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const ISS_URL = 'https://example.com/issuer'
+
+const createBundles = (count: number): FHIRBundle[] =>
+  Array.from({ length: count }, (_, i) => {
+    const bundle = createValidFHIRBundle()
+    bundle.entry![0]!.resource = { resourceType: 'Patient', name: [{ text: `Patient ${i}` }] }
+    return bundle
+  })
+
+describe('SHCIssuer.issueMany()', () => {
+  it('should issue a verifiable card per bundle, in batch order', async () => {
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      ridSecret: 'issuer-secret',
+    })
+    const bundles = createBundles(5)
+
+    const results = await issuer.issueMany(bundles, {
+      concurrency: 2,
+      includeAdditionalTypes: ['https://smarthealth.cards#covid19'],
+      credentialParams: (_bundle, index) => ({ ridSubject: `patient-${index}` }),
+    })
+
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI })
+    expect(results.map(result => result.index)).toEqual([0, 1, 2, 3, 4])
+    for (const [index, result] of results.entries()) {
+      if (!result.ok) throw result.error
+      const healthCard = await reader.fromJWS(result.healthCard.asJWS())
+      expect(await healthCard.asBundle()).toMatchObject({
+        entry: [{ resource: { name: [{ text: `Patient ${index}` }] } }, {}],
+      })
+      const payload = await new JWSProcessor().verify(result.healthCard.asJWS(), testPublicKeySPKI)
+      expect(payload.vc.type).toContain('https://smarthealth.cards#covid19')
+      expect(payload.vc.rid).toBe(await deriveRid('issuer-secret', `patient-${index}`))
+      expect(result.healthCard.getOriginalBundle()).toBe(bundles[index])
+    }
+  })
+
+  it('should report failures without aborting the batch', async () => {
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    const bundles = createBundles(3)
+    bundles[1] = { resourceType: 'Patient' } as unknown as FHIRBundle
+
+    const results = await issuer.issueMany(bundles)
+
+    expect(results.map(result => result.ok)).toEqual([true, false, true])
+    const failure = results[1]!
+    expect(!failure.ok && failure.error).toBeInstanceOf(BundleValidationError)
+  })
+
+  it('should derive the kid once and keep at most `concurrency` cards in progress', async () => {
+    const signer = new MockRemoteSigner({
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      latencyMs: 5,
+    })
+    const getKid = vi.spyOn(signer, 'getKid')
+    let inFlight = 0
+    let maxInFlight = 0
+    const sign = signer.sign.bind(signer)
+    vi.spyOn(signer, 'sign').mockImplementation(async data => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      try {
+        return await sign(data)
+      } finally {
+        inFlight--
+      }
+    })
+    const issuer = new SHCIssuer({ issuer: ISS_URL, signer })
+
+    const results = await issuer.issueMany(createBundles(6), { concurrency: 3 })
+
+    expect(results.every(result => result.ok)).toBe(true)
+    expect(signer.signCount).toBe(6)
+    expect(getKid).toHaveBeenCalledTimes(1)
+    expect(maxInFlight).toBe(3)
+  })
+
+  it('should reject an invalid concurrency', async () => {
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+
+    await expect(issuer.issueMany(createBundles(1), { concurrency: 0 })).rejects.toThrow(
+      new SHCIssuerConfigError(
+        'SHCIssuer configuration error: concurrency must be a positive integer'
+      )
+    )
+  })
+})
@@ -0,0 +1,178 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Directory, IssuerKeyring, LRUCacheStore, SHCIssuer, SHCReader } from '@/index'
+import {
+  buildTestJwkData,
+  createValidFHIRBundle,
+  testPrivateKeyPKCS8,
+  testPublicKeySPKI,
+} from '../helpers'
+
+describe('Caching', () => {
+  const ISS_URL = 'https://example.com/issuer'
+  const JWKS_URL = `${ISS_URL}/.well-known/jwks.json`
+  let jws: string
+  let jwks: { keys: Record<string, unknown>[] }
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  const jsonResponse = (body: unknown, headers: Record<string, string> = {}) => ({
+    ok: true,
+    status: 200,
+    headers: new Headers(headers),
+    json: async () => body,
+  })
+
+  beforeEach(async () => {
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    jws = (await issuer.issue(createValidFHIRBundle())).asJWS()
+    const { jwk, kid } = await buildTestJwkData()
+    jwks = { keys: [{ ...jwk, kid }] }
+    fetchMock = vi.fn(async (url: string) => {
+      if (url === JWKS_URL) return jsonResponse(jwks)
+      if (url.includes('vci_snapshot.json')) {
+        return jsonResponse({ issuerInfo: [{ issuer: { iss: ISS_URL }, keys: jwks.keys }] })
+      }
+      return { ok: false, status: 404, statusText: 'Not Found' }
+    })
+    vi.stubGlobal('fetch', fetchMock as any)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  describe('LRUCacheStore', () => {
+    it('should evict the least recently used entry', async () => {
+      const cache = new LRUCacheStore({ maxEntries: 2 })
+      const expiresAt = Date.now() + 60_000
+      await cache.set('a', { value: 1, expiresAt })
+      await cache.set('b', { value: 2, expiresAt })
+      await cache.get('a')
+      await cache.set('c', { value: 3, expiresAt })
+
+      expect(await cache.get('b')).toBeNull()
+      expect((await cache.get('a'))?.value).toBe(1)
+      expect((await cache.get('c'))?.value).toBe(3)
+    })
+
+    it('should drop expired entries', async () => {
+      const cache = new LRUCacheStore()
+      await cache.set('a', { value: 1, expiresAt: Date.now() - 1 })
+
+      expect(await cache.get('a')).toBeNull()
+      expect(cache.size).toBe(0)
+    })
+
+    it('should check expiry against the injected clock', async () => {
+      let now = Date.UTC(2030, 0, 1)
+      const cache = new LRUCacheStore({ clock: () => now })
+      await cache.set('a', { value: 1, expiresAt: now + 1000 })
+
+      expect((await cache.get('a'))?.value).toBe(1)
+      now += 1000
+      expect(await cache.get('a')).toBeNull()
+    })
+  })
+
+  describe('SHCReader', () => {
+    it('should download the VCI snapshot once for many cards', async () => {
+      const reader = new SHCReader({ useVciDirectory: true })
+
+      for (let i = 0; i < 5; i++) {
+        await expect(reader.fromJWS(jws)).resolves.toBeDefined()
+      }
+
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should cache the issuer JWKS until it expires', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      const reader = new SHCReader({ cacheTtl: 60 })
+
+      await reader.fromJWS(jws)
+      await reader.fromJWS(jws)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      vi.setSystemTime(Date.now() + 61_000)
+      await reader.fromJWS(jws)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should expire cached responses according to the reader clock', async () => {
+      let now = Date.UTC(2030, 0, 1)
+      const reader = new SHCReader({ clock: () => now, cacheTtl: 60 })
+      fetchMock.mockImplementation(async () =>
+        jsonResponse(jwks, { expires: new Date(now + 120_000).toUTCString() })
+      )
+
+      await reader.fromJWS(jws)
+      now += 119_000
+      await reader.fromJWS(jws)
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+
+      now += 2_000
+      await reader.fromJWS(jws)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should honor HTTP cache headers', async () => {
+      const reader = new SHCReader({})
+      fetchMock.mockImplementation(async () => jsonResponse(jwks, { 'cache-control': 'no-store' }))
+
+      await reader.fromJWS(jws)
+      await reader.fromJWS(jws)
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should refetch a cached JWKS when the kid is unknown', async () => {
+      const cache = new LRUCacheStore()
+      const reader = new SHCReader({ cache })
+      await reader.fromJWS(jws)
+
+      // The issuer rotates to a new key after the JWKS was cached
+      const keyring = new IssuerKeyring()
+      const next = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair
+      await keyring.addKey({ privateKey: next.privateKey, publicKey: next.publicKey })
+      jwks = { keys: [...jwks.keys, ...keyring.toJWKS().keys] }
+      const rotatedJws = (
+        await new SHCIssuer({ issuer: ISS_URL, keyring }).issue(createValidFHIRBundle())
+      ).asJWS()
+
+      await expect(reader.fromJWS(rotatedJws)).resolves.toBeDefined()
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not cache when the cache is disabled', async () => {
+      const reader = new SHCReader({ cache: null })
+
+      await reader.fromJWS(jws)
+      await reader.fromJWS(jws)
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('Directory.fromURLs()', () => {
+    it('should reuse cached JWKS and CRL responses', async () => {
+      const cache = new LRUCacheStore()
+      const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => undefined)
+
+      await Directory.fromURLs([ISS_URL], { cache })
+      const directory = await Directory.fromURLs([ISS_URL], { cache })
+
+      // The CRL 404 is not cached, so only the JWKS fetch is saved
+      expect(fetchMock).toHaveBeenCalledTimes(3)
+      expect(directory.getIssuerByIss(ISS_URL)?.keys.size).toBe(1)
+      debugSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { ChunkedQRAssembler, QRCodeError, type SHC, SHCIssuer, SHCReader } from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+describe('ChunkedQRAssembler', () => {
+  let healthCard: SHC
+  let chunks: string[]
+  let assembler: ChunkedQRAssembler
+
+  beforeEach(async () => {
+    const issuer = new SHCIssuer({
+      issuer: 'https://example.com/issuer',
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    healthCard = await issuer.issue(createValidFHIRBundle())
+    chunks = healthCard.asQRNumeric({ enableChunking: true, maxSingleQRSize: 300 })
+    assembler = new ChunkedQRAssembler()
+  })
+
+  it('should assemble chunks received out of order and with duplicates', () => {
+    expect(chunks.length).toBeGreaterThanOrEqual(3)
+    const [first, second, ...rest] = chunks as [string, string, ...string[]]
+
+    let progress = assembler.add(second)
+    expect(progress).toEqual({
+      total: chunks.length,
+      received: [2],
+      missing: [1, ...rest.map((_, i) => i + 3)],
+      complete: false,
+      jws: null,
+    })
+
+    progress = assembler.add(second)
+    expect(progress.received).toEqual([2])
+
+    for (const chunk of [...rest].reverse()) {
+      progress = assembler.add(chunk)
+    }
+    expect(progress.missing).toEqual([1])
+    expect(() => assembler.getJWS()).toThrow('Missing chunks 1 of')
+
+    progress = assembler.add(first)
+    expect(progress.complete).toBe(true)
+    expect(progress.missing).toEqual([])
+    expect(progress.jws).toBe(healthCard.asJWS())
+    expect(assembler.getJWS()).toBe(healthCard.asJWS())
+  })
+
+  it('should complete with a single unchunked QR code', () => {
+    const [single] = healthCard.asQRNumeric()
+
+    const progress = assembler.add(single as string)
+
+    expect(progress).toMatchObject({ total: 1, received: [1], missing: [], complete: true })
+    expect(progress.jws).toBe(healthCard.asJWS())
+  })
+
+  it('should reject a chunk whose total conflicts with earlier chunks', () => {
+    assembler.add(chunks[0] as string)
+
+    expect(() => assembler.add('shc:/2/9/1234')).toThrow(QRCodeError)
+    expect(() => assembler.add('shc:/2/9/1234')).toThrow(
+      `Inconsistent total chunk count across QR codes: expected ${chunks.length}, got 9`
+    )
+    expect(assembler.progress.received).toEqual([1])
+  })
+
+  it('should reject a chunk whose data conflicts with a chunk already received', () => {
+    assembler.add(chunks[0] as string)
+
+    expect(() => assembler.add(`shc:/1/${chunks.length}/1234`)).toThrow(
+      `Conflicting data received for chunk 1 of ${chunks.length}`
+    )
+  })
+
+  it('should reject malformed QR codes', () => {
+    expect(() => assembler.add('https://example.com')).toThrow(QRCodeError)
+    expect(() => assembler.add('shc:/0/2/1234')).toThrow('Invalid chunk index or total')
+    expect(() => assembler.add('shc:/')).toThrow('missing numeric data')
+    expect(assembler.progress.total).toBeNull()
+  })
+
+  it('should start over after reset()', () => {
+    assembler.add(chunks[0] as string)
+    assembler.reset()
+
+    expect(assembler.progress).toEqual({
+      total: null,
+      received: [],
+      missing: [],
+      complete: false,
+      jws: null,
+    })
+    expect(() => assembler.getJWS()).toThrow('No QR code received')
+  })
+
+  it('should produce a JWS the reader verifies', async () => {
+    for (const chunk of chunks) assembler.add(chunk)
+
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI })
+
+    await expect(reader.fromJWS(assembler.getJWS())).resolves.toBeDefined()
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ExpirationError,
+  type FHIRBundle,
+  JWSProcessor,
+  NotYetValidError,
+  SHCIssuer,
+  SHCIssuerConfigError,
+  SHCReader,
+  SHCReaderConfigError,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+describe('Clock and skew tolerance', () => {
+  const ISSUED_AT = Date.UTC(2025, 0, 1) // 2025-01-01T00:00:00Z
+  const ISSUED_AT_SECONDS = ISSUED_AT / 1000
+  const bundle: FHIRBundle = createValidFHIRBundle()
+
+  const issue = async (params: { expirationTime?: number | null; nbfSkew?: number } = {}) => {
+    const issuer = new SHCIssuer({
+      issuer: 'https://example.com/issuer',
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      clock: () => ISSUED_AT,
+      ...params,
+    })
+    return (await issuer.issue(bundle)).asJWS()
+  }
+
+  const decodePayload = (jws: string) =>
+    new JWSProcessor().verify(jws, testPublicKeySPKI, { verifyExpiration: false })
+
+  const readerAt = (
+    time: number,
+    params: { clockSkewTolerance?: number; rejectFutureNbf?: boolean } = {}
+  ) => new SHCReader({ publicKey: testPublicKeySPKI, clock: () => time, ...params })
+
+  describe('SHCIssuer', () => {
+    it('should take nbf and exp from the injected clock', async () => {
+      const payload = await decodePayload(await issue({ expirationTime: 3600 }))
+
+      expect(payload.nbf).toBe(ISSUED_AT_SECONDS)
+      expect(payload.exp).toBe(ISSUED_AT_SECONDS + 3600)
+    })
+
+    it('should backdate nbf by nbfSkew without changing exp', async () => {
+      const payload = await decodePayload(await issue({ nbfSkew: 300, expirationTime: 3600 }))
+
+      expect(payload.nbf).toBe(ISSUED_AT_SECONDS - 300)
+      expect(payload.exp).toBe(ISSUED_AT_SECONDS + 3600)
+    })
+
+    it('should reject an nbfSkew that is not a non-negative integer', () => {
+      for (const nbfSkew of [-1, 1.5, Number.NaN]) {
+        expect(
+          () =>
+            new SHCIssuer({
+              issuer: 'https://example.com/issuer',
+              privateKey: testPrivateKeyPKCS8,
+              publicKey: testPublicKeySPKI,
+              nbfSkew,
+            })
+        ).toThrow(SHCIssuerConfigError)
+      }
+    })
+  })
+
+  describe('SHCReader', () => {
+    it('should check expiration against the injected clock', async () => {
+      const jws = await issue({ expirationTime: 3600 })
+
+      await expect(readerAt(ISSUED_AT + 1000).fromJWS(jws)).resolves.toBeDefined()
+      await expect(readerAt(ISSUED_AT + 3_601_000).fromJWS(jws)).rejects.toThrow(ExpirationError)
+    })
+
+    it('should tolerate expiration within the skew tolerance', async () => {
+      const jws = await issue({ expirationTime: 3600 })
+      const now = ISSUED_AT + 3_660_000 // 60 seconds after expiration
+
+      await expect(readerAt(now, { clockSkewTolerance: 120 }).fromJWS(jws)).resolves.toBeDefined()
+      await expect(readerAt(now, { clockSkewTolerance: 30 }).fromJWS(jws)).rejects.toThrow(
+        ExpirationError
+      )
+    })
+
+    it('should accept future nbf by default and reject it when configured', async () => {
+      const jws = await issue()
+      const now = ISSUED_AT - 600_000 // verifier clock 10 minutes behind
+
+      await expect(readerAt(now).fromJWS(jws)).resolves.toBeDefined()
+      await expect(readerAt(now, { rejectFutureNbf: true }).fromJWS(jws)).rejects.toThrow(
+        NotYetValidError
+      )
+      await expect(
+        readerAt(now, { rejectFutureNbf: true, clockSkewTolerance: 900 }).fromJWS(jws)
+      ).resolves.toBeDefined()
+    })
+
+    it('should report future nbf as failed in verify() when rejected', async () => {
+      const jws = await issue()
+      const now = ISSUED_AT - 600_000
+
+      const lenient = await readerAt(now).verify(jws)
+      expect(lenient.valid).toBe(true)
+      expect(lenient.checks.find(c => c.check === 'timing')).toMatchObject({
+        status: 'warning',
+        code: 'NOT_YET_VALID',
+      })
+
+      const strict = await readerAt(now, { rejectFutureNbf: true }).verify(jws)
+      expect(strict.valid).toBe(false)
+      expect(strict.checks.find(c => c.check === 'timing')).toMatchObject({
+        status: 'failed',
+        code: 'NOT_YET_VALID',
+      })
+    })
+
+    it('should reject a negative skew tolerance', () => {
+      expect(() => new SHCReader({ clockSkewTolerance: -5 })).toThrow(SHCReaderConfigError)
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { createLimiter } from '@/common/concurrency'
+
+describe('createLimiter', () => {
+  it('should keep at most `concurrency` tasks in progress', async () => {
+    const limit = createLimiter(2)
+    let running = 0
+    let maxRunning = 0
+    const task = async (value: number) => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      running--
+      return value
+    }
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(value => limit(() => task(value))))
+
+    expect(results).toEqual([1, 2, 3, 4, 5])
+    expect(maxRunning).toBe(2)
+  })
+
+  it('should not let a task start while a finished task hands its slot to a queued one', async () => {
+    const limit = createLimiter(1)
+    let running = 0
+    let maxRunning = 0
+    const task = async () => {
+      running++
+      maxRunning = Math.max(maxRunning, running)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      running--
+    }
+    let release!: () => void
+    const first = new Promise<void>(resolve => {
+      release = resolve
+    })
+    const tasks = [limit(() => first), limit(task)]
+    // Runs right after the first task frees its slot, before the queued task resumes
+    const late = first.then(() => limit(task))
+
+    release()
+    await Promise.all([...tasks, late])
+
+    expect(maxRunning).toBe(1)
+  })
+
+  it('should release the slot of a failed task', async () => {
+    const limit = createLimiter(1)
+
+    await expect(limit(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    await expect(limit(async () => 'next')).resolves.toBe('next')
+  })
+})
@@ -1,5 +1,7 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
 import { afterEach, describe, expect, it, vi } from 'vitest'
 import { Directory } from '../../src/shc/directory'
+import { SHCReaderConfigError } from '../../src/shc/errors'
 import type { DirectoryJSON } from '../../src/shc/types'
 import { SAMPLE_DIRECTORY_JSON } from '../helpers'
 
@@ -456,4 +458,344 @@ describe('Directory', () => {
     expect(issuer.keys.get('kid-2-simple')!.crlVersion).toBe(2)
     expect(issuer.crls).toHaveLength(1)
   })
+
+  describe('issuer metadata', () => {
+    const OLD_ISS_URL = 'https://old.example.com/issuer'
+    const metadataJson: DirectoryJSON = {
+      issuerInfo: [
+        {
+          issuer: { iss: OLD_ISS_URL, name: 'Old Portal', canonical_iss: ISS_URL },
+          keys: [{ kid: 'kid-old' }],
+        },
+        {
+          issuer: { iss: ISS_URL, name: 'State Health Department', website: '' },
+          keys: [{ kid: 'kid-1' }],
+        },
+        { issuer: { iss: ISS_URL, website: 'https://health.example.com' }, keys: [] },
+      ],
+    }
+
+    it('should keep issuer display metadata, completing it across duplicate entries', () => {
+      const directory = Directory.fromJSON(metadataJson)
+
+      const issuer = directory.getIssuerByIss(ISS_URL)!
+      expect(issuer.name).toBe('State Health Department')
+      expect(issuer.website).toBe('https://health.example.com')
+      expect(issuer).not.toHaveProperty('canonical_iss')
+      expect(directory.getIssuerByIss(OLD_ISS_URL)!.canonical_iss).toBe(ISS_URL)
+      expect(directory.toJSON().issuerInfo.map(({ issuer }) => issuer)).toEqual([
+        { iss: OLD_ISS_URL, name: 'Old Portal', canonical_iss: ISS_URL },
+        { iss: ISS_URL, name: 'State Health Department', website: 'https://health.example.com' },
+      ])
+    })
+
+    it('should resolve aliased issuers to their canonical issuer', () => {
+      const directory = Directory.fromJSON(metadataJson)
+
+      expect(directory.resolveIssuer(OLD_ISS_URL)!.iss).toBe(ISS_URL)
+      expect(directory.resolveIssuer(ISS_URL)!.iss).toBe(ISS_URL)
+      expect(directory.resolveIssuer('https://unknown.example.com')).toBeUndefined()
+
+      // An alias whose canonical issuer is not listed resolves to itself
+      const aliasOnly = Directory.fromJSON({ issuerInfo: [metadataJson.issuerInfo[0]!] })
+      expect(aliasOnly.resolveIssuer(OLD_ISS_URL)!.iss).toBe(OLD_ISS_URL)
+    })
+  })
+
+  describe('toJSON()', () => {
+    it('should round-trip through fromJSON and JSON.stringify', () => {
+      const directory = Directory.fromJSON({
+        issuerInfo: [
+          {
+            issuer: { iss: ISS_URL },
+            keys: [{ kty: 'EC', kid: 'kid-1', crlVersion: 2 }],
+            crls: [{ kid: 'kid-1', method: 'rid', ctr: 2, rids: ['rid-a', 'rid-b.1700000000'] }],
+          },
+        ],
+      })
+
+      const json = directory.toJSON()
+      expect(json).toEqual({
+        issuerInfo: [
+          {
+            issuer: { iss: ISS_URL },
+            keys: [{ kty: 'EC', kid: 'kid-1', crlVersion: 2 }],
+            crls: [{ kid: 'kid-1', method: 'rid', ctr: 2, rids: ['rid-a', 'rid-b.1700000000'] }],
+          },
+        ],
+      })
+      expect(JSON.parse(JSON.stringify(directory))).toEqual(json)
+
+      const restored = Directory.fromJSON(json)
+      const crl = restored.getIssuerByIss(ISS_URL)!.crls.get('kid-1')!
+      expect(crl.rids).toEqual(new Set(['rid-a', 'rid-b']))
+      expect(crl.ridsTimestamps.get('rid-b')).toBe('1700000000')
+    })
+
+    it('should serialize every issuer of the sample directory', () => {
+      const directory = Directory.fromJSON(SAMPLE_DIRECTORY_JSON as DirectoryJSON)
+      assertDirectoryFromSampleJson(Directory.fromJSON(directory.toJSON()))
+    })
+  })
+
+  describe('merge()', () => {
+    it('should combine issuers and keep the newest keys and CRLs', () => {
+      const older = Directory.fromJSON({
+        issuerInfo: [
+          {
+            issuer: { iss: ISS_URL },
+            keys: [{ kid: 'kid-1', crlVersion: 1 }],
+            crls: [{ kid: 'kid-1', method: 'rid', ctr: 1, rids: ['rid-a'] }],
+          },
+          { issuer: { iss: 'https://example.com/issuer2' }, keys: [{ kid: 'kid-A' }] },
+        ],
+      })
+      const newer = Directory.fromJSON({
+        issuerInfo: [
+          {
+            issuer: { iss: ISS_URL },
+            keys: [{ kid: 'kid-1', crlVersion: 2 }, { kid: 'kid-2' }],
+            crls: [{ kid: 'kid-1', method: 'rid', ctr: 2, rids: ['rid-a', 'rid-b'] }],
+          },
+        ],
+      })
+
+      const merged = older.merge(newer)
+
+      expect(merged.getIssuers()).toHaveLength(2)
+      const issuer = merged.getIssuerByIss(ISS_URL)!
+      expect(Array.from(issuer.keys.keys()).sort()).toEqual(['kid-1', 'kid-2'])
+      expect(issuer.keys.get('kid-1')!.crlVersion).toBe(2)
+      expect(issuer.crls.get('kid-1')!.ctr).toBe(2)
+      expect(newer.merge(older).getIssuerByIss(ISS_URL)!.crls.get('kid-1')!.ctr).toBe(2)
+      // Inputs are left untouched
+      expect(older.getIssuerByIss(ISS_URL)!.crls.get('kid-1')!.ctr).toBe(1)
+    })
+  })
+
+  describe('refresh()', () => {
+    const JWKS_URL = `${ISS_URL}/.well-known/jwks.json`
+    const CRL_URL = `${ISS_URL}/.well-known/crl/kid-1.json`
+
+    const jsonResponse = (body: unknown, headers: Record<string, string> = {}) => ({
+      ok: true,
+      status: 200,
+      headers: new Headers(headers),
+      json: async () => body,
+    })
+    const notModified = { ok: false, status: 304, statusText: 'Not Modified' }
+
+    const buildDirectory = () =>
+      Directory.fromJSON({
+        issuerInfo: [
+          {
+            issuer: { iss: ISS_URL },
+            keys: [{ kid: 'kid-1', crlVersion: 1 }],
+            crls: [{ kid: 'kid-1', method: 'rid', ctr: 1, rids: ['rid-a'] }],
+          },
+        ],
+      })
+
+    it('should only fetch CRLs whose advertised version is newer', async () => {
+      const directory = buildDirectory()
+      const fetchMock = vi.fn(async (url: string) => {
+        if (url === JWKS_URL) return jsonResponse({ keys: [{ kid: 'kid-1', crlVersion: 2 }] })
+        if (url === CRL_URL) {
+          return jsonResponse({ kid: 'kid-1', method: 'rid', ctr: 2, rids: ['rid-a', 'rid-b'] })
+        }
+        throw new Error(`Unexpected URL ${url}`)
+      })
+
+      const result = await directory.refresh({ fetch: fetchMock as any })
+      expect(result).toEqual({ updated: [ISS_URL], unchanged: [], failed: [] })
+      expect(directory.getIssuerByIss(ISS_URL)!.crls.get('kid-1')!.rids.has('rid-b')).toBe(true)
+
+      // The CRL is now current, so only the JWKS is requested again
+      fetchMock.mockClear()
+      expect(await directory.refresh({ fetch: fetchMock as any })).toEqual({
+        updated: [],
+        unchanged: [ISS_URL],
+        failed: [],
+      })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send conditional requests with the validators of previous responses', async () => {
+      const directory = buildDirectory()
+      const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+        const headers = new Headers(init?.headers)
+        if (headers.get('if-none-match') === '"v1"') return notModified
+        return jsonResponse(
+          { keys: [{ kid: 'kid-1', crlVersion: 1 }] },
+          { etag: '"v1"', 'last-modified': 'Wed, 01 Jan 2025 00:00:00 GMT' }
+        )
+      })
+
+      await directory.refresh({ fetch: fetchMock as any })
+      const result = await directory.refresh({ fetch: fetchMock as any })
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock.mock.calls[1]![1]).toEqual({
+        headers: { 'If-None-Match': '"v1"', 'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT' },
+      })
+      expect(result.unchanged).toEqual([ISS_URL])
+      expect(directory.getIssuerByIss(ISS_URL)!.keys.size).toBe(1)
+    })
+
+    it('should drop the CRLs of keys removed from the JWKS', async () => {
+      const directory = buildDirectory()
+      const fetchMock = vi.fn(async (url: string) => {
+        if (url === JWKS_URL) return jsonResponse({ keys: [{ kid: 'kid-2' }] })
+        throw new Error(`Unexpected URL ${url}`)
+      })
+
+      const result = await directory.refresh({ fetch: fetchMock as any })
+
+      expect(result.updated).toEqual([ISS_URL])
+      const issuer = directory.getIssuerByIss(ISS_URL)
+      expect([...(issuer?.keys.keys() ?? [])]).toEqual(['kid-2'])
+      expect(issuer?.crls.size).toBe(0)
+      expect(directory.toJSON().issuerInfo[0]?.crls).toEqual([])
+    })
+
+    it('should report issuers that cannot be refreshed and keep their metadata', async () => {
+      const directory = buildDirectory()
+      const fetchMock = vi.fn(async () => ({ ok: false, status: 500, statusText: 'Error' }))
+
+      const result = await directory.refresh({ fetch: fetchMock as any })
+
+      expect(result.failed).toEqual([
+        { iss: ISS_URL, error: `Failed to fetch ${JWKS_URL} with status 500` },
+      ])
+      expect(directory.getIssuerByIss(ISS_URL)!.keys.has('kid-1')).toBe(true)
+    })
+  })
+
+  describe('fromURLsWithReport()', () => {
+    const ISS_OK = 'https://example.com/ok'
+    const ISS_DOWN = 'https://example.com/down'
+    const ISS_BROKEN = 'https://example.com/broken'
+
+    const jsonResponse = (body: unknown) => ({ ok: true, status: 200, json: async () => body })
+
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.startsWith(ISS_DOWN)) return { ok: false, status: 503, statusText: 'Unavailable' }
+      if (url.startsWith(ISS_BROKEN)) throw new Error('connection reset')
+      if (url.endsWith('/jwks.json'))
+        return jsonResponse({ keys: [{ kid: 'kid-1' }, { kid: 'kid-2' }] })
+      if (url.endsWith('/kid-1.json')) {
+        return jsonResponse({ kid: 'kid-1', method: 'rid', ctr: 1, rids: ['rid-a'] })
+      }
+      return { ok: false, status: 404, statusText: 'Not Found' }
+    })
+
+    it('should report what loaded and what failed per issuer and kid', async () => {
+      const { directory, report } = await Directory.fromURLsWithReport(
+        [ISS_DOWN, ISS_OK, ISS_BROKEN],
+        { fetch: fetchMock as any }
+      )
+
+      expect([...directory.getIssuers().keys()]).toEqual([ISS_OK])
+      expect(directory.getIssuerByIss(ISS_OK)!.crls!.has('kid-1')).toBe(true)
+      expect(report).toEqual([
+        {
+          iss: ISS_DOWN,
+          jwks: {
+            url: `${ISS_DOWN}/.well-known/jwks.json`,
+            ok: false,
+            httpStatus: 503,
+            error: `Failed to fetch jwks at ${ISS_DOWN}/.well-known/jwks.json with status 503`,
+          },
+          crls: [],
+        },
+        {
+          iss: ISS_OK,
+          jwks: { url: `${ISS_OK}/.well-known/jwks.json`, ok: true },
+          crls: [
+            { kid: 'kid-1', url: `${ISS_OK}/.well-known/crl/kid-1.json`, ok: true },
+            {
+              kid: 'kid-2',
+              url: `${ISS_OK}/.well-known/crl/kid-2.json`,
+              ok: false,
+              httpStatus: 404,
+              error: `Failed to fetch crl at ${ISS_OK}/.well-known/crl/kid-2.json with status 404`,
+            },
+          ],
+        },
+        {
+          iss: ISS_BROKEN,
+          jwks: {
+            url: `${ISS_BROKEN}/.well-known/jwks.json`,
+            ok: false,
+            error: 'connection reset',
+          },
+          crls: [],
+        },
+      ])
+    })
+
+    it('should keep loading other issuers when one fails in fromURLs()', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+      const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => undefined)
+
+      const directory = await Directory.fromURLs([ISS_BROKEN, ISS_OK], { fetch: fetchMock as any })
+
+      expect(directory.getIssuerByIss(ISS_OK)).toBeDefined()
+      expect(errorSpy).toHaveBeenCalledWith('Error creating Directory:', 'connection reset')
+      expect(debugSpy).toHaveBeenCalledWith(
+        `Failed to fetch crl at ${ISS_OK}/.well-known/crl/kid-2.json with status 404, skipping key.`
+      )
+    })
+
+    it('should keep at most `concurrency` requests in flight', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const slowFetch = vi.fn(async (url: string) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return fetchMock(url)
+      })
+      const issUrls = Array.from({ length: 6 }, (_, i) => `${ISS_OK}${i}`)
+
+      const { directory } = await Directory.fromURLsWithReport(issUrls, {
+        fetch: slowFetch as any,
+        concurrency: 2,
+      })
+
+      expect(directory.getIssuers()).toHaveLength(6)
+      expect(slowFetch).toHaveBeenCalledTimes(18)
+      expect(maxInFlight).toBe(2)
+    })
+
+    it('should report requests that time out', async () => {
+      const hangingFetch = vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal!.reason))
+          })
+      )
+
+      const { directory, report } = await Directory.fromURLsWithReport([ISS_OK], {
+        fetch: hangingFetch as any,
+        fetchTimeout: 10,
+      })
+
+      expect(directory.getIssuers()).toHaveLength(0)
+      expect(report[0]!.jwks.ok).toBe(false)
+      expect(report[0]!.jwks.error).toBeDefined()
+    })
+
+    it('should reject an invalid concurrency', async () => {
+      await expect(Directory.fromURLsWithReport([ISS_OK], { concurrency: 0 })).rejects.toThrow(
+        new SHCReaderConfigError(
+          'Directory configuration error: concurrency must be a positive integer'
+        )
+      )
+      await expect(Directory.fromURLs([ISS_OK], { concurrency: 1.5 })).rejects.toThrow(
+        SHCReaderConfigError
+      )
+    })
+  })
 })
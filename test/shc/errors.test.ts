@@ -6,10 +6,14 @@ import {
   FileFormatError,
   InvalidBundleReferenceError,
   JWSError,
+  NotYetValidError,
   PayloadValidationError,
+  ProfileValidationError,
   QRCodeError,
+  SelfVerificationError,
   SHCError,
   SignatureVerificationError,
+  UntrustedIssuerError,
   VerificationError,
 } from '@/index'
 
@@ -104,6 +108,34 @@ describe('Error Classes', () => {
     })
   })
 
+  describe('NotYetValidError', () => {
+    it('should create not yet valid error with not yet valid code', () => {
+      const error = new NotYetValidError('Health card is not valid yet')
+      expect(error).toBeInstanceOf(SHCError)
+      expect(error.name).toBe('NotYetValidError')
+      expect(error.message).toBe('Health card is not valid yet')
+      expect(error.code).toBe('NOT_YET_VALID')
+    })
+  })
+
+  describe('ProfileValidationError', () => {
+    it('should create profile validation error with its violations', () => {
+      const violations = [
+        {
+          profile: 'vaccination' as const,
+          path: 'Bundle.entry[0].resource.birthDate',
+          code: 'MISSING_ELEMENT' as const,
+          message: 'Patient.birthDate is required',
+        },
+      ]
+      const error = new ProfileValidationError('Bundle does not conform', violations)
+      expect(error).toBeInstanceOf(SHCError)
+      expect(error.name).toBe('ProfileValidationError')
+      expect(error.code).toBe('PROFILE_VALIDATION_ERROR')
+      expect(error.violations).toBe(violations)
+    })
+  })
+
   describe('PayloadValidationError', () => {
     it('should create payload validation error with failed-validation code', () => {
       const error = new PayloadValidationError('Missing issuer field')
@@ -133,4 +165,26 @@ describe('Error Classes', () => {
       expect(error.code).toBe('FAILED_VALIDATION')
     })
   })
+
+  describe('UntrustedIssuerError', () => {
+    it('should create untrusted issuer error with untrusted-issuer code', () => {
+      const error = new UntrustedIssuerError('Issuer is not trusted')
+      expect(error).toBeInstanceOf(SHCError)
+      expect(error.name).toBe('UntrustedIssuerError')
+      expect(error.message).toBe('Issuer is not trusted')
+      expect(error.code).toBe('UNTRUSTED_ISSUER')
+    })
+  })
+
+  describe('SelfVerificationError', () => {
+    it('should create self-verification error with the read error', () => {
+      const readError = new SignatureVerificationError('Invalid signature')
+      const error = new SelfVerificationError('Self-verification failed', readError)
+      expect(error).toBeInstanceOf(SHCError)
+      expect(error.name).toBe('SelfVerificationError')
+      expect(error.message).toBe('Self-verification failed')
+      expect(error.code).toBe('SELF_VERIFICATION_FAILED')
+      expect(error.readError).toBe(readError)
+    })
+  })
 })
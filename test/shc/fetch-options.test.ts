@@ -0,0 +1,147 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Directory, SHCIssuer, SHCReader, SHCReaderConfigError, VerificationError } from '@/index'
+import {
+  buildTestJwkData,
+  createValidFHIRBundle,
+  testPrivateKeyPKCS8,
+  testPublicKeySPKI,
+} from '../helpers'
+
+describe('Network options', () => {
+  const ISS_URL = 'https://example.com/issuer'
+  let jws: string
+  let globalFetch: ReturnType<typeof vi.fn>
+  let jwksFetch: ReturnType<typeof vi.fn>
+  const hangingFetch = vi.fn(() => new Promise<Response>(() => undefined))
+
+  beforeEach(async () => {
+    jws = (
+      await new SHCIssuer({
+        issuer: ISS_URL,
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+      }).issue(createValidFHIRBundle())
+    ).asJWS()
+    const { jwk, kid } = await buildTestJwkData()
+    jwksFetch = vi.fn(async () => ({ ok: true, json: async () => ({ keys: [{ ...jwk, kid }] }) }))
+    globalFetch = vi.fn()
+    vi.stubGlobal('fetch', globalFetch as any)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    hangingFetch.mockClear()
+  })
+
+  describe('SHCReader', () => {
+    it('should use the injected fetch implementation', async () => {
+      const reader = new SHCReader({ fetch: jwksFetch as any })
+
+      await expect(reader.fromJWS(jws)).resolves.toBeDefined()
+      expect(jwksFetch).toHaveBeenCalledWith(`${ISS_URL}/.well-known/jwks.json`)
+      expect(globalFetch).not.toHaveBeenCalled()
+    })
+
+    it('should throw a configuration error when no fetch implementation is available', async () => {
+      vi.stubGlobal('fetch', undefined)
+      const reader = new SHCReader({})
+
+      await expect(reader.fromJWS(jws)).rejects.toThrow(SHCReaderConfigError)
+      await expect(reader.fromJWS(jws)).rejects.toThrow(
+        'fetch is not available in this environment; provide a fetch implementation'
+      )
+    })
+
+    it('should pass an abort signal when a timeout is configured', async () => {
+      const reader = new SHCReader({ fetch: jwksFetch as any, fetchTimeout: 1000 })
+
+      await reader.fromJWS(jws)
+
+      expect(jwksFetch).toHaveBeenCalledWith(`${ISS_URL}/.well-known/jwks.json`, {
+        signal: expect.any(AbortSignal),
+      })
+    })
+
+    it('should time out slow issuers', async () => {
+      const reader = new SHCReader({ fetch: hangingFetch, fetchTimeout: 20 })
+
+      await expect(reader.fromJWS(jws)).rejects.toThrow(VerificationError)
+      await expect(reader.fromJWS(jws)).rejects.toThrow('timed out after 20 ms')
+    })
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController()
+      const reader = new SHCReader({ fetch: hangingFetch, signal: controller.signal })
+
+      const pending = reader.fromJWS(jws)
+      controller.abort(new Error('scan cancelled'))
+
+      await expect(pending).rejects.toThrow('scan cancelled')
+      await expect(reader.fromJWS(jws)).rejects.toThrow('scan cancelled')
+    })
+
+    it('should report timeouts in verify()', async () => {
+      const reader = new SHCReader({ fetch: hangingFetch, fetchTimeout: 20 })
+
+      const report = await reader.verify(jws)
+
+      expect(report.valid).toBe(false)
+      expect(report.checks.find(c => c.check === 'keySource')).toMatchObject({
+        status: 'failed',
+        code: 'VERIFICATION_ERROR',
+        message: expect.stringContaining('timed out'),
+      })
+    })
+  })
+
+  describe('Directory', () => {
+    it('should fetch the VCI snapshot through the injected fetch', async () => {
+      const vciFetch = vi.fn(async () => ({ ok: true, json: async () => ({ issuerInfo: [] }) }))
+
+      await Directory.fromVCI({ fetch: vciFetch as any })
+
+      expect(vciFetch).toHaveBeenCalledTimes(1)
+      expect(globalFetch).not.toHaveBeenCalled()
+    })
+
+    it('should throw a configuration error instead of reporting failed issuers when fetch is missing', async () => {
+      vi.stubGlobal('fetch', undefined)
+
+      await expect(Directory.fromURLs([ISS_URL])).rejects.toThrow(SHCReaderConfigError)
+      await expect(
+        Directory.fromJSON({ issuerInfo: [{ issuer: { iss: ISS_URL }, keys: [] }] }).refresh()
+      ).rejects.toThrow(SHCReaderConfigError)
+    })
+
+    it('should time out fetching the VCI snapshot', async () => {
+      await expect(Directory.fromVCI({ fetch: hangingFetch, fetchTimeout: 20 })).rejects.toThrow(
+        'timed out after 20 ms'
+      )
+    })
+
+    it('should propagate aborts from fromURLs instead of returning a partial directory', async () => {
+      const controller = new AbortController()
+      const pending = Directory.fromURLs([ISS_URL], {
+        fetch: hangingFetch,
+        signal: controller.signal,
+      })
+      controller.abort(new Error('cancelled'))
+
+      await expect(pending).rejects.toThrow('cancelled')
+    })
+
+    it('should log timeouts from fromURLs and return the issuers fetched so far', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+      const directory = await Directory.fromURLs([ISS_URL], {
+        fetch: hangingFetch,
+        fetchTimeout: 20,
+      })
+
+      expect(directory.getIssuers().size).toBe(0)
+      expect(errorSpy).toHaveBeenCalledTimes(1)
+      errorSpy.mockRestore()
+    })
+  })
+})
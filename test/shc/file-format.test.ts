@@ -2,10 +2,12 @@ import { beforeEach, describe, expect, it } from 'vitest'
 import {
   type FHIRBundle,
   FileFormatError,
+  SHC,
   type SHCConfig,
   SHCIssuer,
   SHCReader,
   type SHCReaderConfigParams,
+  SignatureVerificationError,
 } from '@/index'
 import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
 
@@ -77,4 +79,42 @@ describe('File Format Features', () => {
       'File does not contain expected verifiableCredential array'
     )
   })
+  describe('multi-card files', () => {
+    it('should combine several cards into one file and read them all', async () => {
+      const first = await issuer.issue(validBundle)
+      const second = await issuer.issue(validBundle, { rid: 'second' })
+      const fileContent = await SHC.combineToFileContent([first, second])
+
+      expect(JSON.parse(fileContent).verifiableCredential).toEqual([first.asJWS(), second.asJWS()])
+
+      const results = await reader.fromFileContentAll(fileContent)
+      expect(results.map(({ index, ok }) => ({ index, ok }))).toEqual([
+        { index: 0, ok: true },
+        { index: 1, ok: true },
+      ])
+      expect(results[1]!.ok && results[1]!.healthCard.asJWS()).toBe(second.asJWS())
+    })
+
+    it('should report entries that fail verification without dropping the others', async () => {
+      const healthCard = await issuer.issue(validBundle)
+      const [header, payload] = healthCard.asJWS().split('.')
+      const tampered = `${header}.${payload}.${'A'.repeat(86)}`
+      const fileContent = JSON.stringify({
+        verifiableCredential: [tampered, healthCard.asJWS()],
+      })
+
+      const results = await reader.fromFileContentAll(new Blob([fileContent]))
+
+      expect(results[0]).toMatchObject({ index: 0, jws: tampered, ok: false })
+      expect(!results[0]!.ok && results[0]!.error).toBeInstanceOf(SignatureVerificationError)
+      expect(results[1]!.ok).toBe(true)
+    })
+
+    it('should reject empty card lists and malformed files', async () => {
+      await expect(SHC.combineToFileContent([])).rejects.toThrow(FileFormatError)
+      await expect(
+        reader.fromFileContentAll(JSON.stringify({ verifiableCredential: [] }))
+      ).rejects.toThrow('File contains empty verifiableCredential array')
+    })
+  })
 })
@@ -0,0 +1,205 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  type FHIRBundle,
+  IssuerKeyring,
+  IssuerKeyringError,
+  LocalSigner,
+  SHCIssuer,
+  SHCIssuerConfigError,
+  SHCReader,
+  type Signer,
+} from '@/index'
+import {
+  buildTestJwkData,
+  createValidFHIRBundle,
+  testPrivateKeyPKCS8,
+  testPublicKeyJWK,
+  testPublicKeySPKI,
+} from '../helpers'
+
+const generateKeyPair = async () =>
+  (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+    'sign',
+    'verify',
+  ])) as CryptoKeyPair
+
+describe('IssuerKeyring', () => {
+  const ISS_URL = 'https://example.com/issuer'
+  let keyring: IssuerKeyring
+  let validBundle: FHIRBundle
+
+  beforeEach(() => {
+    keyring = new IssuerKeyring()
+    validBundle = createValidFHIRBundle()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('addKey()', () => {
+    it('should derive the kid and make the first signing key active', async () => {
+      const { kid } = await buildTestJwkData()
+
+      const addedKid = await keyring.addKey({
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+      })
+
+      expect(addedKid).toBe(kid)
+      expect(keyring.getActiveKid()).toBe(kid)
+      expect(keyring.hasKey(kid)).toBe(true)
+    })
+
+    it('should keep verification-only keys retired', async () => {
+      const kid = await keyring.addKey({ publicKey: testPublicKeyJWK })
+
+      expect(keyring.getKeys()).toEqual([{ kid, status: 'retired', publicJwk: testPublicKeyJWK }])
+      expect(() => keyring.getActiveKid()).toThrow(IssuerKeyringError)
+      await expect(
+        keyring.addKey({ publicKey: (await generateKeyPair()).publicKey }, { active: true })
+      ).rejects.toThrow('verification-only key cannot be the active signing key')
+    })
+
+    it('should reject duplicate keys', async () => {
+      await keyring.addKey({ publicKey: testPublicKeySPKI })
+      await expect(keyring.addKey({ publicKey: testPublicKeyJWK })).rejects.toThrow(
+        IssuerKeyringError
+      )
+    })
+
+    it('should reject signers whose kid is not the public key thumbprint', async () => {
+      const local = new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI)
+      const signer: Signer = {
+        getPublicJwk: () => local.getPublicJwk(),
+        getKid: async () => 'custom-kid',
+        sign: data => local.sign(data),
+      }
+
+      await expect(keyring.addKey(signer)).rejects.toThrow('Signer kid does not match')
+    })
+  })
+
+  describe('rotate()', () => {
+    it('should retire the previous active key and sign new cards with the new one', async () => {
+      const oldKid = await keyring.addKey({
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+      })
+      const next = await generateKeyPair()
+      const newKid = await keyring.rotate({
+        privateKey: next.privateKey,
+        publicKey: next.publicKey,
+      })
+
+      expect(keyring.getActiveKid()).toBe(newKid)
+      expect(keyring.getKeys().map(({ kid, status }) => ({ kid, status }))).toEqual([
+        { kid: newKid, status: 'active' },
+        { kid: oldKid, status: 'retired' },
+      ])
+      expect(await keyring.getActiveSigner().getKid()).toBe(newKid)
+    })
+
+    it('should not allow removing the active key', async () => {
+      const oldKid = await keyring.addKey({
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+      })
+      const next = await generateKeyPair()
+      const newKid = await keyring.rotate({
+        privateKey: next.privateKey,
+        publicKey: next.publicKey,
+      })
+
+      expect(() => keyring.removeKey(newKid)).toThrow(IssuerKeyringError)
+      keyring.removeKey(oldKid)
+      expect(keyring.hasKey(oldKid)).toBe(false)
+      expect(() => keyring.removeKey(oldKid)).toThrow(IssuerKeyringError)
+    })
+  })
+
+  describe('toJWKS()', () => {
+    it('should emit a public, spec-compliant JWKS', async () => {
+      const kid = await keyring.addKey(
+        { privateKey: testPrivateKeyPKCS8, publicKey: testPublicKeySPKI },
+        { crlVersion: 2 }
+      )
+      const retiredKid = await keyring.addKey({ publicKey: (await generateKeyPair()).publicKey })
+
+      const jwks = keyring.toJWKS()
+
+      expect(jwks.keys).toHaveLength(2)
+      expect(jwks.keys[0]).toEqual({
+        kty: 'EC',
+        kid,
+        use: 'sig',
+        alg: 'ES256',
+        crv: 'P-256',
+        x: testPublicKeyJWK.x,
+        y: testPublicKeyJWK.y,
+        crlVersion: 2,
+      })
+      expect(jwks.keys[1]!.kid).toBe(retiredKid)
+      expect(jwks.keys[1]).not.toHaveProperty('crlVersion')
+      expect(JSON.stringify(jwks)).not.toContain('"d"')
+    })
+
+    it('should reflect crlVersion updates', async () => {
+      const kid = await keyring.addKey({ publicKey: testPublicKeySPKI })
+      keyring.setCrlVersion(kid, 3)
+
+      expect(keyring.getCrlVersion(kid)).toBe(3)
+      expect(keyring.toJWKS().keys[0]!.crlVersion).toBe(3)
+      expect(() => keyring.setCrlVersion('unknown', 1)).toThrow(IssuerKeyringError)
+    })
+
+    it('should reject crlVersion values that are not positive integers', async () => {
+      const kid = await keyring.addKey({ publicKey: testPublicKeySPKI }, { crlVersion: 2 })
+
+      for (const crlVersion of [0, -1, 1.5, Number.NaN, Number.POSITIVE_INFINITY]) {
+        expect(() => keyring.setCrlVersion(kid, crlVersion)).toThrow('must be a positive integer')
+        await expect(
+          new IssuerKeyring().addKey({ publicKey: testPublicKeySPKI }, { crlVersion })
+        ).rejects.toThrow(IssuerKeyringError)
+      }
+      expect(keyring.getCrlVersion(kid)).toBe(2)
+    })
+  })
+
+  describe('SHCIssuer with keyring', () => {
+    it('should keep cards signed with retired keys verifiable through the published JWKS', async () => {
+      await keyring.addKey({ privateKey: testPrivateKeyPKCS8, publicKey: testPublicKeySPKI })
+      const issuer = new SHCIssuer({ issuer: ISS_URL, keyring })
+      const oldCard = await issuer.issue(validBundle)
+
+      const next = await generateKeyPair()
+      await keyring.rotate({ privateKey: next.privateKey, publicKey: next.publicKey })
+      const newCard = await issuer.issue(validBundle)
+
+      const fetchMock = vi.fn(async () => ({ ok: true, json: async () => keyring.toJWKS() }))
+      vi.stubGlobal('fetch', fetchMock as any)
+
+      const reader = new SHCReader({})
+      await expect(reader.fromJWS(oldCard.asJWS())).resolves.toBeDefined()
+      await expect(reader.fromJWS(newCard.asJWS())).resolves.toBeDefined()
+      expect(fetchMock).toHaveBeenCalledWith(`${ISS_URL}/.well-known/jwks.json`)
+    })
+
+    it('should reject combining a keyring with other key sources', async () => {
+      expect(
+        () =>
+          new SHCIssuer({
+            issuer: ISS_URL,
+            keyring,
+            signer: new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI),
+          })
+      ).toThrow(SHCIssuerConfigError)
+    })
+
+    it('should fail issuance when the keyring has no active key', async () => {
+      const issuer = new SHCIssuer({ issuer: ISS_URL, keyring })
+      await expect(issuer.issue(validBundle)).rejects.toThrow(IssuerKeyringError)
+    })
+  })
+})
@@ -0,0 +1,91 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to build large bundles
+import { describe, expect, it } from 'vitest'
+import { type FHIRBundle, SHCIssuer } from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+// Adds immunizations with long, poorly compressible notes to grow the card
+const createLargeBundle = (immunizations: number): FHIRBundle => {
+  const bundle = createValidFHIRBundle()
+  const immunization = bundle.entry![1]!
+  for (let i = 0; i < immunizations; i++) {
+    bundle.entry!.push({
+      fullUrl: `https://example.com/base/Immunization/note-${i}`,
+      resource: {
+        ...(immunization.resource as object),
+        note: [
+          {
+            text: Array.from({ length: 20 }, (_, j) =>
+              ((i + 1) * 7919 * (j + 3)).toString(36)
+            ).join(' '),
+          },
+        ],
+      } as any,
+    })
+  }
+  return bundle
+}
+
+describe('SHCIssuer.plan()', () => {
+  const issuer = new SHCIssuer({
+    issuer: 'https://example.com/issuer',
+    privateKey: testPrivateKeyPKCS8,
+    publicKey: testPublicKeySPKI,
+    clock: () => Date.UTC(2025, 0, 1),
+  })
+
+  it('should report the length of the JWS issue() produces', async () => {
+    for (const bundle of [createValidFHIRBundle(), createLargeBundle(10)]) {
+      const plan = await issuer.plan(bundle)
+      const healthCard = await issuer.issue(bundle)
+
+      expect(plan.jwsLength).toBe(healthCard.asJWS().length)
+      expect(plan.compressedPayloadBytes).toBeLessThan(plan.minifiedPayloadBytes)
+    }
+  })
+
+  it('should report whether the card fits one QR code at each error correction level', async () => {
+    const small = await issuer.plan(createValidFHIRBundle())
+    expect(
+      small.qr.map(({ errorCorrectionLevel, maxSingleQRSize }) => [
+        errorCorrectionLevel,
+        maxSingleQRSize,
+      ])
+    ).toEqual([
+      ['L', 1195],
+      ['M', 927],
+      ['Q', 670],
+      ['H', 519],
+    ])
+    expect(small.qr.map(fit => fit.fitsSingleQR)).toEqual(
+      small.qr.map(fit => small.jwsLength <= fit.maxSingleQRSize)
+    )
+    expect(small.qr[0]).toMatchObject({ fitsSingleQR: true, chunkCount: 1 })
+
+    const bundle = createLargeBundle(12)
+    const large = await issuer.plan(bundle)
+    const healthCard = await issuer.issue(bundle)
+    const high = large.qr.find(fit => fit.errorCorrectionLevel === 'H')!
+    expect(high.fitsSingleQR).toBe(false)
+    expect(high.chunkCount).toBe(
+      healthCard.asQRNumeric({ enableChunking: true, encodeOptions: { errorCorrectionLevel: 'H' } })
+        .length
+    )
+  })
+
+  it('should list the resources that contribute most to the size', async () => {
+    const plan = await issuer.plan(createLargeBundle(2))
+
+    expect(plan.resources).toHaveLength(4)
+    expect(plan.resources.map(({ resourceType }) => resourceType)).toEqual([
+      'Immunization',
+      'Immunization',
+      'Immunization',
+      'Patient',
+    ])
+    expect(plan.resources[0]!.bytes).toBeGreaterThan(plan.resources[3]!.bytes)
+    expect(plan.resources[0]!.index).toBeGreaterThanOrEqual(2)
+    const totalShare = plan.resources.reduce((sum, { share }) => sum + share, 0)
+    expect(totalShare).toBeGreaterThan(0.9)
+    expect(totalShare).toBeLessThan(1)
+  })
+})
@@ -0,0 +1,155 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to build invalid bundles
+import { describe, expect, it } from 'vitest'
+import {
+  type FHIRBundle,
+  FHIRBundleProcessor,
+  FHIRProfileValidator,
+  ProfileValidationError,
+  SHCIssuer,
+  SHCReader,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const createLabBundle = (): FHIRBundle => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      fullUrl: 'resource:0',
+      resource: { resourceType: 'Patient', name: [{ family: 'Doe' }], birthDate: '1990-01-01' },
+    },
+    {
+      fullUrl: 'resource:1',
+      resource: {
+        resourceType: 'Observation',
+        status: 'final',
+        code: { coding: [{ system: 'http://loinc.org', code: '94558-4' }] },
+        subject: { reference: 'resource:0' },
+        effectiveDateTime: '2021-02-17',
+        valueCodeableConcept: { coding: [{ system: 'http://snomed.info/sct', code: '260385009' }] },
+      },
+    },
+  ],
+})
+
+// A vaccination bundle with a non-CVX vaccine code, no birth date and a dangling reference
+const createInvalidVaccinationBundle = (): FHIRBundle => {
+  const bundle = new FHIRBundleProcessor().processForQR(createValidFHIRBundle())
+  const [patient, immunization] = bundle.entry!.map(entry => entry.resource as any)
+  delete patient.birthDate
+  immunization.vaccineCode.coding[0].system = 'http://example.com/vaccines'
+  immunization.performer = [{ actor: { reference: 'resource:7' } }]
+  return bundle
+}
+
+const createIssuer = (profileValidation: 'vaccination' | 'auto' | null) =>
+  new SHCIssuer({
+    issuer: 'https://example.com/issuer',
+    privateKey: testPrivateKeyPKCS8,
+    publicKey: testPublicKeySPKI,
+    profileValidation,
+  })
+
+describe('FHIRProfileValidator', () => {
+  const validator = new FHIRProfileValidator()
+
+  it('should accept QR-optimized vaccination and laboratory bundles', () => {
+    const vaccination = new FHIRBundleProcessor().processForQR(createValidFHIRBundle())
+
+    expect(validator.validate(vaccination, 'vaccination')).toEqual([])
+    expect(validator.validate(createLabBundle(), 'laboratory')).toEqual([])
+    expect(validator.validate(createLabBundle())).toEqual([])
+  })
+
+  it('should list every violation with its path', () => {
+    const violations = validator.validate(createInvalidVaccinationBundle(), 'vaccination')
+
+    expect(violations).toEqual([
+      {
+        profile: 'vaccination',
+        path: 'Bundle.entry[0].resource.birthDate',
+        code: 'MISSING_ELEMENT',
+        message: 'Patient.birthDate is required',
+      },
+      expect.objectContaining({
+        path: 'Bundle.entry[1].resource.performer[0].actor.reference',
+        code: 'UNRESOLVED_REFERENCE',
+      }),
+      expect.objectContaining({
+        path: 'Bundle.entry[1].resource.vaccineCode.coding',
+        code: 'INVALID_CODE_SYSTEM',
+      }),
+    ])
+  })
+
+  it('should reject resource types and references outside the profile', () => {
+    const bundle = new FHIRBundleProcessor().processForQR(createValidFHIRBundle())
+    bundle.entry!.push(createLabBundle().entry![1]!)
+    const immunization = bundle.entry![1]!.resource as any
+    immunization.patient.reference = 'Patient/123'
+
+    const codes = validator.validate(bundle, 'vaccination').map(({ path, code }) => [path, code])
+
+    expect(codes).toEqual([
+      ['Bundle.entry[1].resource.patient.reference', 'UNRESOLVED_REFERENCE'],
+      ['Bundle.entry[2].fullUrl', 'INVALID_VALUE'],
+      ['Bundle.entry[2].resource', 'RESOURCE_TYPE_NOT_ALLOWED'],
+    ])
+  })
+
+  it('should check the laboratory profile elements', () => {
+    const bundle = createLabBundle()
+    const observation = bundle.entry![1]!.resource as any
+    observation.status = 'preliminary'
+    observation.code.coding[0].system = 'http://snomed.info/sct'
+    delete observation.effectiveDateTime
+    delete observation.valueCodeableConcept
+
+    const codes = validator.validate(bundle, 'laboratory').map(({ code }) => code)
+
+    expect(codes).toEqual([
+      'INVALID_VALUE',
+      'INVALID_CODE_SYSTEM',
+      'MISSING_ELEMENT',
+      'MISSING_ELEMENT',
+    ])
+  })
+})
+
+describe('Profile validation of issued and read cards', () => {
+  it('should refuse to issue cards violating the profile', async () => {
+    const bundle = createValidFHIRBundle()
+    delete (bundle.entry![0]!.resource as any).birthDate
+
+    const error = await createIssuer('vaccination')
+      .issue(bundle)
+      .catch(e => e)
+
+    expect(error).toBeInstanceOf(ProfileValidationError)
+    expect(error.code).toBe('PROFILE_VALIDATION_ERROR')
+    expect(error.violations).toHaveLength(1)
+    expect(error.message).toContain('Bundle.entry[0].resource.birthDate')
+    await expect(createIssuer(null).issue(bundle)).resolves.toBeDefined()
+    await expect(createIssuer('auto').issue(createValidFHIRBundle())).resolves.toBeDefined()
+  })
+
+  it('should reject cards violating the profile when reading', async () => {
+    const bundle = createValidFHIRBundle()
+    ;(bundle.entry![1]!.resource as any).vaccineCode.coding[0].system = 'http://example.com'
+    const jws = (await createIssuer(null).issue(bundle)).asJWS()
+
+    await expect(
+      new SHCReader({ publicKey: testPublicKeySPKI }).fromJWS(jws)
+    ).resolves.toBeDefined()
+
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI, profileValidation: 'auto' })
+    await expect(reader.fromJWS(jws)).rejects.toThrow(ProfileValidationError)
+
+    const report = await reader.verify(jws)
+    expect(report.valid).toBe(false)
+    expect(report.checks.find(c => c.check === 'bundle')).toMatchObject({
+      status: 'failed',
+      code: 'PROFILE_VALIDATION_ERROR',
+    })
+  })
+})
@@ -3,7 +3,12 @@
 import QRCode from 'qrcode'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { QRCodeError, QRCodeGenerator, SHCIssuer, SHCReader } from '@/index'
-import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+import {
+  createValidFHIRBundle,
+  decodeQRFromDataURL,
+  testPrivateKeyPKCS8,
+  testPublicKeySPKI,
+} from '../helpers'
 
 describe('QRCodeGenerator', () => {
   let qrGenerator: QRCodeGenerator
@@ -52,6 +57,72 @@ describe('QRCodeGenerator', () => {
       }
     })
 
+    it('should render QR codes in the other output formats', async () => {
+      const expectedContent = `shc:/${qrGenerator.encodeJWSToNumeric(validJWS)}`
+
+      const [png] = await qrGenerator.generateQR(validJWS, { format: 'png' })
+      expect(png).toBeInstanceOf(Uint8Array)
+      expect(
+        decodeQRFromDataURL(`data:image/png;base64,${Buffer.from(png!).toString('base64')}`)
+      ).toBe(expectedContent)
+
+      // The module matrix keeps the byte prefix + numeric multi-segment encoding
+      const [matrix] = await qrGenerator.generateQR(validJWS, { format: 'matrix' })
+      const { modules } = QRCode.create(
+        [
+          { data: new TextEncoder().encode('shc:/'), mode: 'byte' },
+          { data: qrGenerator.encodeJWSToNumeric(validJWS), mode: 'numeric' },
+        ],
+        { errorCorrectionLevel: 'L' }
+      )
+      expect(matrix).toHaveLength(modules.size)
+      expect(matrix!.flat().map(Number)).toEqual([...modules.data])
+
+      const [svg] = await qrGenerator.generateQR(validJWS, { format: 'svg' })
+      expect(svg).toMatch(/^<svg[^>]*>.*<\/svg>\n?$/s)
+
+      // Two module rows per line, with the default one-module quiet zone
+      const [utf8] = await qrGenerator.generateQR(validJWS, { format: 'utf8' })
+      const lines = utf8!.split('\n')
+      expect(lines).toHaveLength(Math.ceil((modules.size + 2) / 2))
+      expect(lines.every(line => /^[ █▀▄]+$/.test(line) && line.length === modules.size + 2)).toBe(
+        true
+      )
+      // Light modules are filled, so the quiet zone is drawn around the top-left finder pattern
+      expect(lines[0]?.slice(0, 8)).toBe('█▀▀▀▀▀▀▀')
+      expect(lines[1]?.slice(0, 8)).toBe('█ █▀▀▀█ ')
+      expect(lines.slice(0, -1).every(line => line.startsWith('█') && line.endsWith('█'))).toBe(
+        true
+      )
+
+      const [terminal] = await qrGenerator.generateQR(validJWS, { format: 'terminal' })
+      expect(terminal!.split('\n')).toHaveLength(modules.size + 2)
+      expect(terminal).toContain('\x1b[40m  \x1b[0m')
+    })
+
+    it('should render chunked QR codes in the requested format', async () => {
+      const chunkedGenerator = new QRCodeGenerator({ enableChunking: true, maxSingleQRSize: 100 })
+
+      const svgs = await chunkedGenerator.generateQR(validJWS, { format: 'svg' })
+
+      expect(svgs.length).toBe(chunkedGenerator.chunkJWS(validJWS).length)
+      for (const svg of svgs) {
+        expect(svg).toMatch(/^<svg/)
+      }
+    })
+
+    it('should throw QRCodeError for an unsupported output format', async () => {
+      const error = await qrGenerator
+        .generateQR(validJWS, { format: 'gif' as 'svg' })
+        .catch((error: unknown) => error)
+
+      expect(error).toBeInstanceOf(QRCodeError)
+      expect(error).toMatchObject({
+        code: 'QR_CODE_ERROR',
+        message: 'Unsupported QR output format: gif',
+      })
+    })
+
     it('should throw QRCodeError for invalid JWS characters', async () => {
       const invalidJWS = 'invalid-jws-with-unicode-€'
 
@@ -297,6 +368,36 @@ describe('QRCodeGenerator', () => {
       )
     })
 
+    it('should reject chunk indices or totals that are not canonical numbers', async () => {
+      for (const chunks of [
+        ['shc:/01/2/12', 'shc:/2/2/34'],
+        ['shc:/1x/2/12', 'shc:/2/2/34'],
+        ['shc:/1/2.0/12', 'shc:/2/2/34'],
+      ]) {
+        await expect(qrGenerator.decodeQR(chunks)).rejects.toThrow(
+          'Invalid chunk index or total in QR code'
+        )
+      }
+    })
+
+    it('should count chunks scanned twice once', async () => {
+      const chunkedGenerator = new QRCodeGenerator({ enableChunking: true, maxSingleQRSize: 100 })
+      const chunks = chunkedGenerator.chunkJWS(validJWS)
+      expect(chunks.length).toBeGreaterThan(1)
+
+      const [first = '', ...rest] = chunks
+      expect(await qrGenerator.decodeQR([first, ...rest, first])).toBe(validJWS)
+      await expect(qrGenerator.decodeQR([first, first])).rejects.toThrow(
+        `Missing chunks. Expected ${chunks.length}, got 1`
+      )
+    })
+
+    it('should reject chunks with the same index but different data', async () => {
+      await expect(
+        qrGenerator.decodeQR(['shc:/1/2/1234', 'shc:/1/2/5678', 'shc:/2/2/90'])
+      ).rejects.toThrow('Conflicting data received for chunk 1 of 2')
+    })
+
     it('should throw QRCodeError for empty numeric payload in single QR', async () => {
       await expect(qrGenerator.decodeQR(['shc:/'])).rejects.toThrow(QRCodeError)
       await expect(qrGenerator.decodeQR(['shc:/'])).rejects.toThrow(
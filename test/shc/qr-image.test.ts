@@ -0,0 +1,167 @@
+import { PNG } from 'pngjs'
+import sharp from 'sharp'
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  QRCodeError,
+  type QRImageData,
+  QRImageScanner,
+  type SHC,
+  SHCIssuer,
+  SHCReader,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const pngDecoder = async (bytes: Uint8Array): Promise<QRImageData> => {
+  const png = PNG.sync.read(Buffer.from(bytes))
+  return { data: png.data, width: png.width, height: png.height }
+}
+
+const dataURLToBytes = (dataURL: string): Uint8Array =>
+  new Uint8Array(Buffer.from(dataURL.replace(/^data:image\/png;base64,/, ''), 'base64'))
+
+// Places PNG images side by side on a white canvas, separated by a gap
+const composeSideBySide = (images: Uint8Array[]): Uint8Array => {
+  const pngs = images.map(bytes => PNG.sync.read(Buffer.from(bytes)))
+  const gap = 40
+  const width = pngs.reduce((sum, png) => sum + png.width + gap, gap)
+  const height = Math.max(...pngs.map(png => png.height)) + gap * 2
+  const canvas = new PNG({ width, height })
+  canvas.data.fill(255)
+  let x = gap
+  for (const png of pngs) {
+    PNG.bitblt(png, canvas, 0, 0, png.width, png.height, x, gap)
+    x += png.width + gap
+  }
+  return new Uint8Array(PNG.sync.write(canvas))
+}
+
+describe('Reading QR code images', () => {
+  let healthCard: SHC
+  let reader: SHCReader
+
+  beforeEach(async () => {
+    const issuer = new SHCIssuer({
+      issuer: 'https://example.com/issuer',
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    healthCard = await issuer.issue(createValidFHIRBundle())
+    reader = new SHCReader({ publicKey: testPublicKeySPKI, imageDecoder: pngDecoder })
+  })
+
+  describe('QRImageScanner', () => {
+    it('should find several QR codes in one image', async () => {
+      const chunks = await healthCard.asQR({ enableChunking: true, maxSingleQRSize: 400 })
+      expect(chunks.length).toBeGreaterThan(1)
+
+      const scanner = new QRImageScanner({ imageDecoder: pngDecoder })
+      const contents = await scanner.scan(composeSideBySide(chunks.map(dataURLToBytes)))
+
+      expect(contents.sort()).toEqual(
+        healthCard.asQRNumeric({ enableChunking: true, maxSingleQRSize: 400 }).sort()
+      )
+    })
+
+    it('should decode PNG and JPEG bytes in Node.js without an image decoder', async () => {
+      const [qr] = await healthCard.asQR()
+      const png = dataURLToBytes(qr as string)
+      const jpeg = new Uint8Array(await sharp(png).jpeg({ quality: 90 }).toBuffer())
+      const scanner = new QRImageScanner()
+
+      expect(await scanner.scan(png)).toEqual(healthCard.asQRNumeric())
+      expect(await scanner.scan(jpeg)).toEqual(healthCard.asQRNumeric())
+    })
+
+    it('should reject other image formats without an image decoder', async () => {
+      const gif = new TextEncoder().encode('GIF89a')
+
+      await expect(new QRImageScanner().scan(gif)).rejects.toThrow(
+        new QRCodeError(
+          'Unsupported image format: only PNG and JPEG bytes can be decoded without an imageDecoder'
+        )
+      )
+    })
+
+    it('should reject malformed pixel data', async () => {
+      const scanner = new QRImageScanner()
+
+      await expect(
+        scanner.scan({ data: new Uint8ClampedArray(10), width: 4, height: 4 })
+      ).rejects.toThrow(QRCodeError)
+    })
+  })
+
+  describe('SHCReader.fromQRImage()', () => {
+    it('should read a health card from PNG bytes with the built-in decoder', async () => {
+      const [qr] = await healthCard.asQR()
+      const defaultReader = new SHCReader({ publicKey: testPublicKeySPKI })
+
+      const result = await defaultReader.fromQRImage(dataURLToBytes(qr as string))
+
+      expect(result.asJWS()).toBe(healthCard.asJWS())
+    })
+
+    it('should read a health card from JPEG bytes', async () => {
+      const [qr] = await healthCard.asQR()
+      const jpeg = await sharp(dataURLToBytes(qr as string))
+        .jpeg({ quality: 90 })
+        .toBuffer()
+      const jpegReader = new SHCReader({
+        publicKey: testPublicKeySPKI,
+        imageDecoder: async bytes => {
+          const { data, info } = await sharp(bytes)
+            .ensureAlpha()
+            .raw()
+            .toBuffer({ resolveWithObject: true })
+          return { data, width: info.width, height: info.height }
+        },
+      })
+
+      const result = await jpegReader.fromQRImage(new Uint8Array(jpeg))
+
+      expect(result.asJWS()).toBe(healthCard.asJWS())
+    })
+
+    it('should read a health card from RGBA image data', async () => {
+      const [qr] = await healthCard.asQR()
+      const imageData = await pngDecoder(dataURLToBytes(qr as string))
+
+      const result = await new SHCReader({ publicKey: testPublicKeySPKI }).fromQRImage(imageData)
+
+      expect(result.asJWS()).toBe(healthCard.asJWS())
+    })
+
+    it('should reassemble chunks spread over several images in any order', async () => {
+      const chunks = await healthCard.asQR({ enableChunking: true, maxSingleQRSize: 400 })
+
+      const result = await reader.fromQRImage(chunks.map(dataURLToBytes).reverse())
+
+      expect(result.asJWS()).toBe(healthCard.asJWS())
+    })
+
+    it('should reassemble chunks printed side by side in one image', async () => {
+      const chunks = await healthCard.asQR({ enableChunking: true, maxSingleQRSize: 400 })
+
+      const result = await reader.fromQRImage(composeSideBySide(chunks.map(dataURLToBytes)))
+
+      expect(result.asJWS()).toBe(healthCard.asJWS())
+    })
+
+    it('should report missing chunks', async () => {
+      const chunks = await healthCard.asQR({ enableChunking: true, maxSingleQRSize: 400 })
+
+      await expect(reader.fromQRImage(dataURLToBytes(chunks[0] as string))).rejects.toThrow(
+        'Missing chunks'
+      )
+    })
+
+    it('should reject images without a health card QR code', async () => {
+      const blank = new PNG({ width: 50, height: 50 })
+      blank.data.fill(255)
+
+      await expect(reader.fromQRImage(new Uint8Array(PNG.sync.write(blank)))).rejects.toThrow(
+        'No SMART Health Card QR code found'
+      )
+    })
+  })
+})
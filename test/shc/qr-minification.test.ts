@@ -0,0 +1,183 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to inspect minified resources
+import { describe, expect, it } from 'vitest'
+import {
+  type FHIRBundle,
+  FHIRBundleProcessor,
+  getQRMinificationRules,
+  type QRMinificationRule,
+  qrMinificationRules,
+  SHCError,
+  SHCIssuer,
+  SHCReader,
+} from '@/index'
+import { testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const EXTENSION_URL = 'https://example.com/fhir/StructureDefinition/dose-number'
+
+const createDetailedBundle = (): FHIRBundle => ({
+  resourceType: 'Bundle',
+  id: 'bundle-1',
+  type: 'collection',
+  entry: [
+    {
+      fullUrl: 'https://example.com/base/Patient/1',
+      resource: {
+        resourceType: 'Patient',
+        id: '1',
+        meta: { versionId: '3', security: [{ system: 'https://example.com', code: 'IAL1.2' }] },
+        text: { status: 'generated', div: '<div>John Doe</div>' },
+        name: [{ family: 'Doe', given: ['John'] }],
+        birthDate: '1990-01-01',
+      },
+    },
+    {
+      fullUrl: 'https://example.com/base/Immunization/2',
+      resource: {
+        resourceType: 'Immunization',
+        id: '2',
+        text: { status: 'generated', div: '<div>COVID-19 vaccine</div>' },
+        extension: [
+          { url: EXTENSION_URL, valueInteger: 1 },
+          { url: 'https://example.com/fhir/StructureDefinition/other', valueString: 'x' },
+        ],
+        status: 'completed',
+        vaccineCode: {
+          coding: [
+            {
+              system: 'http://hl7.org/fhir/sid/cvx',
+              version: '2021',
+              code: '207',
+              display: 'Moderna',
+              userSelected: true,
+            },
+          ],
+          text: 'COVID-19 vaccine',
+        },
+        patient: { reference: 'Patient/1' },
+        occurrenceDateTime: '2021-01-01',
+        performer: [{ actor: { display: 'ABC General Hospital' } }],
+      },
+    },
+  ],
+})
+
+const minify = (minification?: Parameters<typeof getQRMinificationRules>[0]) => {
+  const bundle = new FHIRBundleProcessor().processForQR(
+    createDetailedBundle(),
+    minification ? { minification } : {}
+  )
+  return bundle.entry!.map(entry => entry.resource as any)
+}
+
+describe('QR minification rules', () => {
+  it('should apply the reference implementation preset by default', () => {
+    const [patient, immunization] = minify()
+
+    expect(minify('reference-implementation')).toEqual([patient, immunization])
+    expect(patient).toEqual({
+      resourceType: 'Patient',
+      meta: { security: [{ system: 'https://example.com', code: 'IAL1.2' }] },
+      name: [{ family: 'Doe', given: ['John'] }],
+      birthDate: '1990-01-01',
+    })
+    expect(immunization.vaccineCode).toEqual({
+      coding: [
+        { system: 'http://hl7.org/fhir/sid/cvx', version: '2021', code: '207', userSelected: true },
+      ],
+    })
+    expect(immunization.extension).toHaveLength(2)
+    expect(immunization.performer).toEqual([{ actor: { display: 'ABC General Hospital' } }])
+  })
+
+  it('should keep the optional elements with the spec minimum preset', () => {
+    const [patient, immunization] = minify('spec-minimum')
+
+    expect(patient.id).toBe('1')
+    expect(patient.meta.versionId).toBe('3')
+    expect(patient.text.div).toBe('<div>John Doe</div>')
+    expect(immunization.vaccineCode.text).toBe('COVID-19 vaccine')
+    expect(immunization.vaccineCode.coding[0].display).toBe('Moderna')
+    // References are always shortened
+    expect(immunization.patient.reference).toBe('resource:0')
+  })
+
+  it('should drop coding details and extensions with the aggressive preset', () => {
+    const [, immunization] = minify('aggressive')
+
+    expect(immunization.vaccineCode).toEqual({
+      coding: [{ system: 'http://hl7.org/fhir/sid/cvx', code: '207' }],
+    })
+    expect(immunization.extension).toBeUndefined()
+  })
+
+  it('should let callers disable, configure and add rules', () => {
+    const [patient, immunization] = minify([
+      ...getQRMinificationRules().filter(
+        rule => rule.name !== 'removeCodingDisplay' && rule.name !== 'removeNarratives'
+      ),
+      qrMinificationRules.removeNarratives({ keepFor: ['Patient'] }),
+      qrMinificationRules.removeExtensions({ allow: [EXTENSION_URL] }),
+      qrMinificationRules.removeElements(['Immunization.performer']),
+    ])
+
+    expect(patient.text.div).toBe('<div>John Doe</div>')
+    expect(immunization.text).toBeUndefined()
+    expect(immunization.vaccineCode.coding[0].display).toBe('Moderna')
+    expect(immunization.extension).toEqual([{ url: EXTENSION_URL, valueInteger: 1 }])
+    expect(immunization.performer).toBeUndefined()
+  })
+
+  it('should run custom rules in order with their context', () => {
+    const paths: string[] = []
+    const recordPaths: QRMinificationRule = {
+      name: 'recordPaths',
+      apply: (value, { path }) => {
+        paths.push(path)
+        return value
+      },
+    }
+    const truncateDates: QRMinificationRule = {
+      name: 'truncateDates',
+      apply: (value, { key, resourceType }) =>
+        resourceType === 'Immunization' && key === 'occurrenceDateTime'
+          ? String(value).slice(0, 7)
+          : value,
+    }
+
+    const [, immunization] = minify([qrMinificationRules.removeIds(), recordPaths, truncateDates])
+
+    expect(immunization.occurrenceDateTime).toBe('2021-01')
+    expect(paths).toContain('Immunization.vaccineCode.coding.display')
+    // Rules after one dropping a property do not see it
+    expect(paths).not.toContain('Immunization.id')
+  })
+
+  it('should reject unknown presets', () => {
+    expect(() => getQRMinificationRules('unknown' as any)).toThrow(SHCError)
+    expect(() => getQRMinificationRules('unknown' as any)).toThrow(
+      expect.objectContaining({
+        message: 'Unknown QR minification preset: unknown',
+        code: 'INVALID_CONFIGURATION',
+      })
+    )
+  })
+
+  it('should issue cards with the configured minification', async () => {
+    const issuer = new SHCIssuer({
+      issuer: 'https://example.com/issuer',
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      minification: 'aggressive',
+    })
+    const issued = await issuer.issue(createDetailedBundle())
+
+    const healthCard = await new SHCReader({ publicKey: testPublicKeySPKI }).fromJWS(issued.asJWS())
+    const immunization = (await healthCard.asBundle()).entry![1]!.resource as any
+
+    expect(immunization.extension).toBeUndefined()
+    expect(immunization.vaccineCode.coding[0]).toEqual({
+      system: 'http://hl7.org/fhir/sid/cvx',
+      code: '207',
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import type { Immunization } from '@medplum/fhirtypes'
+import { describe, expect, it } from 'vitest'
+import { type FHIRBundle, HealthCardRenderer, QRCodeError, SHC, SHCIssuer } from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const ISSUED_AT = Date.UTC(2025, 0, 15) // 2025-01-15T00:00:00Z
+
+const issue = (bundle: FHIRBundle = createValidFHIRBundle()) =>
+  new SHCIssuer({
+    issuer: 'https://example.com/issuer',
+    privateKey: testPrivateKeyPKCS8,
+    publicKey: testPublicKeySPKI,
+    clock: () => ISSUED_AT,
+    expirationTime: 365 * 24 * 3600,
+  }).issue(bundle)
+
+const createLabBundle = (): FHIRBundle => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      fullUrl: 'resource:0',
+      resource: { resourceType: 'Patient', name: [{ text: 'Ana <Souza>' }], birthDate: '1985-03' },
+    },
+    {
+      fullUrl: 'resource:1',
+      resource: {
+        resourceType: 'Observation',
+        status: 'final',
+        code: { coding: [{ system: 'http://loinc.org', code: '94558-4' }] },
+        subject: { reference: 'resource:0' },
+        effectiveDateTime: '2021-02-17T10:00:00Z',
+        valueCodeableConcept: { coding: [{ system: 'http://snomed.info/sct', code: '260385009' }] },
+      },
+    },
+  ],
+})
+
+const pdfText = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes)
+
+describe('HealthCardRenderer', () => {
+  it('should render a self-contained HTML page', async () => {
+    const bundle = createValidFHIRBundle()
+    delete (bundle.entry![1]!.resource as Immunization).vaccineCode.coding![0]!.display
+    const html = await new HealthCardRenderer().renderHTML(await issue(bundle))
+
+    expect(html).toMatch(/^<!DOCTYPE html>\n<html lang="en-US">/)
+    expect(html).toContain('<h1>SMART Health Card</h1>')
+    expect(html).toContain('<dt>Issuer</dt><dd>https://example.com/issuer</dd>')
+    expect(html).toContain('<dt>Issued</dt><dd>Jan 15, 2025</dd>')
+    expect(html).toContain('<dt>Expires</dt><dd>Jan 15, 2026</dd>')
+    expect(html).toContain('<dt>Name</dt><dd>John Doe</dd>')
+    expect(html).toContain('<dt>Date of birth</dt><dd>Jan 1, 1990</dd>')
+    // Without Coding.display, the code system and code are shown
+    expect(html).toContain('<td>Jan 15, 2023</td><td>CVX 207</td>')
+    expect(html.match(/<svg/g)).toHaveLength(1)
+    expect(html).not.toMatch(/(src|href)="http/)
+  })
+
+  it('should use localized labels, dates and code names, escaping the card data', async () => {
+    const directoryIssuer = {
+      iss: 'https://example.com/issuer',
+      name: 'Laboratório Central',
+      keys: new Map(),
+      crls: new Map(),
+    }
+    const issued = await issue(createLabBundle())
+    const healthCard = new SHC(issued.asJWS(), issued.getOriginalBundle(), directoryIssuer)
+    const renderer = new HealthCardRenderer({
+      locale: 'pt-BR',
+      labels: { title: 'Cartão de Saúde SMART', labResults: 'Exames', result: 'Resultado' },
+      codeDisplay: (_system, code) => (code === '94558-4' ? 'SARS-CoV-2 Ag' : undefined),
+    })
+
+    const html = await renderer.renderHTML(healthCard)
+
+    expect(html).toContain('<html lang="pt-BR">')
+    expect(html).toContain('<h1>Cartão de Saúde SMART</h1>')
+    expect(html).toContain('<dd>Laboratório Central</dd>')
+    expect(html).toContain('<dd>Ana &lt;Souza&gt;</dd>')
+    // Partial dates are kept as is
+    expect(html).toContain('<dd>1985-03</dd>')
+    expect(html).toContain('<h2>Exames</h2>')
+    expect(html).toContain('<th>Resultado</th>')
+    expect(html).toContain(
+      `<td>${new Intl.DateTimeFormat('pt-BR', { dateStyle: 'medium', timeZone: 'UTC' }).format(Date.UTC(2021, 1, 17))}</td><td>SARS-CoV-2 Ag</td><td>260385009</td>`
+    )
+    expect(html).not.toContain('Immunizations')
+  })
+
+  it('should render a PDF document', async () => {
+    const pdf = await new HealthCardRenderer({ pageSize: 'Letter' }).renderPDF(await issue())
+    const text = pdfText(pdf)
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true)
+    expect(text.endsWith('%%EOF\n')).toBe(true)
+    expect(text).toContain('/MediaBox [0 0 612 792]')
+    expect(text).toContain('(SMART Health Card) Tj')
+    expect(text).toContain('(John Doe) Tj')
+    expect(text).toContain('(COVID-19 vaccine) Tj')
+
+    // Cross-reference table offsets point at the objects
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(text)![1])
+    const offsets = text
+      .slice(xrefOffset)
+      .split('\n')
+      .slice(3)
+      .filter(line => line.endsWith(' n '))
+      .map(line => Number(line.slice(0, 10)))
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true)
+    })
+  })
+
+  it('should add pages for long histories and chunked QR codes', async () => {
+    const bundle = createValidFHIRBundle()
+    const immunization = bundle.entry![1]!.resource as Immunization
+    for (let dose = 0; dose < 60; dose++) {
+      bundle.entry!.push({
+        fullUrl: `https://example.com/base/Immunization/${dose}`,
+        resource: { ...immunization, lotNumber: (dose * 7919 + 104729).toString(36).repeat(3) },
+      })
+    }
+    const healthCard = await issue(bundle)
+
+    await expect(new HealthCardRenderer().renderPDF(healthCard)).rejects.toThrow(QRCodeError)
+
+    const renderer = new HealthCardRenderer({
+      qr: { enableChunking: true, encodeOptions: { errorCorrectionLevel: 'M' } },
+    })
+    const text = pdfText(await renderer.renderPDF(healthCard))
+    expect(text.match(/\/Type \/Page /g)!.length).toBeGreaterThan(1)
+    expect((await renderer.renderHTML(healthCard)).match(/<svg/g)!.length).toBeGreaterThan(1)
+  })
+})
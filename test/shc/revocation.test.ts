@@ -0,0 +1,158 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  Directory,
+  InMemoryRevocationStore,
+  IssuerKeyring,
+  RevocationList,
+  RevocationListError,
+  SHCIssuer,
+  SHCReader,
+  SHCRevokedError,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+describe('RevocationList', () => {
+  const ISS_URL = 'https://example.com/issuer'
+  let keyring: IssuerKeyring
+  let kid: string
+  let store: InMemoryRevocationStore
+  let crl: RevocationList
+
+  beforeEach(async () => {
+    keyring = new IssuerKeyring()
+    kid = await keyring.addKey({ privateKey: testPrivateKeyPKCS8, publicKey: testPublicKeySPKI })
+    store = new InMemoryRevocationStore()
+    crl = new RevocationList({ kid, store, keyring })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should start with an empty CRL', async () => {
+    expect(await crl.getCRL()).toEqual({ kid, method: 'rid', ctr: 0, rids: [] })
+    expect(RevocationList.pathFor(kid)).toBe(`/.well-known/crl/${kid}.json`)
+  })
+
+  it('should bump ctr and keep the keyring crlVersion in step', async () => {
+    await crl.revoke('rid-a')
+    const updated = await crl.revoke('rid-b', { revokedAt: new Date('2024-01-01T00:00:00Z') })
+
+    expect(updated).toEqual({ kid, method: 'rid', ctr: 2, rids: ['rid-a', 'rid-b.1704067200'] })
+    expect(keyring.getCrlVersion(kid)).toBe(2)
+    expect(keyring.toJWKS().keys[0]!.crlVersion).toBe(2)
+    expect(await store.load(kid)).toEqual(updated)
+  })
+
+  it('should not bump ctr when revoking an identical entry', async () => {
+    await crl.revoke('rid-a', { revokedAt: 1700000000 })
+    const unchanged = await crl.revoke('rid-a', { revokedAt: 1700000000 })
+    expect(unchanged.ctr).toBe(1)
+
+    const replaced = await crl.revoke('rid-a')
+    expect(replaced).toMatchObject({ ctr: 2, rids: ['rid-a'] })
+  })
+
+  it('should reinstate revoked rids', async () => {
+    await crl.revoke('rid-a')
+    await crl.revoke('rid-b')
+
+    expect((await crl.reinstate('rid-a')).rids).toEqual(['rid-b'])
+    expect((await crl.reinstate('unknown')).ctr).toBe(3)
+  })
+
+  it('should apply concurrent changes one at a time', async () => {
+    await Promise.all([crl.revoke('rid-a'), crl.revoke('rid-b'), crl.revoke('rid-c')])
+    await Promise.all([crl.reinstate('rid-a'), crl.revoke('rid-d')])
+
+    expect(await crl.getCRL()).toEqual({
+      kid,
+      method: 'rid',
+      ctr: 5,
+      rids: ['rid-b', 'rid-c', 'rid-d'],
+    })
+    expect(keyring.getCrlVersion(kid)).toBe(5)
+  })
+
+  it('should keep applying changes after one fails', async () => {
+    vi.spyOn(store, 'save').mockRejectedValueOnce(new Error('store unavailable'))
+
+    const results = await Promise.allSettled([crl.revoke('rid-a'), crl.revoke('rid-b')])
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled'])
+    expect(await crl.getCRL()).toMatchObject({ ctr: 1, rids: ['rid-b'] })
+  })
+
+  it('should evaluate timestamped revocations against nbf', async () => {
+    await crl.revoke('rid-a', { revokedAt: 1000 })
+
+    expect(await crl.isRevoked('rid-a', 999)).toBe(true)
+    expect(await crl.isRevoked('rid-a', 1000)).toBe(true)
+    expect(await crl.isRevoked('rid-a', 1001)).toBe(false)
+    expect(await crl.isRevoked('rid-b', 1)).toBe(false)
+  })
+
+  it('should reject invalid input', async () => {
+    await expect(crl.revoke('has.dot')).rejects.toThrow(RevocationListError)
+    await expect(crl.revoke('')).rejects.toThrow(RevocationListError)
+    await expect(crl.revoke('rid', { revokedAt: Number.NaN })).rejects.toThrow(RevocationListError)
+    expect(() => new RevocationList({ kid: 'unknown', keyring })).toThrow(RevocationListError)
+  })
+
+  it('should serialize a CRL that the reader uses to reject revoked cards', async () => {
+    const issuer = new SHCIssuer({ issuer: ISS_URL, keyring })
+    const revokedCard = await issuer.issue(createValidFHIRBundle(), { rid: 'revoked-rid' })
+    const validCard = await issuer.issue(createValidFHIRBundle(), { rid: 'valid-rid' })
+    await crl.revoke('revoked-rid')
+
+    const crlBody = await crl.serialize()
+    expect(JSON.parse(crlBody)).toEqual({ kid, method: 'rid', ctr: 1, rids: ['revoked-rid'] })
+
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === `${ISS_URL}/.well-known/jwks.json`) {
+        return { ok: true, json: async () => keyring.toJWKS() }
+      }
+      if (url === `${ISS_URL}${RevocationList.pathFor(kid)}`) {
+        return { ok: true, json: async () => JSON.parse(crlBody) }
+      }
+      return { ok: false, status: 404 }
+    })
+    vi.stubGlobal('fetch', fetchMock as any)
+    const directory = await Directory.fromURLs([ISS_URL])
+
+    const reader = new SHCReader({ issuerDirectory: directory })
+    await expect(reader.fromJWS(revokedCard.asJWS())).rejects.toThrow(SHCRevokedError)
+    await expect(reader.fromJWS(validCard.asJWS())).resolves.toBeDefined()
+  })
+
+  it('should not revoke cards issued after a timestamped revocation', async () => {
+    const REVOKED_AT = 1_735_689_600 // 2025-01-01T00:00:00Z
+    const issueAt = (seconds: number) =>
+      new SHCIssuer({ issuer: ISS_URL, keyring, clock: () => seconds * 1000 }).issue(
+        createValidFHIRBundle(),
+        { rid: 'patient-rid' }
+      )
+    const revokedCard = await issueAt(REVOKED_AT)
+    const reissuedCard = await issueAt(REVOKED_AT + 1)
+    await crl.revoke('patient-rid', { revokedAt: REVOKED_AT })
+
+    const crlBody = await crl.serialize()
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url === `${ISS_URL}/.well-known/jwks.json`) {
+        return { ok: true, json: async () => keyring.toJWKS() }
+      }
+      if (url === `${ISS_URL}${RevocationList.pathFor(kid)}`) {
+        return { ok: true, json: async () => JSON.parse(crlBody) }
+      }
+      return { ok: false, status: 404 }
+    })
+    vi.stubGlobal('fetch', fetchMock as any)
+    const directory = await Directory.fromURLs([ISS_URL])
+
+    const reader = new SHCReader({ issuerDirectory: directory, verifyExpiration: false })
+    await expect(reader.fromJWS(revokedCard.asJWS())).rejects.toThrow(SHCRevokedError)
+    await expect(reader.fromJWS(reissuedCard.asJWS())).resolves.toBeDefined()
+  })
+})
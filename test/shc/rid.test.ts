@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CredentialValidationError,
+  deriveRid,
+  isValidRid,
+  JWSProcessor,
+  SHCIssuer,
+  SHCIssuerConfigError,
+  VerifiableCredentialProcessor,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+describe('Revocation identifiers', () => {
+  const ISS_URL = 'https://example.com/issuer'
+
+  describe('deriveRid()', () => {
+    it('should derive a stable 64-bit base64url HMAC of the identifier', async () => {
+      const rid = await deriveRid('issuer-secret', 'patient-123')
+
+      expect(rid).toMatch(/^[A-Za-z0-9_-]{11}$/)
+      expect(await deriveRid(new TextEncoder().encode('issuer-secret'), 'patient-123')).toBe(rid)
+      expect(await deriveRid('issuer-secret', 'patient-456')).not.toBe(rid)
+      expect(await deriveRid('other-secret', 'patient-123')).not.toBe(rid)
+    })
+
+    it('should reject empty inputs', async () => {
+      await expect(deriveRid('', 'patient-123')).rejects.toThrow(CredentialValidationError)
+      await expect(deriveRid('issuer-secret', '')).rejects.toThrow(CredentialValidationError)
+    })
+  })
+
+  describe('isValidRid()', () => {
+    it('should enforce the spec constraints', () => {
+      expect(isValidRid('MSkPcf7G4PU')).toBe(true)
+      expect(isValidRid('a'.repeat(24))).toBe(true)
+      expect(isValidRid('a'.repeat(25))).toBe(false)
+      expect(isValidRid('has.dot')).toBe(false)
+      expect(isValidRid('not base64url')).toBe(false)
+      expect(isValidRid('')).toBe(false)
+    })
+  })
+
+  describe('SHCIssuer', () => {
+    const keys = { privateKey: testPrivateKeyPKCS8, publicKey: testPublicKeySPKI }
+
+    it('should derive rid from ridSubject', async () => {
+      const issuer = new SHCIssuer({ issuer: ISS_URL, ...keys, ridSecret: 'issuer-secret' })
+
+      const healthCard = await issuer.issue(createValidFHIRBundle(), { ridSubject: 'patient-123' })
+      const payload = await new JWSProcessor().verify(healthCard.asJWS(), testPublicKeySPKI)
+
+      expect(payload.vc.rid).toBe(await deriveRid('issuer-secret', 'patient-123'))
+    })
+
+    it('should reject ridSubject without ridSecret or combined with rid', async () => {
+      const withoutSecret = new SHCIssuer({ issuer: ISS_URL, ...keys })
+      await expect(
+        withoutSecret.issue(createValidFHIRBundle(), { ridSubject: 'patient-123' })
+      ).rejects.toThrow(SHCIssuerConfigError)
+
+      const withSecret = new SHCIssuer({ issuer: ISS_URL, ...keys, ridSecret: 'issuer-secret' })
+      await expect(
+        withSecret.issue(createValidFHIRBundle(), { rid: 'abc', ridSubject: 'patient-123' })
+      ).rejects.toThrow(CredentialValidationError)
+
+      expect(() => new SHCIssuer({ issuer: ISS_URL, ...keys, ridSecret: '' })).toThrow(
+        SHCIssuerConfigError
+      )
+    })
+
+    it('should reject caller-supplied rids that violate the spec', async () => {
+      const issuer = new SHCIssuer({ issuer: ISS_URL, ...keys })
+
+      await expect(issuer.issue(createValidFHIRBundle(), { rid: 'has.dot' })).rejects.toThrow(
+        CredentialValidationError
+      )
+      expect(() =>
+        new VerifiableCredentialProcessor().create(createValidFHIRBundle(), { rid: 'x'.repeat(25) })
+      ).toThrow('at most 24 characters')
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import type { Immunization } from '@medplum/fhirtypes'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  LocalSigner,
+  SelfVerificationError,
+  SHC,
+  SHCIssuer,
+  SHCReader,
+  SignatureVerificationError,
+  type Signer,
+} from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const ISS_URL = 'https://example.com/issuer'
+
+describe('SHCIssuer verifyAfterIssue', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should read issued cards back from their numeric QR form', async () => {
+    const fromQRNumeric = vi.spyOn(SHCReader.prototype, 'fromQRNumeric')
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      verifyAfterIssue: true,
+      // Verified against the issuer's clock, so cards already expired by the system clock pass
+      clock: () => Date.UTC(2020, 0, 1),
+      expirationTime: 24 * 3600,
+    })
+
+    const healthCard = await issuer.issue(createValidFHIRBundle())
+
+    expect(fromQRNumeric).toHaveBeenCalledWith(healthCard.asQRNumeric())
+  })
+
+  it('should read chunked cards and cards signed by a signer back', async () => {
+    const bundle = createValidFHIRBundle()
+    const immunization = bundle.entry![1]!.resource as Immunization
+    for (let dose = 0; dose < 60; dose++) {
+      bundle.entry!.push({
+        fullUrl: `https://example.com/base/Immunization/${dose}`,
+        resource: { ...immunization, lotNumber: (dose * 7919 + 104729).toString(36).repeat(3) },
+      })
+    }
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      signer: new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI),
+      verifyAfterIssue: true,
+    })
+
+    const healthCard = await issuer.issue(bundle)
+
+    expect(healthCard.asQRNumeric().length).toBeGreaterThan(1)
+  })
+
+  it('should reject cards that do not verify with the issuer public key', async () => {
+    const otherKeyPair = (await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair
+    const localSigner = new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI)
+    const signer: Signer = {
+      getPublicJwk: async () => await crypto.subtle.exportKey('jwk', otherKeyPair.publicKey),
+      getKid: () => localSigner.getKid(),
+      sign: data => localSigner.sign(data),
+    }
+    const issuer = new SHCIssuer({ issuer: ISS_URL, signer, verifyAfterIssue: true })
+
+    const error = await issuer.issue(createValidFHIRBundle()).catch(error => error)
+
+    expect(error).toBeInstanceOf(SelfVerificationError)
+    expect(error.code).toBe('SELF_VERIFICATION_FAILED')
+    expect(error.readError).toBeInstanceOf(SignatureVerificationError)
+    expect(error.message).toMatch(/^Self-verification failed: issued card could not be read back: /)
+  })
+
+  it('should reject cards whose bundle read back differs from the signed bundle', async () => {
+    vi.spyOn(SHC.prototype, 'asBundle').mockResolvedValue({
+      resourceType: 'Bundle',
+      type: 'collection',
+    })
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      verifyAfterIssue: true,
+    })
+
+    await expect(issuer.issue(createValidFHIRBundle())).rejects.toThrow(
+      new SelfVerificationError(
+        'Self-verification failed: bundle read back differs from the signed bundle'
+      )
+    )
+  })
+
+  it('should compare bundles regardless of property order', async () => {
+    const asBundle = SHC.prototype.asBundle
+    vi.spyOn(SHC.prototype, 'asBundle').mockImplementation(async function (this: SHC) {
+      const bundle = await asBundle.call(this)
+      const reversed = (value: object) => Object.fromEntries(Object.entries(value).reverse())
+      return reversed({ ...bundle, entry: bundle.entry?.map(reversed) })
+    })
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+      verifyAfterIssue: true,
+    })
+
+    await expect(issuer.issue(createValidFHIRBundle())).resolves.toBeInstanceOf(SHC)
+  })
+
+  it('should not read cards back by default', async () => {
+    const fromQRNumeric = vi.spyOn(SHCReader.prototype, 'fromQRNumeric')
+    const issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+
+    await issuer.issue(createValidFHIRBundle())
+
+    expect(fromQRNumeric).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,160 @@
+import { decodeProtectedHeader } from 'jose'
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  type FHIRBundle,
+  JWSError,
+  JWSProcessor,
+  LocalSigner,
+  MockRemoteSigner,
+  SHCIssuer,
+  SHCIssuerConfigError,
+  type SHCJWT,
+  SHCReader,
+  type Signer,
+  VerifiableCredentialProcessor,
+} from '@/index'
+import {
+  buildTestJwkData,
+  createValidFHIRBundle,
+  testPrivateKeyJWK,
+  testPrivateKeyPKCS8,
+  testPublicKeyJWK,
+  testPublicKeySPKI,
+} from '../helpers'
+
+describe('Signer', () => {
+  let validBundle: FHIRBundle
+  let payload: SHCJWT
+
+  beforeEach(() => {
+    validBundle = createValidFHIRBundle()
+    const vc = new VerifiableCredentialProcessor().create(validBundle)
+    payload = {
+      iss: 'https://example.com/issuer',
+      nbf: Math.floor(Date.now() / 1000),
+      vc: vc.vc,
+    }
+  })
+
+  describe('LocalSigner', () => {
+    it('should derive the kid and public JWK from the public key', async () => {
+      const signer = new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI)
+      const { kid } = await buildTestJwkData()
+
+      expect(await signer.getKid()).toBe(kid)
+      expect(await signer.getPublicJwk()).toEqual(testPublicKeyJWK)
+    })
+
+    it('should produce 64-byte ES256 signatures', async () => {
+      const signer = new LocalSigner(testPrivateKeyJWK, testPublicKeyJWK)
+      const signature = await signer.sign(new TextEncoder().encode('header.payload'))
+
+      expect(signature).toBeInstanceOf(Uint8Array)
+      expect(signature).toHaveLength(64)
+    })
+  })
+
+  describe('JWSProcessor.signWithSigner()', () => {
+    it('should build a compact JWS verifiable with the public key', async () => {
+      const processor = new JWSProcessor()
+      const signer = new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI)
+
+      const jws = await processor.signWithSigner(payload, signer)
+      const header = decodeProtectedHeader(jws)
+      expect(header).toEqual({ alg: 'ES256', kid: await signer.getKid(), zip: 'DEF' })
+
+      const verified = await processor.verify(jws, testPublicKeySPKI)
+      expect(verified.iss).toBe(payload.iss)
+    })
+
+    it('should omit zip header when compression is disabled', async () => {
+      const processor = new JWSProcessor()
+      const signer = new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI)
+
+      const jws = await processor.signWithSigner(payload, signer, { enableCompression: false })
+
+      expect(decodeProtectedHeader(jws).zip).toBeUndefined()
+      expect((await processor.verify(jws, testPublicKeyJWK)).vc).toEqual(payload.vc)
+    })
+
+    it('should reject signatures with an unexpected length', async () => {
+      const processor = new JWSProcessor()
+      const badSigner: Signer = {
+        getPublicJwk: async () => testPublicKeyJWK,
+        getKid: async () => 'kid',
+        sign: async () => new Uint8Array(72),
+      }
+
+      await expect(processor.signWithSigner(payload, badSigner)).rejects.toThrow(
+        'expected 64 bytes, got 72'
+      )
+    })
+
+    it('should wrap unexpected signer failures in JWSError', async () => {
+      const processor = new JWSProcessor()
+      const failingSigner: Signer = {
+        getPublicJwk: async () => testPublicKeyJWK,
+        getKid: async () => 'kid',
+        sign: async () => {
+          throw new Error('KMS throttled')
+        },
+      }
+
+      await expect(processor.signWithSigner(payload, failingSigner)).rejects.toThrow(
+        'JWS signing failed: KMS throttled'
+      )
+    })
+  })
+
+  describe('SHCIssuer with signer', () => {
+    it('should issue a card through a remote signer that the reader verifies', async () => {
+      const signer = new MockRemoteSigner({
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+        latencyMs: 1,
+      })
+      const issuer = new SHCIssuer({ issuer: 'https://example.com/issuer', signer })
+      const reader = new SHCReader({ publicKey: testPublicKeySPKI })
+
+      const healthCard = await issuer.issue(validBundle)
+      const verified = await reader.fromJWS(healthCard.asJWS())
+
+      expect(signer.signCount).toBe(1)
+      expect(await verified.asBundle()).toEqual(await healthCard.asBundle({ optimizeForQR: true }))
+    })
+
+    it('should surface remote signer outages as JWSError', async () => {
+      const signer = new MockRemoteSigner({
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+      })
+      signer.setAvailable(false)
+      const issuer = new SHCIssuer({ issuer: 'https://example.com/issuer', signer })
+
+      await expect(issuer.issue(validBundle)).rejects.toThrow(JWSError)
+      expect(signer.signCount).toBe(0)
+    })
+
+    it('should reject configurations mixing a signer and raw keys', () => {
+      const signer = new LocalSigner(testPrivateKeyPKCS8, testPublicKeySPKI)
+      expect(
+        () =>
+          new SHCIssuer({
+            issuer: 'https://example.com/issuer',
+            signer,
+            privateKey: testPrivateKeyPKCS8,
+          })
+      ).toThrow(SHCIssuerConfigError)
+    })
+
+    it('should reject configurations without any key material', () => {
+      expect(() => new SHCIssuer({ issuer: 'https://example.com/issuer' })).toThrow(
+        SHCIssuerConfigError
+      )
+      expect(
+        () =>
+          new SHCIssuer({ issuer: 'https://example.com/issuer', privateKey: testPrivateKeyPKCS8 })
+      ).toThrow(SHCIssuerConfigError)
+    })
+  })
+})
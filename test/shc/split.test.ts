@@ -0,0 +1,122 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test spies on a private method
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { type FHIRBundle, QRCodeError, SHCIssuer, SHCReader } from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const createIssuer = () =>
+  new SHCIssuer({
+    issuer: 'https://example.com/issuer',
+    privateKey: testPrivateKeyPKCS8,
+    publicKey: testPublicKeySPKI,
+  })
+
+// Random-looking lot numbers keep the payload from compressing too well
+const lotNumber = (dose: number) =>
+  Array.from({ length: 6 }, (_, i) => ((dose * 7919 + i * 104729) % 999983).toString(36)).join('-')
+
+const createLongHistoryBundle = (doses: number): FHIRBundle => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      fullUrl: 'https://example.com/base/Patient/1',
+      resource: {
+        resourceType: 'Patient',
+        id: '1',
+        name: [{ family: 'Anyperson', given: ['Jane'] }],
+        birthDate: '1961-01-20',
+      },
+    },
+    ...Array.from({ length: doses }, (_, dose) => ({
+      fullUrl: `https://example.com/base/Immunization/${dose + 10}`,
+      resource: {
+        resourceType: 'Immunization' as const,
+        id: `${dose + 10}`,
+        status: 'completed' as const,
+        vaccineCode: { coding: [{ system: 'http://hl7.org/fhir/sid/cvx', code: `${200 + dose}` }] },
+        patient: { reference: 'Patient/1' },
+        occurrenceDateTime: `20${10 + (dose % 15)}-01-01`,
+        lotNumber: lotNumber(dose),
+        ...(dose === doses - 1 && {
+          performer: [{ actor: { reference: 'Organization/2' } }],
+        }),
+      },
+    })),
+    {
+      fullUrl: 'https://example.com/base/Organization/2',
+      resource: { resourceType: 'Organization', id: '2', name: 'ABC General Hospital' },
+    },
+  ],
+})
+
+describe('SHCIssuer.issueSplit()', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should issue a single card when the bundle fits a single QR code', async () => {
+    const healthCards = await createIssuer().issueSplit(createValidFHIRBundle())
+
+    expect(healthCards).toHaveLength(1)
+    expect(await healthCards[0]!.asBundle()).toEqual(createValidFHIRBundle())
+  })
+
+  it('should split a long history into self-contained single-QR cards', async () => {
+    const bundle = createLongHistoryBundle(40)
+    const healthCards = await createIssuer().issueSplit(bundle, { errorCorrectionLevel: 'M' })
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI })
+
+    expect(healthCards.length).toBeGreaterThan(1)
+    const lotNumbers: string[] = []
+    let performers = 0
+    for (const healthCard of healthCards) {
+      const jws = healthCard.asJWS()
+      expect(jws.length).toBeLessThanOrEqual(927)
+      expect(healthCard.asQRNumeric()).toHaveLength(1)
+
+      const entries = (await (await reader.fromJWS(jws)).asBundle()).entry!
+      expect(entries[0]!.resource).toMatchObject({
+        resourceType: 'Patient',
+        birthDate: '1961-01-20',
+      })
+      for (const [index, entry] of entries.entries()) {
+        expect(entry.fullUrl).toBe(`resource:${index}`)
+        if (entry.resource?.resourceType === 'Immunization') {
+          expect(entry.resource.patient.reference).toBe('resource:0')
+          lotNumbers.push(entry.resource.lotNumber!)
+          const performer = entry.resource.performer?.[0]?.actor.reference
+          if (performer) {
+            // The referenced Organization travels with the Immunization
+            const index = Number(performer.replace('resource:', ''))
+            expect(entries[index]!.resource?.resourceType).toBe('Organization')
+            performers++
+          }
+        }
+      }
+    }
+    // Every immunization is issued once, in bundle order
+    expect(lotNumbers).toEqual(Array.from({ length: 40 }, (_, dose) => lotNumber(dose)))
+    expect(performers).toBe(1)
+  })
+
+  it('should only build a few candidate payloads per card', async () => {
+    const createPayload = vi.spyOn(SHCIssuer.prototype as any, 'createPayload')
+    const healthCards = await createIssuer().issueSplit(createLongHistoryBundle(200))
+
+    // A few candidates per card, plus the issued card, instead of one candidate per entry
+    expect(healthCards.length).toBeGreaterThan(10)
+    expect(createPayload.mock.calls.length).toBeLessThan(healthCards.length * 5)
+  })
+
+  it('should reject entries too large for a single QR code on their own', async () => {
+    const bundle = createValidFHIRBundle()
+    const immunization = bundle.entry![1]!.resource as { lotNumber?: string }
+    immunization.lotNumber = Array.from({ length: 200 }, (_, i) => lotNumber(i)).join('')
+
+    await expect(createIssuer().issueSplit(bundle)).rejects.toThrow(
+      new QRCodeError(
+        'Bundle entry 1 (Immunization) does not fit a single QR code at error correction level L'
+      )
+    )
+  })
+})
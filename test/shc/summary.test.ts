@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import { type FHIRBundle, FHIRSummaryExtractor, SHCIssuer, SHCReader } from '@/index'
+import { createValidFHIRBundle, testPrivateKeyPKCS8, testPublicKeySPKI } from '../helpers'
+
+const createSummaryBundle = (): FHIRBundle => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      fullUrl: 'https://example.com/base/Patient/1',
+      resource: {
+        resourceType: 'Patient',
+        id: '1',
+        name: [{ family: 'Anyperson', given: ['Jane', 'C.'] }],
+        birthDate: '1961-01-20',
+      },
+    },
+    {
+      fullUrl: 'https://example.com/base/Organization/2',
+      resource: { resourceType: 'Organization', id: '2', name: 'ABC General Hospital' },
+    },
+    {
+      fullUrl: 'https://example.com/base/Immunization/3',
+      resource: {
+        resourceType: 'Immunization',
+        id: '3',
+        status: 'completed',
+        vaccineCode: {
+          coding: [{ system: 'http://hl7.org/fhir/sid/cvx', code: '207', display: 'Moderna' }],
+        },
+        patient: { reference: 'Patient/1' },
+        occurrenceDateTime: '2021-01-01',
+        lotNumber: '0000001',
+        performer: [{ actor: { reference: 'Organization/2' } }],
+      },
+    },
+    {
+      fullUrl: 'https://example.com/base/Observation/4',
+      resource: {
+        resourceType: 'Observation',
+        id: '4',
+        status: 'final',
+        category: [
+          {
+            coding: [
+              {
+                system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+                code: 'laboratory',
+              },
+            ],
+          },
+        ],
+        code: { coding: [{ system: 'http://loinc.org', code: '94558-4' }] },
+        subject: { reference: 'Patient/1' },
+        effectiveDateTime: '2021-02-17',
+        valueCodeableConcept: { coding: [{ system: 'http://snomed.info/sct', code: '260385009' }] },
+        performer: [{ display: 'ABC Laboratory' }],
+      },
+    },
+    {
+      fullUrl: 'https://example.com/base/Observation/5',
+      resource: {
+        resourceType: 'Observation',
+        id: '5',
+        status: 'final',
+        category: [{ coding: [{ code: 'vital-signs' }] }],
+        code: { coding: [{ system: 'http://loinc.org', code: '8867-4' }] },
+        valueQuantity: { value: 72, unit: 'beats/min' },
+      },
+    },
+  ],
+})
+
+describe('Clinical summary', () => {
+  it('should summarize the patient, immunizations and lab results of a health card', async () => {
+    const issuer = new SHCIssuer({
+      issuer: 'https://example.com/issuer',
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    const healthCard = await issuer.issue(createSummaryBundle())
+
+    const summary = healthCard.getSummary()
+
+    expect(summary.patient).toEqual({
+      name: 'Jane C. Anyperson',
+      givenNames: ['Jane', 'C.'],
+      familyName: 'Anyperson',
+      birthDate: '1961-01-20',
+    })
+    expect(summary.immunizations).toHaveLength(1)
+    expect(summary.immunizations[0]).toMatchObject({
+      system: 'http://hl7.org/fhir/sid/cvx',
+      code: '207',
+      display: 'Moderna',
+      date: '2021-01-01',
+      lotNumber: '0000001',
+      performer: 'ABC General Hospital',
+      status: 'completed',
+    })
+    expect(summary.labResults).toEqual([
+      expect.objectContaining({
+        system: 'http://loinc.org',
+        code: '94558-4',
+        display: null,
+        date: '2021-02-17',
+        value: '260385009',
+        performer: 'ABC Laboratory',
+        status: 'final',
+      }),
+    ])
+  })
+
+  it('should resolve resource:N references of QR-optimized bundles', async () => {
+    const issuer = new SHCIssuer({
+      issuer: 'https://example.com/issuer',
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    const issued = await issuer.issue(createSummaryBundle())
+    const healthCard = await new SHCReader({ publicKey: testPublicKeySPKI }).fromJWS(issued.asJWS())
+
+    const immunization = healthCard.getSummary().immunizations[0]!
+    expect(immunization.resource.performer?.[0]?.actor?.reference).toBe('resource:1')
+    expect(immunization.performer).toBe('ABC General Hospital')
+    // Coding.display is dropped by the QR optimizations
+    expect(immunization.display).toBeNull()
+  })
+
+  it('should resolve resource:N references to entries without fullUrl', () => {
+    const bundle = createSummaryBundle()
+    for (const entry of bundle.entry!) delete entry.fullUrl
+    const immunization = bundle.entry![2]!.resource as { performer: unknown }
+    immunization.performer = [{ actor: { reference: 'resource:1' } }]
+
+    const summary = new FHIRSummaryExtractor().extract(bundle)
+
+    expect(summary.immunizations[0]!.performer).toBe('ABC General Hospital')
+  })
+
+  it('should format quantity values and leave missing fields null', () => {
+    const summary = new FHIRSummaryExtractor().extract({
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        {
+          resource: {
+            resourceType: 'Observation',
+            status: 'final',
+            code: { text: 'Antibody titer' },
+            valueQuantity: { value: 1.5, unit: 'U/mL' },
+          },
+        },
+      ],
+    })
+
+    expect(summary.patient).toBeNull()
+    expect(summary.immunizations).toEqual([])
+    expect(summary.labResults[0]).toMatchObject({
+      system: null,
+      code: null,
+      display: 'Antibody titer',
+      date: null,
+      value: '1.5 U/mL',
+      performer: null,
+    })
+  })
+
+  it('should summarize the test fixture bundle', () => {
+    const summary = new FHIRSummaryExtractor().extract(createValidFHIRBundle())
+
+    expect(summary.patient?.name).toBe('John Doe')
+    expect(summary.immunizations.map(({ code, date }) => ({ code, date }))).toEqual([
+      { code: '207', date: '2023-01-15' },
+    ])
+  })
+})
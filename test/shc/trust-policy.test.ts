@@ -0,0 +1,143 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  Directory,
+  type FHIRBundle,
+  SHCIssuer,
+  SHCReader,
+  SHCReaderConfigError,
+  UntrustedIssuerError,
+} from '@/index'
+import {
+  buildTestJwkData,
+  createValidFHIRBundle,
+  testPrivateKeyPKCS8,
+  testPublicKeySPKI,
+} from '../helpers'
+
+describe('SHCReader trust policy', () => {
+  const ISS_URL = 'https://example.com/issuer'
+  const ROGUE_ISS_URL = 'https://rogue.example.org'
+  let validBundle: FHIRBundle
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  const issueFrom = async (iss: string) =>
+    (
+      await new SHCIssuer({
+        issuer: iss,
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+      }).issue(validBundle)
+    ).asJWS()
+
+  const buildDirectory = async () => {
+    const { jwk, kid } = await buildTestJwkData()
+    return Directory.fromJSON({
+      issuerInfo: [{ issuer: { iss: ISS_URL }, keys: [{ ...jwk, kid }] }],
+    })
+  }
+
+  beforeEach(async () => {
+    validBundle = createValidFHIRBundle()
+    const { jwk, kid } = await buildTestJwkData()
+    fetchMock = vi.fn(async () => ({ ok: true, json: async () => ({ keys: [{ ...jwk, kid }] }) }))
+    vi.stubGlobal('fetch', fetchMock as any)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should accept any JWKS-resolvable issuer by default', async () => {
+    const reader = new SHCReader({})
+    await expect(reader.fromJWS(await issueFrom(ROGUE_ISS_URL))).resolves.toBeDefined()
+  })
+
+  it('should reject issuers outside trustedIssuers before fetching keys', async () => {
+    const reader = new SHCReader({ trustedIssuers: [ISS_URL, /^https:\/\/[a-z]+\.health\.gov$/] })
+
+    await expect(reader.fromJWS(await issueFrom(ROGUE_ISS_URL))).rejects.toThrow(
+      UntrustedIssuerError
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    await expect(reader.fromJWS(await issueFrom(ISS_URL))).resolves.toBeDefined()
+    await expect(reader.fromJWS(await issueFrom('https://state.health.gov'))).resolves.toBeDefined()
+  })
+
+  it('should require directory membership when configured', async () => {
+    const reader = new SHCReader({
+      issuerDirectory: await buildDirectory(),
+      requireDirectoryMembership: true,
+    })
+
+    await expect(reader.fromJWS(await issueFrom(ISS_URL))).resolves.toBeDefined()
+    await expect(reader.fromJWS(await issueFrom(ROGUE_ISS_URL))).rejects.toThrow(
+      'is not listed in the issuer directory'
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('should never fetch the issuer JWKS when fallback is disabled', async () => {
+    const { kid } = await buildTestJwkData()
+    const directory = Directory.fromJSON({
+      issuerInfo: [{ issuer: { iss: ISS_URL }, keys: [{ kty: 'EC', kid: `${kid}-other` }] }],
+    })
+    const reader = new SHCReader({ issuerDirectory: directory, allowJwksFallback: false })
+
+    await expect(reader.fromJWS(await issueFrom(ISS_URL))).rejects.toThrow(UntrustedIssuerError)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('should report untrusted issuers in verify()', async () => {
+    const reader = new SHCReader({ trustedIssuers: [ISS_URL] })
+
+    const rejected = await reader.verify(await issueFrom(ROGUE_ISS_URL))
+    expect(rejected.valid).toBe(false)
+    expect(rejected.checks.find(c => c.check === 'issuerTrust')).toMatchObject({
+      status: 'failed',
+      code: 'UNTRUSTED_ISSUER',
+    })
+    expect(rejected.checks.find(c => c.check === 'keySource')?.status).toBe('skipped')
+
+    const accepted = await reader.verify(await issueFrom(ISS_URL))
+    expect(accepted.valid).toBe(true)
+    expect(accepted.checks.find(c => c.check === 'issuerTrust')?.code).toBe('ISSUER_ALLOWED')
+  })
+
+  it('should resolve aliased issuers to their canonical issuer', async () => {
+    const { jwk, kid } = await buildTestJwkData()
+    const OLD_ISS_URL = 'https://old.example.com/issuer'
+    const directory = Directory.fromJSON({
+      issuerInfo: [
+        { issuer: { iss: OLD_ISS_URL, canonical_iss: ISS_URL }, keys: [] },
+        { issuer: { iss: ISS_URL, name: 'State Health Department' }, keys: [{ ...jwk, kid }] },
+      ],
+    })
+    const reader = new SHCReader({
+      issuerDirectory: directory,
+      trustedIssuers: [ISS_URL],
+      allowJwksFallback: false,
+    })
+    const jws = await issueFrom(OLD_ISS_URL)
+
+    const healthCard = await reader.fromJWS(jws)
+    expect(healthCard.getIssuerInfo()?.name).toBe('State Health Department')
+
+    const report = await reader.verify(jws)
+    expect(report.valid).toBe(true)
+    expect(report.issuer?.iss).toBe(ISS_URL)
+    expect(report.checks.find(c => c.check === 'issuerTrust')?.message).toBe(
+      `Issuer ${OLD_ISS_URL} is listed in the issuer directory as an alias of ${ISS_URL}`
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  it('should reject inconsistent policies', () => {
+    expect(() => new SHCReader({ requireDirectoryMembership: true })).toThrow(SHCReaderConfigError)
+    expect(() => new SHCReader({ allowJwksFallback: false })).toThrow(SHCReaderConfigError)
+    expect(
+      () => new SHCReader({ publicKey: testPublicKeySPKI, allowJwksFallback: false })
+    ).not.toThrow()
+  })
+})
@@ -4,11 +4,27 @@ import { beforeEach, describe, expect, it } from 'vitest'
 import {
   CredentialValidationError,
   type FHIRBundle,
+  SHCIssuer,
+  SHCReader,
   type VerifiableCredential,
   type VerifiableCredentialParams,
   VerifiableCredentialProcessor,
 } from '@/index'
-import { createInvalidBundle, createValidFHIRBundle } from '../helpers'
+import {
+  createInvalidBundle,
+  createValidFHIRBundle,
+  testPrivateKeyPKCS8,
+  testPublicKeySPKI,
+} from '../helpers'
+
+const labObservation = (loincCode: string, category = 'laboratory') => ({
+  resource: {
+    resourceType: 'Observation' as const,
+    status: 'final' as const,
+    category: [{ coding: [{ code: category }] }],
+    code: { coding: [{ system: 'http://loinc.org', code: loincCode }] },
+  },
+})
 
 describe('VerifiableCredentialProcessor', () => {
   let processor: VerifiableCredentialProcessor
@@ -85,6 +101,92 @@ describe('VerifiableCredentialProcessor', () => {
     })
   })
 
+  describe('inferTypes()', () => {
+    it('should infer immunization and covid19 types from COVID-19 vaccines', () => {
+      expect(processor.inferTypes(validBundle)).toEqual([
+        'https://smarthealth.cards#immunization',
+        'https://smarthealth.cards#covid19',
+      ])
+    })
+
+    it('should not infer covid19 from other vaccines', () => {
+      const immunization = validBundle.entry![1]!.resource as any
+      immunization.vaccineCode.coding[0].code = '140' // Influenza
+
+      expect(processor.inferTypes(validBundle)).toEqual(['https://smarthealth.cards#immunization'])
+    })
+
+    it('should infer laboratory types from laboratory observations only', () => {
+      const bundle: FHIRBundle = {
+        resourceType: 'Bundle',
+        entry: [labObservation('94558-4'), labObservation('8867-4', 'vital-signs')],
+      }
+
+      expect(processor.inferTypes(bundle)).toEqual([
+        'https://smarthealth.cards#laboratory',
+        'https://smarthealth.cards#covid19',
+      ])
+      expect(processor.inferTypes({ resourceType: 'Bundle', entry: [bundle.entry![1]!] })).toEqual(
+        []
+      )
+    })
+
+    it('should add inferred types when creating credentials, without duplicates', () => {
+      const vc = processor.create(validBundle, {
+        inferTypes: true,
+        includeAdditionalTypes: ['https://smarthealth.cards#covid19'],
+      })
+
+      expect(vc.vc.type).toEqual([
+        'https://smarthealth.cards#health-card',
+        'https://smarthealth.cards#immunization',
+        'https://smarthealth.cards#covid19',
+      ])
+    })
+  })
+
+  describe('VC types when issuing and reading', () => {
+    const createIssuer = (inferTypes?: boolean) =>
+      new SHCIssuer({
+        issuer: 'https://example.com/issuer',
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+        ...(inferTypes !== undefined && { inferTypes }),
+      })
+
+    it('should infer types when the issuer or issue() enables it', async () => {
+      const expectTypes = async (issuer: SHCIssuer, params: VerifiableCredentialParams) => {
+        const jws = (await issuer.issue(validBundle, params)).asJWS()
+        const reader = new SHCReader({
+          publicKey: testPublicKeySPKI,
+          expectedTypes: ['https://smarthealth.cards#covid19'],
+        })
+        return reader.fromJWS(jws)
+      }
+      await expect(expectTypes(createIssuer(true), {})).resolves.toBeDefined()
+      await expect(expectTypes(createIssuer(), { inferTypes: true })).resolves.toBeDefined()
+      await expect(expectTypes(createIssuer(true), { inferTypes: false })).rejects.toThrow(
+        'missing the expected VC type(s): https://smarthealth.cards#covid19'
+      )
+    })
+
+    it('should fail the credential check of cards missing expected types', async () => {
+      const jws = (await createIssuer().issue(validBundle)).asJWS()
+      const reader = new SHCReader({
+        publicKey: testPublicKeySPKI,
+        expectedTypes: ['https://smarthealth.cards#immunization'],
+      })
+
+      const report = await reader.verify(jws)
+
+      expect(report.valid).toBe(false)
+      expect(report.checks.find(c => c.check === 'credential')).toMatchObject({
+        status: 'failed',
+        code: 'FAILED_VALIDATION',
+      })
+    })
+  })
+
   describe('validate()', () => {
     let validVC: VerifiableCredential
 
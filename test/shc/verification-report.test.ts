@@ -0,0 +1,189 @@
+// biome-ignore-all lint/suspicious/noExplicitAny: The test needs to use `any` to mock the fetch function
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Directory, type FHIRBundle, SHCIssuer, SHCReader, type VerificationReport } from '@/index'
+import {
+  buildTestJwkData,
+  createValidFHIRBundle,
+  testPrivateKeyPKCS8,
+  testPublicKeySPKI,
+} from '../helpers'
+
+const summarize = (report: VerificationReport) =>
+  Object.fromEntries(report.checks.map(({ check, status, code }) => [check, `${status}:${code}`]))
+
+describe('SHCReader.verify()', () => {
+  const ISS_URL = 'https://example.com/issuer'
+  let issuer: SHCIssuer
+  let validBundle: FHIRBundle
+
+  beforeEach(() => {
+    issuer = new SHCIssuer({
+      issuer: ISS_URL,
+      privateKey: testPrivateKeyPKCS8,
+      publicKey: testPublicKeySPKI,
+    })
+    validBundle = createValidFHIRBundle()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const buildDirectory = async (rids: string[] = []) => {
+    const { jwk, kid } = await buildTestJwkData()
+    return Directory.fromJSON({
+      issuerInfo: [
+        {
+          issuer: { iss: ISS_URL },
+          keys: [{ ...jwk, kid }],
+          crls: [{ kid, method: 'rid', ctr: 1, rids }],
+        },
+      ],
+    })
+  }
+
+  it('should report every check for a card verified with a configured key', async () => {
+    const healthCard = await issuer.issue(validBundle)
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI })
+
+    const report = await reader.verify(healthCard.asJWS())
+
+    expect(report.valid).toBe(true)
+    expect(report.keySource).toBe('config')
+    expect(report.iss).toBe(ISS_URL)
+    expect(report.kid).toBe((await buildTestJwkData()).kid)
+    expect(summarize(report)).toEqual({
+      decode: 'passed:DECODED',
+      keySource: 'passed:KEY_FROM_CONFIG',
+      signature: 'passed:SIGNATURE_VALID',
+      timing: 'passed:VALID_PERIOD',
+      bundle: 'passed:BUNDLE_VALID',
+      credential: 'passed:CREDENTIAL_VALID',
+      issuerTrust: 'passed:KEY_CONFIGURED',
+      revocation: 'skipped:NO_RID',
+    })
+    expect(await report.healthCard?.asBundle()).toEqual(
+      await healthCard.asBundle({ optimizeForQR: true })
+    )
+  })
+
+  it('should report directory trust and revocation', async () => {
+    const directory = await buildDirectory(['revoked-1'])
+    const reader = new SHCReader({ issuerDirectory: directory })
+
+    const validReport = await reader.verify(
+      (await issuer.issue(validBundle, { rid: 'ok' })).asJWS()
+    )
+    expect(validReport.valid).toBe(true)
+    expect(summarize(validReport)).toMatchObject({
+      keySource: 'passed:KEY_FROM_DIRECTORY',
+      issuerTrust: 'passed:ISSUER_IN_DIRECTORY',
+      revocation: 'passed:NOT_REVOKED',
+    })
+
+    const revokedReport = await reader.verify(
+      (await issuer.issue(validBundle, { rid: 'revoked-1' })).asJWS()
+    )
+    expect(revokedReport.valid).toBe(false)
+    expect(revokedReport.healthCard).toBeNull()
+    expect(summarize(revokedReport).revocation).toBe('failed:SHC_REVOKED')
+  })
+
+  it('should warn when falling back to the issuer JWKS after a directory miss', async () => {
+    const { jwk, kid } = await buildTestJwkData()
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => ({ ok: true, json: async () => ({ keys: [{ ...jwk, kid }] }) })) as any
+    )
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const reader = new SHCReader({ issuerDirectory: Directory.fromJSON({ issuerInfo: [] }) })
+
+    const report = await reader.verify((await issuer.issue(validBundle)).asJWS())
+
+    expect(report.valid).toBe(true)
+    expect(report.keySource).toBe('jwks')
+    expect(report.checks.find(c => c.check === 'keySource')).toMatchObject({
+      status: 'warning',
+      code: 'KEY_FROM_JWKS',
+      message: expect.stringContaining('Issuer not found in directory'),
+    })
+    expect(summarize(report).issuerTrust).toBe('warning:ISSUER_NOT_IN_DIRECTORY')
+    expect(warnSpy).not.toHaveBeenCalled()
+  })
+
+  it('should report a directory that fails to load only in the issuer trust check', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, status: 503 })) as any)
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI, useVciDirectory: true })
+
+    const report = await reader.verify((await issuer.issue(validBundle, { rid: 'ok' })).asJWS())
+
+    expect(report.valid).toBe(true)
+    expect(summarize(report)).toMatchObject({
+      keySource: 'passed:KEY_FROM_CONFIG',
+      issuerTrust: 'warning:DIRECTORY_UNAVAILABLE',
+      revocation: 'skipped:NO_DIRECTORY',
+    })
+    expect(report.checks.find(c => c.check === 'issuerTrust')?.message).toContain('status 503')
+  })
+
+  it('should report a bad signature and skip dependent checks', async () => {
+    const { publicKey } = (await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      true,
+      ['sign', 'verify']
+    )) as CryptoKeyPair
+    const reader = new SHCReader({ publicKey })
+
+    const report = await reader.verify((await issuer.issue(validBundle)).asJWS())
+
+    expect(report.valid).toBe(false)
+    expect(summarize(report)).toEqual({
+      decode: 'passed:DECODED',
+      keySource: 'passed:KEY_FROM_CONFIG',
+      signature: 'failed:BAD_SIGNATURE',
+      timing: 'skipped:SKIPPED',
+      bundle: 'skipped:SKIPPED',
+      credential: 'skipped:SKIPPED',
+      issuerTrust: 'skipped:SKIPPED',
+      revocation: 'skipped:SKIPPED',
+    })
+  })
+
+  it('should report expiration according to verifyExpiration', async () => {
+    vi.useFakeTimers()
+    try {
+      const expiringIssuer = new SHCIssuer({
+        issuer: ISS_URL,
+        privateKey: testPrivateKeyPKCS8,
+        publicKey: testPublicKeySPKI,
+        expirationTime: 60,
+      })
+      const jws = (await expiringIssuer.issue(validBundle)).asJWS()
+      vi.advanceTimersByTime(120_000)
+
+      const strict = await new SHCReader({ publicKey: testPublicKeySPKI }).verify(jws)
+      expect(strict.valid).toBe(false)
+      expect(summarize(strict).timing).toBe('failed:EXPIRED')
+
+      const lenient = await new SHCReader({
+        publicKey: testPublicKeySPKI,
+        verifyExpiration: false,
+      }).verify(jws)
+      expect(lenient.valid).toBe(true)
+      expect(summarize(lenient).timing).toBe('warning:EXPIRED')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should report undecodable input without throwing', async () => {
+    const reader = new SHCReader({ publicKey: testPublicKeySPKI })
+
+    const report = await reader.verify('not-a-jws')
+
+    expect(report.valid).toBe(false)
+    expect(report.checks[0]).toMatchObject({ check: 'decode', status: 'failed', code: 'JWS_ERROR' })
+    expect(report.checks.slice(1).every(c => c.status === 'skipped')).toBe(true)
+  })
+})
@@ -1177,5 +1177,41 @@ describe('SHLManifestBuilder', () => {
       await expect(builderWithExpiredShl.buildManifest()).rejects.toThrow(SHLExpiredError)
       await expect(builderWithExpiredShl.buildManifest()).rejects.toThrow('SHL has expired')
     })
+
+    it('should use the injected clock for expiration and lastUpdated', async () => {
+      const expiresAt = Date.now() + 60_000
+      const shl = SHL.generate({
+        baseManifestURL: 'https://shl.example.org/manifests/',
+        manifestPath: '/manifest.json',
+        expirationDate: new Date(expiresAt),
+      })
+      let now = expiresAt - 30_000
+      const builderWithClock = new SHLManifestBuilder({
+        shl,
+        uploadFile: async (content: string) => {
+          const fileId = `file-${uploadedFiles.size + 1}`
+          uploadedFiles.set(fileId, content)
+          return fileId
+        },
+        getFileURL: async (path: string) => `https://files.example.org/${path}`,
+        loadFile: async (path: string) => {
+          const content = uploadedFiles.get(path)
+          if (!content) throw new Error(`File not found: ${path}`)
+          return content
+        },
+        clock: () => now,
+        clockSkewTolerance: 30,
+      })
+
+      await builderWithClock.addFHIRResource({ content: createValidFHIRBundle() })
+      const manifest = await builderWithClock.buildManifest()
+      expect(manifest.files[0]?.lastUpdated).toBe(new Date(expiresAt - 30_000).toISOString())
+
+      now = expiresAt + 20_000
+      await expect(builderWithClock.buildManifest()).resolves.toBeDefined()
+
+      now = expiresAt + 40_000
+      await expect(builderWithClock.buildManifest()).rejects.toThrow(SHLExpiredError)
+    })
   })
 })
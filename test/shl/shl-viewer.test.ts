@@ -519,6 +519,38 @@ describe('SHLViewer', () => {
       expect(fetchMock).not.toHaveBeenCalled()
     })
 
+    it('uses the injected clock and skew tolerance for expiration', async () => {
+      const expiresAt = Date.now() - 60_000
+      const shl = SHL.generate({
+        baseManifestURL: 'https://shl.example.org',
+        expirationDate: new Date(expiresAt),
+      })
+      const fetchMock = vi.fn(
+        async () =>
+          ({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            text: async () => JSON.stringify({ files: [] }),
+          }) as Response
+      )
+      const shlinkURI = shl.toURI()
+
+      await expect(
+        new SHLViewer({ shlinkURI, fetch: fetchMock, clockSkewTolerance: 120 }).resolveSHL({
+          recipient: 'r',
+        })
+      ).resolves.toMatchObject({ smartHealthCards: [], fhirResources: [] })
+      await expect(
+        new SHLViewer({ shlinkURI, fetch: fetchMock, clock: () => expiresAt - 1000 }).resolveSHL({
+          recipient: 'r',
+        })
+      ).resolves.toBeDefined()
+      expect(() => new SHLViewer({ shlinkURI, fetch: fetchMock, clockSkewTolerance: -1 })).toThrow(
+        SHLViewerError
+      )
+    })
+
     it('throws for content type mismatch between descriptor and decrypted file', async () => {
       const shl = SHL.generate({ baseManifestURL: 'https://shl.example.org' })
       const jweMismatch = await encryptSHLFile({
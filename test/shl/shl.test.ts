@@ -161,6 +161,19 @@ describe('SHL Class', () => {
         expect(decodedContent, `QR decode failed for ${description}`).toBe(expectedContent)
       }
     })
+
+    it('should generate QR codes in other output formats', async () => {
+      const png = await baseSHL.asQR({ format: 'png', viewerURL: 'https://viewer.example.org/shl' })
+      expect(png).toBeInstanceOf(Uint8Array)
+      expect(
+        decodeQRFromDataURL(`data:image/png;base64,${Buffer.from(png).toString('base64')}`)
+      ).toBe(`https://viewer.example.org/shl#${baseSHL.toURI()}`)
+
+      expect(await baseSHL.asQR({ format: 'svg' })).toMatch(/^<svg/)
+      const matrix = await baseSHL.asQR({ format: 'matrix' })
+      expect(matrix.every(row => row.length === matrix.length)).toBe(true)
+      expect(await baseSHL.asQR({ format: 'dataURL' })).toBe(await baseSHL.asQR())
+    })
   })
 
   describe('SHL URI Parsing', () => {